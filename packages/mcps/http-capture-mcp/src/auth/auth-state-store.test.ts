@@ -0,0 +1,137 @@
+/**
+ * Auth state store tests.
+ */
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StorageState } from '../types.js';
+import { AuthStateStore } from './auth-state-store.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.parse('2024-01-15T10:30:00.000Z');
+
+function storageState(expires: number): StorageState {
+  return {
+    cookies: [
+      {
+        name: 'SESSION',
+        value: 'session-secret',
+        domain: 'erp.example.com',
+        path: '/',
+        expires: -1,
+        httpOnly: true,
+        secure: true,
+        sameSite: 'Lax',
+      },
+      {
+        name: 'KEYCLOAK_IDENTITY',
+        value: 'identity-secret',
+        domain: 'auth.example.com',
+        path: '/',
+        expires,
+        httpOnly: true,
+        secure: true,
+        sameSite: 'None',
+      },
+    ],
+    origins: [
+      {
+        origin: 'https://erp.example.com',
+        localStorage: [{ name: 'token', value: 'token-secret' }],
+      },
+      { origin: 'https://auth.example.com', localStorage: [] },
+    ],
+  };
+}
+
+describe('AuthStateStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'auth-state-store-'));
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  function createStore(passphrase?: string): AuthStateStore {
+    return new AuthStateStore({ directory, passphrase, maxAgeMs: 12 * HOUR_MS });
+  }
+
+  it('encrypts the saved state and decrypts it with the same passphrase', async () => {
+    const store = createStore('correct horse battery staple');
+    const state = storageState(-1);
+
+    const info = await store.save('planner', state);
+    const file = await readFile(store.getFilePath('planner'), 'utf-8');
+
+    expect(info).toEqual({
+      profile: 'planner',
+      savedAt: '2024-01-15T10:30:00.000Z',
+      expiresAt: '2024-01-15T22:30:00.000Z',
+      cookieCount: 2,
+      domains: ['auth.example.com', 'erp.example.com'],
+      origins: ['https://erp.example.com'],
+    });
+    expect(file).not.toMatch(/secret|erp\.example\.com/);
+    expect(await store.load('planner')).toEqual({ info, state });
+  });
+
+  it('rejects a wrong passphrase and a missing one', async () => {
+    await createStore('correct horse battery staple').save('planner', storageState(-1));
+
+    await expect(createStore('wrong passphrase').load('planner')).rejects.toThrow(
+      "Saved auth state 'planner' cannot be decrypted"
+    );
+    await expect(createStore().load('planner')).rejects.toThrow('AUTH_STATE_KEY must be set');
+    await expect(createStore().save('planner', storageState(-1))).rejects.toThrow(
+      'AUTH_STATE_KEY must be set'
+    );
+  });
+
+  it('returns null for a profile without saved state', async () => {
+    expect(await createStore('passphrase').load('planner')).toBeNull();
+  });
+
+  it('expires at the earliest persistent cookie expiry or the maximum age', async () => {
+    const store = createStore('passphrase');
+
+    const cookieBound = await store.save('planner', storageState(NOW / 1000 + 2 * 60 * 60));
+    const ageBound = await store.save('manager', storageState(NOW / 1000 + 24 * 60 * 60));
+
+    expect(cookieBound.expiresAt).toBe('2024-01-15T12:30:00.000Z');
+    expect(ageBound.expiresAt).toBe('2024-01-15T22:30:00.000Z');
+    expect(store.isExpired(cookieBound, NOW + 2 * HOUR_MS - 1)).toBe(false);
+    expect(store.isExpired(cookieBound, NOW + 2 * HOUR_MS)).toBe(true);
+    expect(store.isExpired(ageBound)).toBe(false);
+  });
+
+  it('rejects profile names that could leave the state directory', async () => {
+    const store = createStore('passphrase');
+
+    expect(store.getFilePath('planner.eu-1')).toBe(join(directory, 'planner.eu-1.auth'));
+    for (const profile of ['../planner', 'team/planner', '', 'p'.repeat(65)]) {
+      expect(() => store.getFilePath(profile)).toThrow(`Invalid auth profile name: ${profile}`);
+    }
+    await expect(store.save('../planner', storageState(-1))).rejects.toThrow(
+      'Invalid auth profile name'
+    );
+  });
+
+  it('removes one profile or all of them', async () => {
+    const store = createStore('passphrase');
+    await store.save('planner', storageState(-1));
+    await store.save('manager', storageState(-1));
+
+    expect(await store.remove('planner')).toBe(true);
+    expect(await store.remove('planner')).toBe(false);
+    expect(await store.clear()).toEqual(['manager']);
+    expect(await store.load('manager')).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Encrypted storage of browser authentication state.
+ * Saves a context's cookies and localStorage so new sessions can skip the login flow.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import type { AuthStateStoreConfig, SavedAuthInfo, StorageState } from '../types.js';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+const FILE_EXTENSION = '.auth';
+const PROFILE_PATTERN = /^[\w.-]{1,64}$/;
+
+/**
+ * On-disk format. Everything except the key derivation inputs is encrypted.
+ */
+interface EncryptedAuthFile {
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Decrypted content of a state file.
+ */
+export interface AuthStatePayload {
+  info: SavedAuthInfo;
+  state: StorageState;
+}
+
+/**
+ * Stores browser storage state encrypted with AES-256-GCM under a passphrase-derived key.
+ */
+export class AuthStateStore {
+  private readonly config: AuthStateStoreConfig;
+
+  constructor(config: AuthStateStoreConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Save the storage state of a context under a profile name.
+   */
+  async save(profile: string, state: StorageState): Promise<SavedAuthInfo> {
+    const passphrase = this.requirePassphrase();
+    const savedAt = Date.now();
+
+    // Session cookies (expires -1) live as long as the server session; only persistent ones bound the expiry
+    let expiresAt = savedAt + this.config.maxAgeMs;
+    for (const cookie of state.cookies) {
+      if (cookie.expires > 0) {
+        expiresAt = Math.min(expiresAt, cookie.expires * 1000);
+      }
+    }
+
+    const info: SavedAuthInfo = {
+      profile,
+      savedAt: new Date(savedAt).toISOString(),
+      expiresAt: new Date(expiresAt).toISOString(),
+      cookieCount: state.cookies.length,
+      domains: Array.from(new Set(state.cookies.map((c) => c.domain))).sort(),
+      origins: state.origins.filter((o) => o.localStorage.length > 0).map((o) => o.origin),
+    };
+
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = await scryptAsync(passphrase, salt, 32);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const plaintext = JSON.stringify({ info, state } satisfies AuthStatePayload);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+    const file: EncryptedAuthFile = {
+      version: 1,
+      algorithm: 'aes-256-gcm',
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    await mkdir(this.config.directory, { recursive: true, mode: 0o700 });
+    await writeFile(this.getFilePath(profile), JSON.stringify(file), { encoding: 'utf-8', mode: 0o600 });
+
+    return info;
+  }
+
+  /**
+   * Load a saved state. Returns null when nothing is saved under the profile.
+   */
+  async load(profile: string): Promise<AuthStatePayload | null> {
+    const passphrase = this.requirePassphrase();
+
+    let content: string;
+    try {
+      content = await readFile(this.getFilePath(profile), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      const file = JSON.parse(content) as EncryptedAuthFile;
+      const key = await scryptAsync(passphrase, Buffer.from(file.salt, 'base64'), 32);
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final(),
+      ]).toString('utf-8');
+      return JSON.parse(plaintext) as AuthStatePayload;
+    } catch {
+      throw new Error(`Saved auth state '${profile}' cannot be decrypted (wrong AUTH_STATE_KEY or corrupted file)`);
+    }
+  }
+
+  /**
+   * Check whether a saved state has expired.
+   */
+  isExpired(info: SavedAuthInfo, now = Date.now()): boolean {
+    return Date.parse(info.expiresAt) <= now;
+  }
+
+  /**
+   * Delete the state saved under a profile. Returns false when none was saved.
+   */
+  async remove(profile: string): Promise<boolean> {
+    const filePath = this.getFilePath(profile);
+    try {
+      await rm(filePath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every saved state. Returns the removed profile names.
+   */
+  async clear(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.config.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const removed: string[] = [];
+    for (const file of files) {
+      if (file.endsWith(FILE_EXTENSION)) {
+        await rm(join(this.config.directory, file), { force: true });
+        removed.push(file.slice(0, -FILE_EXTENSION.length));
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * State file path for a profile. Profile names are restricted so they cannot escape the directory.
+   */
+  getFilePath(profile: string): string {
+    if (!PROFILE_PATTERN.test(profile)) {
+      throw new Error(`Invalid auth profile name: ${profile}`);
+    }
+    return join(this.config.directory, `${profile}${FILE_EXTENSION}`);
+  }
+
+  private requirePassphrase(): string {
+    if (!this.config.passphrase) {
+      throw new Error('AUTH_STATE_KEY must be set to save or restore authentication state');
+    }
+    return this.config.passphrase;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Session isolation settings loading.
+ * Reads the sessionIsolation section of config/security.json.
+ */
+
+import { getConfigSection, type SecurityConfigFile } from '../security-config.js';
+import type { SessionIsolationConfig } from '../types.js';
+
+/**
+ * Settings used when the security config has no sessionIsolation section: every isolation measure is on.
+ */
+export const DEFAULT_SESSION_ISOLATION: SessionIsolationConfig = {
+  enabled: true,
+  cleanupOnClose: true,
+  noPersistentStorage: true,
+  incognitoMode: true,
+};
+
+/**
+ * Get session isolation settings from the security config; missing fields fall back to the defaults.
+ */
+export function getSessionIsolation(config: SecurityConfigFile): SessionIsolationConfig {
+  const section = getConfigSection(config, 'sessionIsolation');
+  const flag = (name: keyof SessionIsolationConfig): boolean => {
+    const value = section[name];
+    return typeof value === 'boolean' ? value : DEFAULT_SESSION_ISOLATION[name];
+  };
+
+  return {
+    enabled: flag('enabled'),
+    cleanupOnClose: flag('cleanupOnClose'),
+    noPersistentStorage: flag('noPersistentStorage'),
+    incognitoMode: flag('incognitoMode'),
+  };
+}
@@ -4,7 +4,7 @@
  */
 
 import { chromium, type Browser, type BrowserContext } from 'playwright';
-import type { BrowserManagerConfig } from '../types.js';
+import type { BrowserManagerConfig, StorageState } from '../types.js';
 
 /**
  * HTTP credentials for authentication.
@@ -21,6 +21,8 @@ export interface HttpCredentials {
 export interface CreateContextOptions {
   /** HTTP credentials for Basic/NTLM authentication */
   httpCredentials?: HttpCredentials;
+  /** Saved cookies and localStorage to start the context with */
+  storageState?: StorageState;
 }
 
 /**
@@ -94,6 +96,8 @@ export class BrowserManager {
         password: options.httpCredentials.password,
         origin: options.httpCredentials.origin,
       } : undefined,
+      // Saved authentication state (if restoring a login)
+      storageState: options?.storageState,
       // Locale settings
       locale: 'en-US',
       timezoneId: 'America/New_York',
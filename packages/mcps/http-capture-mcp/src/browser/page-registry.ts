@@ -0,0 +1,247 @@
+/**
+ * Page and frame tracking for capture sessions.
+ * Gives every tab, popup and iframe of a context a stable ID and keeps the target UI actions run in.
+ */
+
+import type { BrowserContext, Frame, Page } from 'playwright';
+import type { FrameTargetInfo, PageTargetInfo } from '../types.js';
+
+/**
+ * Tracks the pages and frames of a browser context.
+ * Pages are numbered in the order they opened (page-1 is the page openUrl navigated);
+ * iframes are numbered when first seen. The main frame of a page has no frame ID.
+ */
+export class PageRegistry {
+  private readonly context: BrowserContext;
+  /** Open pages in the order they opened */
+  private readonly pages: Page[] = [];
+  private readonly pageIds = new WeakMap<Page, string>();
+  private readonly frameIds = new WeakMap<Frame, string>();
+  private readonly openerIds = new WeakMap<Page, string>();
+  private activePage: Page | null = null;
+  private activeFrame: Frame | null = null;
+  private nextPageNumber = 1;
+  private nextFrameNumber = 1;
+  private isTracking = false;
+
+  constructor(context: BrowserContext) {
+    this.context = context;
+  }
+
+  /**
+   * Start tracking new pages of the context (new tabs, popups, window.open).
+   */
+  start(): void {
+    if (this.isTracking) {
+      return;
+    }
+
+    this.context.on('page', this.handlePage);
+    this.isTracking = true;
+  }
+
+  /**
+   * Stop tracking new pages.
+   */
+  stop(): void {
+    if (!this.isTracking) {
+      return;
+    }
+
+    this.context.off('page', this.handlePage);
+    this.isTracking = false;
+  }
+
+  /**
+   * Get the ID of a page, registering it on first use.
+   */
+  getPageId(page: Page): string {
+    return this.pageIds.get(page) ?? this.register(page);
+  }
+
+  /**
+   * Get the ID of an iframe, assigning one on first use. Main frames have no ID.
+   */
+  getFrameId(frame: Frame): string | undefined {
+    if (!frame.parentFrame()) {
+      return undefined;
+    }
+
+    let id = this.frameIds.get(frame);
+    if (!id) {
+      id = `frame-${this.nextFrameNumber++}`;
+      this.frameIds.set(frame, id);
+    }
+    return id;
+  }
+
+  /**
+   * Get the page UI actions run in.
+   */
+  getActivePage(): Page {
+    if (!this.activePage) {
+      throw new Error('All pages of the session are closed');
+    }
+    return this.activePage;
+  }
+
+  /**
+   * Get the frame UI actions run in: the selected iframe, or the active page itself.
+   * A selected iframe that was removed from the page falls back to the page.
+   */
+  getActiveTarget(): Page | Frame {
+    if (this.activeFrame?.isDetached()) {
+      this.activeFrame = null;
+    }
+    return this.activeFrame ?? this.getActivePage();
+  }
+
+  /**
+   * Get the ID of the selected iframe, if UI actions run in one.
+   */
+  getActiveFrameId(): string | undefined {
+    if (this.activeFrame?.isDetached()) {
+      this.activeFrame = null;
+    }
+    return this.activeFrame ? this.getFrameId(this.activeFrame) : undefined;
+  }
+
+  /**
+   * Make a page the active target, optionally with one of its iframes.
+   * A frame ID alone selects the page the frame belongs to.
+   */
+  switchTo(pageId?: string, frameId?: string): void {
+    let page = pageId ? this.findPage(pageId) : this.getActivePage();
+    let frame: Frame | null = null;
+
+    if (frameId) {
+      const owner = pageId ? [page] : this.pages;
+      const match = owner
+        .flatMap((p) => p.frames().map((f) => ({ page: p, frame: f })))
+        .find((candidate) => this.frameIds.get(candidate.frame) === frameId && !candidate.frame.isDetached());
+      if (!match) {
+        throw new Error(pageId ? `Frame not found in ${pageId}: ${frameId}` : `Frame not found: ${frameId}`);
+      }
+      ({ page, frame } = match);
+    }
+
+    this.activePage = page;
+    this.activeFrame = frame;
+  }
+
+  /**
+   * Select the iframe an element of the active target hosts (e.g. iframe#reportFrame).
+   */
+  async switchToFrameElement(selector: string, timeoutMs: number): Promise<void> {
+    const element = await this.getActiveTarget().locator(selector).first().elementHandle({ timeout: timeoutMs });
+    if (!element) {
+      throw new Error(`Element not found: ${selector}`);
+    }
+
+    const frame = await element.contentFrame();
+    await element.dispose();
+    if (!frame) {
+      throw new Error(`Element is not an iframe: ${selector}`);
+    }
+
+    this.activeFrame = frame;
+  }
+
+  /**
+   * Close a page. Closing the active page makes its opener (or the most recent page) active.
+   */
+  async closePage(pageId: string): Promise<void> {
+    const page = this.findPage(pageId);
+    if (this.pages.length === 1) {
+      throw new Error('Cannot close the last page of a session; use closeBrowser');
+    }
+
+    await page.close();
+    this.handleClose(page);
+  }
+
+  /**
+   * Describe the open pages with their iframes, marking the active target.
+   */
+  async describe(): Promise<PageTargetInfo[]> {
+    const target = this.activePage ? this.getActiveTarget() : null;
+
+    return Promise.all(
+      this.pages.map(async (page): Promise<PageTargetInfo> => {
+        const frames: FrameTargetInfo[] = page
+          .frames()
+          .filter((frame) => frame.parentFrame() && !frame.isDetached())
+          .map((frame) => {
+            const parent = frame.parentFrame();
+            return {
+              frameId: this.getFrameId(frame) ?? '',
+              url: frame.url(),
+              name: frame.name(),
+              parentFrameId: parent ? this.getFrameId(parent) : undefined,
+              active: frame === target,
+            };
+          });
+
+        return {
+          pageId: this.getPageId(page),
+          url: page.url(),
+          title: await page.title().catch(() => ''),
+          openerPageId: this.openerIds.get(page),
+          active: page === this.activePage,
+          frames,
+        };
+      })
+    );
+  }
+
+  private findPage(pageId: string): Page {
+    const page = this.pages.find((p) => this.pageIds.get(p) === pageId);
+    if (!page) {
+      throw new Error(`Page not found: ${pageId}`);
+    }
+    return page;
+  }
+
+  private register(page: Page): string {
+    const id = `page-${this.nextPageNumber++}`;
+    this.pageIds.set(page, id);
+    if (page.isClosed()) {
+      return id;
+    }
+    this.pages.push(page);
+    this.activePage = this.activePage ?? page;
+
+    page.once('close', () => this.handleClose(page));
+    void page
+      .opener()
+      .then((opener) => {
+        if (opener) {
+          this.openerIds.set(page, this.getPageId(opener));
+        }
+      })
+      .catch(() => {
+        // The page closed before its opener was known
+      });
+
+    return id;
+  }
+
+  private handlePage = (page: Page): void => {
+    this.getPageId(page);
+  };
+
+  private handleClose(page: Page): void {
+    const index = this.pages.indexOf(page);
+    if (index === -1) {
+      return;
+    }
+    this.pages.splice(index, 1);
+
+    if (this.activePage === page) {
+      const openerId = this.openerIds.get(page);
+      const opener = this.pages.find((p) => this.pageIds.get(p) === openerId);
+      this.activePage = opener ?? this.pages[this.pages.length - 1] ?? null;
+      this.activeFrame = null;
+    }
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * Accessibility-tree snapshots of the active page or modal.
+ * Lists roles, names and states of the elements an agent can act on, with references UI actions accept.
+ */
+
+import type { Frame, Page } from 'playwright';
+
+/**
+ * Options for taking a page snapshot.
+ */
+export interface PageSnapshotOptions {
+  /** auto snapshots the topmost open modal if there is one, otherwise the page */
+  scope: 'auto' | 'page' | 'modal';
+  /** Snapshot only this element and its descendants */
+  rootSelector?: string;
+  /** Include static text (messages, labels); defaults to true for modals only */
+  includeText?: boolean;
+  /** Most lines in the snapshot */
+  maxNodes: number;
+}
+
+/**
+ * Element that received a reference in a snapshot.
+ */
+export interface SnapshotRef {
+  /** Reference accepted by click, fill and selectOption (e.g. e12) */
+  ref: string;
+  role: string;
+  name: string;
+}
+
+/**
+ * Snapshot of a page, modal or element.
+ */
+export interface PageSnapshot {
+  /** What was snapshotted */
+  scope: 'page' | 'modal' | 'element';
+  title: string;
+  /** One line per element, indented by nesting (- role "name" [ref=e12] [state]: value) */
+  snapshot: string;
+  refs: SnapshotRef[];
+  /** Whether maxNodes cut the snapshot short */
+  truncated: boolean;
+}
+
+/**
+ * Referenced element as returned by the snapshot script.
+ */
+interface SnapshotElement extends SnapshotRef {
+  /** Accessible name without truncation, used for recorded selectors */
+  fullName: string;
+}
+
+/**
+ * Snapshot as returned by the snapshot script.
+ */
+interface RawPageSnapshot extends Omit<PageSnapshot, 'refs'> {
+  refs: SnapshotElement[];
+}
+
+/**
+ * References are e<number>, kept on the element so they stay the same across snapshots.
+ */
+const REF_PATTERN = /^e\d+$/;
+
+/**
+ * Attribute holding an element's reference in the page.
+ */
+const REF_ATTRIBUTE = 'data-capture-ref';
+
+/**
+ * Builds a CSS path to an element: tag and position steps up to the nearest ancestor with a
+ * unique id, or up to the root element.
+ */
+const CSS_PATH_SCRIPT = String.raw`(el) => {
+  const steps = [];
+  for (let node = el; node; node = node.parentElement) {
+    if (node.id && node.ownerDocument.querySelectorAll('#' + CSS.escape(node.id)).length === 1) {
+      steps.unshift('#' + CSS.escape(node.id));
+      break;
+    }
+    let position = 1;
+    for (let sibling = node.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+      if (sibling.localName === node.localName) position++;
+    }
+    steps.unshift(CSS.escape(node.localName) + ':nth-of-type(' + position + ')');
+  }
+  return steps.join(' > ');
+}`;
+
+/**
+ * Walks the DOM in the page and builds the snapshot lines. Runs as a string script because
+ * the package is compiled without DOM types.
+ */
+const SNAPSHOT_SCRIPT = String.raw`(options) => {
+  const INPUT_ROLES = {
+    button: 'button', submit: 'button', reset: 'button', image: 'button',
+    checkbox: 'checkbox', radio: 'radio', range: 'slider', number: 'spinbutton', search: 'searchbox',
+  };
+  const INTERACTIVE_ROLES = new Set([
+    'button', 'link', 'textbox', 'searchbox', 'combobox', 'listbox', 'option', 'checkbox', 'radio', 'switch',
+    'slider', 'spinbutton', 'tab', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'treeitem', 'iframe',
+  ]);
+  const CONTAINER_ROLES = new Set([
+    'dialog', 'alertdialog', 'form', 'group', 'tablist', 'menu', 'menubar', 'tree', 'grid', 'table',
+    'navigation', 'main', 'region', 'heading', 'alert', 'status',
+  ]);
+  const NAME_REQUIRED_ROLES = new Set(['group', 'region', 'form']);
+  const NAME_FROM_CONTENT_ROLES = new Set([
+    'button', 'link', 'tab', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'treeitem', 'option',
+    'heading', 'checkbox', 'radio', 'switch', 'alert', 'status',
+  ]);
+  // Children of these are part of the element's name or value
+  const LEAF_ROLES = new Set([
+    'button', 'link', 'textbox', 'searchbox', 'checkbox', 'radio', 'switch', 'slider', 'spinbutton', 'option',
+    'heading', 'alert', 'status', 'iframe', 'menuitem', 'menuitemcheckbox', 'menuitemradio', 'tab',
+  ]);
+  const VALUE_ROLES = new Set(['textbox', 'searchbox', 'combobox', 'spinbutton', 'slider']);
+  const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'HEAD']);
+
+  const normalize = (value) => (value || '').replace(/\s+/g, ' ').trim();
+
+  const clean = (value, max) => {
+    const text = normalize(value);
+    return text.length > max ? text.slice(0, max - 3) + '...' : text;
+  };
+
+  const isHidden = (el) => {
+    if (el.getAttribute('aria-hidden') === 'true' || el.hidden) return true;
+    const style = getComputedStyle(el);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+
+  const hasBox = (el) => el.getClientRects().length > 0;
+
+  const getRole = (el) => {
+    const explicit = (el.getAttribute('role') || '').trim().split(/\s+/)[0];
+    if (explicit && explicit !== 'presentation' && explicit !== 'none') return explicit;
+    const tag = el.tagName;
+    if (/^H[1-6]$/.test(tag)) return 'heading';
+    switch (tag) {
+      case 'A': return el.hasAttribute('href') ? 'link' : '';
+      case 'BUTTON': case 'SUMMARY': return 'button';
+      case 'INPUT': {
+        const type = (el.getAttribute('type') || 'text').toLowerCase();
+        return type === 'hidden' ? '' : INPUT_ROLES[type] || 'textbox';
+      }
+      case 'TEXTAREA': return 'textbox';
+      case 'SELECT': return el.multiple || el.size > 1 ? 'listbox' : 'combobox';
+      case 'DIALOG': return 'dialog';
+      case 'FORM': return 'form';
+      case 'FIELDSET': return 'group';
+      case 'TABLE': return 'table';
+      case 'NAV': return 'navigation';
+      case 'MAIN': return 'main';
+      case 'SECTION': return 'region';
+      case 'IFRAME': case 'FRAME': return 'iframe';
+    }
+    if (el.isContentEditable && !(el.parentElement && el.parentElement.isContentEditable)) return 'textbox';
+    return '';
+  };
+
+  const getName = (el, role) => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      const text = labelledBy.split(/\s+/).map((id) => {
+        const label = el.ownerDocument.getElementById(id);
+        return label ? label.textContent : '';
+      }).join(' ');
+      if (normalize(text)) return normalize(text);
+    }
+    const ariaLabel = el.getAttribute('aria-label');
+    if (ariaLabel && ariaLabel.trim()) return normalize(ariaLabel);
+    if (el.labels && el.labels.length > 0) {
+      const text = normalize(Array.from(el.labels).map((label) => label.innerText).join(' '));
+      if (text) return text;
+    }
+    if (el.tagName === 'INPUT' && ['button', 'submit', 'reset'].includes(el.type)) {
+      return normalize(el.value || (el.type === 'submit' ? 'Submit' : el.type === 'reset' ? 'Reset' : ''));
+    }
+    if (el.tagName === 'INPUT' && el.type === 'image') return normalize(el.alt);
+    if (el.tagName === 'FIELDSET') {
+      const legend = el.querySelector('legend');
+      if (legend) return normalize(legend.innerText);
+    }
+    if (role === 'dialog' || role === 'alertdialog') {
+      const heading = el.querySelector('h1, h2, h3, h4, [role="heading"]');
+      if (heading) return normalize(heading.innerText);
+    }
+    if (role === 'iframe') return normalize(el.getAttribute('name') || el.id || el.getAttribute('title'));
+    if (NAME_FROM_CONTENT_ROLES.has(role)) {
+      const text = normalize(el.innerText);
+      if (text) return text;
+    }
+    return normalize(el.getAttribute('title') || el.getAttribute('placeholder'));
+  };
+
+  const getStates = (el, role) => {
+    const states = [];
+    if (el.disabled || el.getAttribute('aria-disabled') === 'true') states.push('disabled');
+    const checked = el.getAttribute('aria-checked') || (typeof el.checked === 'boolean' && el.tagName === 'INPUT' ? String(el.checked) : null);
+    if (checked === 'true') states.push('checked');
+    if (checked === 'mixed') states.push('mixed');
+    const expanded = el.getAttribute('aria-expanded');
+    if (expanded === 'true') states.push('expanded');
+    if (expanded === 'false') states.push('collapsed');
+    if (el.getAttribute('aria-selected') === 'true' || (el.tagName === 'OPTION' && el.selected)) states.push('selected');
+    if (el.required || el.getAttribute('aria-required') === 'true') states.push('required');
+    if (el.readOnly || el.getAttribute('aria-readonly') === 'true') states.push('readonly');
+    if (el.getAttribute('aria-invalid') === 'true') states.push('invalid');
+    if (role === 'heading') {
+      const level = el.getAttribute('aria-level') || (/^H([1-6])$/.exec(el.tagName) || [])[1];
+      if (level) states.push('level=' + level);
+    }
+    return states;
+  };
+
+  const getValue = (el, role) => {
+    if (!VALUE_ROLES.has(role)) return '';
+    if (el.tagName === 'INPUT' && el.type === 'password') return el.value ? '[REDACTED]' : '';
+    if (el.tagName === 'SELECT') return clean(Array.from(el.selectedOptions).map((o) => o.text).join(', '), 60);
+    if (typeof el.value === 'string') return clean(el.value, 60);
+    if (el.isContentEditable) return clean(el.innerText, 60);
+    return clean(el.getAttribute('aria-valuetext') || el.getAttribute('aria-valuenow'), 60);
+  };
+
+  const doc = document;
+  let nextRef = Number(doc.documentElement.getAttribute('${REF_ATTRIBUTE}-next') || '1');
+  const lines = [];
+  const refs = [];
+  let truncated = false;
+
+  const getRef = (el) => {
+    let ref = el.getAttribute('${REF_ATTRIBUTE}');
+    if (!ref) {
+      ref = 'e' + nextRef++;
+      el.setAttribute('${REF_ATTRIBUTE}', ref);
+    }
+    return ref;
+  };
+
+  const push = (line) => {
+    if (lines.length >= options.maxNodes) {
+      truncated = true;
+      return false;
+    }
+    lines.push(line);
+    return true;
+  };
+
+  const walk = (el, depth, includeText) => {
+    if (truncated || SKIPPED_TAGS.has(el.tagName) || isHidden(el)) return;
+
+    const role = getRole(el);
+    let childDepth = depth;
+    if (INTERACTIVE_ROLES.has(role) || CONTAINER_ROLES.has(role)) {
+      const fullName = getName(el, role);
+      const name = clean(fullName, 80);
+      const shown = !(NAME_REQUIRED_ROLES.has(role) && !name) && (CONTAINER_ROLES.has(role) || hasBox(el));
+      if (shown) {
+        let line = '  '.repeat(depth) + '- ' + role + (name ? ' ' + JSON.stringify(name) : '');
+        if (INTERACTIVE_ROLES.has(role)) {
+          const ref = getRef(el);
+          line += ' [ref=' + ref + ']';
+          refs.push({ ref, role, name, fullName });
+        }
+        for (const state of getStates(el, role)) line += ' [' + state + ']';
+        const value = getValue(el, role);
+        if (value) line += ': ' + JSON.stringify(value);
+        if (!push(line)) return;
+
+        if (el.tagName === 'SELECT') {
+          for (const option of Array.from(el.options).slice(0, 25)) {
+            const selected = option.selected ? ' [selected]' : '';
+            if (!push('  '.repeat(depth + 1) + '- option ' + JSON.stringify(clean(option.text, 80)) + selected)) return;
+          }
+          return;
+        }
+        if (LEAF_ROLES.has(role)) return;
+        childDepth = depth + 1;
+      }
+    }
+
+    const children = el.shadowRoot ? [...el.shadowRoot.childNodes, ...el.childNodes] : el.childNodes;
+    for (const child of children) {
+      if (child.nodeType === 1) {
+        walk(child, childDepth, includeText);
+      } else if (includeText && child.nodeType === 3 && !el.closest('label, legend')) {
+        // Label text is already the name of the field it labels
+        const text = clean(child.textContent, 100);
+        if (text && !push('  '.repeat(childDepth) + '- text: ' + JSON.stringify(text))) return;
+      }
+    }
+  };
+
+  let root = doc.body;
+  let scope = 'page';
+  if (options.rootSelector) {
+    root = doc.querySelector(options.rootSelector);
+    if (!root) throw new Error('Element not found: ' + options.rootSelector);
+    scope = 'element';
+  } else if (options.scope !== 'page') {
+    const modals = Array.from(doc.querySelectorAll('[role="dialog"], [role="alertdialog"], dialog[open], [aria-modal="true"]'))
+      .filter((el) => !isHidden(el) && hasBox(el));
+    if (modals.length > 0) {
+      root = modals[modals.length - 1];
+      scope = 'modal';
+    } else if (options.scope === 'modal') {
+      throw new Error('No open modal on the page');
+    }
+  }
+
+  if (root) walk(root, 0, options.includeText === undefined ? scope === 'modal' : options.includeText);
+  doc.documentElement.setAttribute('${REF_ATTRIBUTE}-next', String(nextRef));
+  return { scope, title: doc.title, snapshot: lines.join('\n'), refs, truncated };
+}`;
+
+/**
+ * Takes accessibility-tree snapshots and resolves the element references they hand out.
+ */
+export class PageSnapshotter {
+  /** Elements referenced by the latest snapshot of each page or frame */
+  private readonly refs = new WeakMap<Page | Frame, Map<string, SnapshotElement>>();
+
+  /**
+   * Snapshot the page, the topmost modal or an element of a page or frame.
+   */
+  async snapshot(target: Page | Frame, options: PageSnapshotOptions): Promise<PageSnapshot> {
+    const snapshot = await target.evaluate<RawPageSnapshot>(`(${SNAPSHOT_SCRIPT})(${JSON.stringify(options)})`);
+
+    const known = this.refs.get(target) ?? new Map<string, SnapshotElement>();
+    for (const element of snapshot.refs) {
+      known.set(element.ref, element);
+    }
+    this.refs.set(target, known);
+
+    return { ...snapshot, refs: snapshot.refs.map(({ ref, role, name }) => ({ ref, role, name })) };
+  }
+
+  /**
+   * Get the selector of a referenced element.
+   */
+  getRefSelector(ref: string): string {
+    if (!REF_PATTERN.test(ref)) {
+      throw new Error(`Invalid element reference: ${ref} (expected e.g. e12 from snapshotPage)`);
+    }
+    return `[${REF_ATTRIBUTE}="${ref}"]`;
+  }
+
+  /**
+   * Get a selector for a referenced element that keeps working when the page is loaded again:
+   * a role selector with the exact accessible name (e.g. role=button[name="OK"s]), or the name,
+   * id or title attribute of an iframe. An element whose name is shared with other elements of
+   * its role gets the position among them (e.g. role=button[name="Edit"s] >> nth=2), and an
+   * element without a name gets a CSS path. Returns undefined when no selector matches only
+   * this element.
+   */
+  async getStableSelector(target: Page | Frame, ref: string): Promise<string | undefined> {
+    const element = this.refs.get(target)?.get(ref);
+    if (!element) {
+      throw new Error(`Element reference not found: ${ref}. Take a new snapshot with snapshotPage`);
+    }
+
+    const name = JSON.stringify(element.fullName);
+    const roleSelector = `role=${element.role}[name=${name}s]`;
+    const candidates = !element.fullName
+      ? []
+      : element.role === 'iframe'
+        ? [`iframe[name=${name}]`, `iframe[id=${name}]`, `iframe[title=${name}]`]
+        : [roleSelector];
+
+    for (const candidate of candidates) {
+      if (await this.selectsOnly(target, candidate, ref)) {
+        return candidate;
+      }
+    }
+
+    if (element.fullName && element.role !== 'iframe') {
+      const matchRefs = await target
+        .locator(roleSelector)
+        .evaluateAll<Array<string | null>>(`(els) => els.map((el) => el.getAttribute('${REF_ATTRIBUTE}'))`);
+      const candidate = `${roleSelector} >> nth=${matchRefs.indexOf(ref)}`;
+      if (matchRefs.includes(ref) && (await this.selectsOnly(target, candidate, ref))) {
+        return candidate;
+      }
+    }
+
+    const cssPath = await target.locator(this.getRefSelector(ref)).evaluate<string>(CSS_PATH_SCRIPT);
+    return (await this.selectsOnly(target, cssPath, ref)) ? cssPath : undefined;
+  }
+
+  /**
+   * Check that a selector matches exactly one element, the referenced one.
+   */
+  private async selectsOnly(target: Page | Frame, selector: string, ref: string): Promise<boolean> {
+    const locator = target.locator(selector);
+    return (await locator.count()) === 1 && (await locator.getAttribute(REF_ATTRIBUTE)) === ref;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Session reaper tests.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  SessionReaper,
+  type SessionActivity,
+  type SessionExpiryReason,
+  type SessionReaperConfig,
+} from './session-reaper.js';
+
+const MINUTE_MS = 60 * 1000;
+const NOW = Date.parse('2024-01-15T10:30:00.000Z');
+
+/**
+ * A session opened and last used the given number of minutes ago.
+ */
+function session(id: string, openedMinutesAgo: number, idleMinutes: number): SessionActivity {
+  return {
+    id,
+    createdAt: new Date(NOW - openedMinutesAgo * MINUTE_MS),
+    lastActivityAt: new Date(NOW - idleMinutes * MINUTE_MS),
+  };
+}
+
+describe('SessionReaper', () => {
+  let sessions: Map<string, SessionActivity>;
+  let closed: Array<[string, SessionExpiryReason]>;
+  let reaper: SessionReaper | null = null;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    sessions = new Map();
+    closed = [];
+  });
+
+  afterEach(() => {
+    reaper?.stop();
+    reaper = null;
+    vi.useRealTimers();
+  });
+
+  function createReaper(config: Partial<SessionReaperConfig> = {}): SessionReaper {
+    reaper = new SessionReaper({
+      idleTimeoutMs: 30 * MINUTE_MS,
+      maxAgeMs: 240 * MINUTE_MS,
+      intervalMs: MINUTE_MS,
+      getSessions: () => sessions.values(),
+      closeSession: (sessionId, reason) => {
+        closed.push([sessionId, reason]);
+        sessions.delete(sessionId);
+        return Promise.resolve();
+      },
+      ...config,
+    });
+    return reaper;
+  }
+
+  function add(...list: SessionActivity[]): void {
+    for (const item of list) {
+      sessions.set(item.id, item);
+    }
+  }
+
+  it('closes sessions once they have been idle for the timeout', async () => {
+    add(session('idle', 60, 28.5), session('active', 60, 0));
+    createReaper().start();
+
+    await vi.advanceTimersByTimeAsync(MINUTE_MS);
+    expect(closed).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(MINUTE_MS);
+    expect(closed).toEqual([['idle', 'idleTimeout']]);
+    expect([...sessions.keys()]).toEqual(['active']);
+  });
+
+  it('reports the maximum age when a session exceeded both limits', async () => {
+    add(session('old', 240, 45), session('busy', 240, 0));
+
+    expect(await createReaper().reap()).toEqual(['old', 'busy']);
+    expect(closed).toEqual([
+      ['old', 'maxAge'],
+      ['busy', 'maxAge'],
+    ]);
+  });
+
+  it('ignores a limit of 0', async () => {
+    add(session('old', 1000, 1000));
+    const idleOnly = createReaper({ maxAgeMs: 0 });
+
+    expect(idleOnly.getExpiry(session('old', 1000, 1000))).toEqual({
+      idleExpiresAt: new Date(NOW - 970 * MINUTE_MS),
+      maxAgeExpiresAt: undefined,
+    });
+    expect(await createReaper({ idleTimeoutMs: 0, maxAgeMs: 0 }).reap()).toEqual([]);
+    expect(await idleOnly.reap()).toEqual(['old']);
+    expect(closed).toEqual([['old', 'idleTimeout']]);
+  });
+
+  it('does not start a timer when both limits are disabled', () => {
+    createReaper({ idleTimeoutMs: 0, maxAgeMs: 0 }).start();
+
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('shares one run between concurrent calls', async () => {
+    add(session('idle', 60, 45));
+    let release = (): void => {};
+    const closeSession = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          release = resolve;
+        })
+    );
+    const shared = createReaper({ closeSession });
+
+    const first = shared.reap();
+    const second = shared.reap();
+    await vi.advanceTimersByTimeAsync(0);
+    release();
+
+    expect(await first).toEqual(['idle']);
+    expect(await second).toEqual(['idle']);
+    expect(closeSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a session that failed to close on the next check', async () => {
+    add(session('idle', 60, 45));
+    const closeSession = vi
+      .fn<[string, SessionExpiryReason], Promise<void>>()
+      .mockRejectedValueOnce(new Error('Browser context already closed'))
+      .mockResolvedValue(undefined);
+    createReaper({ closeSession }).start();
+
+    await vi.advanceTimersByTimeAsync(MINUTE_MS);
+    await vi.advanceTimersByTimeAsync(MINUTE_MS);
+
+    expect(closeSession.mock.calls).toEqual([
+      ['idle', 'idleTimeout'],
+      ['idle', 'idleTimeout'],
+    ]);
+  });
+});
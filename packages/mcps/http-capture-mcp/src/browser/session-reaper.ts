@@ -0,0 +1,127 @@
+/**
+ * Session lifecycle enforcement.
+ * Closes capture sessions that were abandoned (idle too long) or have reached their maximum age.
+ */
+
+/**
+ * Why a session was closed by the reaper.
+ */
+export type SessionExpiryReason = 'idleTimeout' | 'maxAge';
+
+/**
+ * Lifecycle timestamps of a session.
+ */
+export interface SessionActivity {
+  id: string;
+  createdAt: Date;
+  lastActivityAt: Date;
+}
+
+/**
+ * When a session will be closed, for each enabled limit.
+ */
+export interface SessionExpiry {
+  /** Time the session is closed if it stays idle */
+  idleExpiresAt?: Date;
+  /** Time the session is closed regardless of activity */
+  maxAgeExpiresAt?: Date;
+}
+
+/**
+ * Session reaper configuration. A limit of 0 disables it.
+ */
+export interface SessionReaperConfig {
+  /** Close sessions without activity for this long */
+  idleTimeoutMs: number;
+  /** Close sessions this long after they were opened, even when active */
+  maxAgeMs: number;
+  /** How often sessions are checked */
+  intervalMs: number;
+  /** Sessions to check */
+  getSessions: () => Iterable<SessionActivity>;
+  /** Close an expired session */
+  closeSession: (sessionId: string, reason: SessionExpiryReason) => Promise<void>;
+}
+
+/**
+ * Periodically closes sessions that exceeded the idle timeout or maximum age.
+ */
+export class SessionReaper {
+  private readonly config: SessionReaperConfig;
+  private timer: NodeJS.Timeout | null = null;
+  private reaping: Promise<string[]> | null = null;
+
+  constructor(config: SessionReaperConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Start checking sessions. Does nothing when both limits are disabled.
+   */
+  start(): void {
+    if (this.timer || (this.config.idleTimeoutMs <= 0 && this.config.maxAgeMs <= 0)) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.reap(), this.config.intervalMs);
+    // The check alone must not keep the process running
+    this.timer.unref();
+  }
+
+  /**
+   * Stop checking sessions.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Get when a session will be closed.
+   */
+  getExpiry(session: SessionActivity): SessionExpiry {
+    const { idleTimeoutMs, maxAgeMs } = this.config;
+    return {
+      idleExpiresAt: idleTimeoutMs > 0 ? new Date(session.lastActivityAt.getTime() + idleTimeoutMs) : undefined,
+      maxAgeExpiresAt: maxAgeMs > 0 ? new Date(session.createdAt.getTime() + maxAgeMs) : undefined,
+    };
+  }
+
+  /**
+   * Close every expired session. Returns the IDs of the closed sessions.
+   * Concurrent calls share one run.
+   */
+  async reap(): Promise<string[]> {
+    this.reaping ??= this.closeExpired().finally(() => {
+      this.reaping = null;
+    });
+    return this.reaping;
+  }
+
+  private async closeExpired(): Promise<string[]> {
+    const now = Date.now();
+    const expired: Array<{ id: string; reason: SessionExpiryReason }> = [];
+
+    for (const session of this.config.getSessions()) {
+      const { idleExpiresAt, maxAgeExpiresAt } = this.getExpiry(session);
+      if (maxAgeExpiresAt && maxAgeExpiresAt.getTime() <= now) {
+        expired.push({ id: session.id, reason: 'maxAge' });
+      } else if (idleExpiresAt && idleExpiresAt.getTime() <= now) {
+        expired.push({ id: session.id, reason: 'idleTimeout' });
+      }
+    }
+
+    const closed: string[] = [];
+    for (const { id, reason } of expired) {
+      try {
+        await this.config.closeSession(id, reason);
+        closed.push(id);
+      } catch {
+        // The session stays listed and is retried on the next check
+      }
+    }
+    return closed;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Attribution of captured requests to UI actions.
+ * Uses the action's time window and request initiators rather than before/after counts.
+ */
+
+import type { ActionWindow, CapturedRequest, TriggeredRequest } from '../types.js';
+
+/**
+ * Initiators of requests a page makes in response to user input.
+ * Static assets ('other') are loaded by the page, not by the action's logic.
+ */
+const ACTION_INITIATORS = new Set(['xhr', 'fetch', 'navigation']);
+
+/**
+ * Maximum number of property names listed in a response summary.
+ */
+const SUMMARY_KEY_LIMIT = 5;
+
+/**
+ * Finds and describes the requests a UI action triggered.
+ */
+export class ActionAttributor {
+  /**
+   * Get the requests that started during the action window, in timeline order.
+   */
+  attribute(requests: CapturedRequest[], window: ActionWindow, endedAt: number): TriggeredRequest[] {
+    return requests
+      .filter((request) => this.isTriggeredBy(request, window, endedAt))
+      .map((request) => this.toTriggeredRequest(request));
+  }
+
+  private isTriggeredBy(request: CapturedRequest, window: ActionWindow, endedAt: number): boolean {
+    if (request.sequence <= window.startSequence) {
+      return false;
+    }
+
+    const startedAt = Date.parse(request.timestamp);
+    if (Number.isNaN(startedAt) || startedAt < window.startedAt || startedAt > endedAt) {
+      return false;
+    }
+
+    if (!request.initiator) {
+      return true;
+    }
+
+    // Requests without a frame come from service workers or prefetching, not from the page
+    return ACTION_INITIATORS.has(request.initiator.type) && request.initiator.frameUrl !== undefined;
+  }
+
+  private toTriggeredRequest(request: CapturedRequest): TriggeredRequest {
+    const target = this.getTarget(request.url);
+    const state = request.state ?? (request.response ? 'completed' : 'pending');
+    let outcome: string;
+    if (request.response) {
+      outcome = String(request.response.status);
+    } else if (state === 'failed') {
+      outcome = `failed (${request.failure?.errorText ?? 'Unknown error'})`;
+    } else {
+      outcome = 'pending';
+    }
+
+    return {
+      requestId: request.id,
+      sequence: request.sequence,
+      method: request.method,
+      url: request.url,
+      target,
+      initiator: request.initiator?.type ?? 'other',
+      state,
+      status: request.response?.status,
+      durationMs: request.response?.responseTimeMs,
+      responseSummary: this.summarizeResponse(request),
+      summary: `${request.method} ${target} → ${outcome}`,
+    };
+  }
+
+  /**
+   * Path after the OData service root (Service.svc/), or the URL path for other calls.
+   */
+  private getTarget(url: string): string {
+    let path: string;
+    try {
+      path = this.safeDecode(new URL(url).pathname);
+    } catch {
+      return url;
+    }
+
+    const serviceIndex = path.indexOf('.svc/');
+    return serviceIndex >= 0 ? path.slice(serviceIndex + '.svc/'.length) : path;
+  }
+
+  /**
+   * Describe a response body without repeating it.
+   */
+  private summarizeResponse(request: CapturedRequest): string | undefined {
+    const response = request.response;
+    if (!response) {
+      return undefined;
+    }
+
+    if (!response.body) {
+      return response.status === 204 ? 'No content' : undefined;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(response.body) as unknown;
+    } catch {
+      return `${response.contentType || 'Unknown content type'}, ${Buffer.byteLength(response.body)} bytes`;
+    }
+
+    if (Array.isArray(data)) {
+      return `${data.length} items`;
+    }
+
+    if (typeof data !== 'object' || data === null) {
+      return `Value ${JSON.stringify(data)}`;
+    }
+
+    const record = data as Record<string, unknown>;
+    const error = record['error'] as { message?: unknown } | undefined;
+    if (error && typeof error.message === 'string') {
+      return `Error: ${error.message}`;
+    }
+
+    if (Array.isArray(record['value'])) {
+      return `${record['value'].length} items`;
+    }
+
+    // OData annotations (@odata.context, @odata.etag) say nothing about the content
+    const keys = Object.keys(record).filter((key) => !key.startsWith('@'));
+    if (keys.length === 0) {
+      return 'Empty object';
+    }
+
+    const listed = keys.slice(0, SUMMARY_KEY_LIMIT).join(', ');
+    const more = keys.length > SUMMARY_KEY_LIMIT ? ` and ${keys.length - SUMMARY_KEY_LIMIT} more` : '';
+    return `Object with ${listed}${more}`;
+  }
+
+  private safeDecode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+}
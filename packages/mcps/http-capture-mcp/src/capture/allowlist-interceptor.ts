@@ -0,0 +1,146 @@
+/**
+ * Domain allowlist enforcement for browser traffic.
+ * Checks every request of a context (navigations, redirects, XHR, assets), not just the start URL.
+ */
+
+import type { DomainAllowlist } from '@ifs/security';
+import type { APIResponse, BrowserContext, Request, Route } from 'playwright';
+import type { AllowlistMode, AllowlistViolation } from '../types.js';
+
+/**
+ * Allowlist interceptor configuration.
+ */
+export interface AllowlistInterceptorConfig {
+  /** Allowed domain patterns */
+  allowlist: DomainAllowlist;
+  /** How requests to other hosts are handled */
+  mode: AllowlistMode;
+  /** Called once per request that violates the allowlist (for audit logging) */
+  onViolation?: (url: string, violation: AllowlistViolation) => void;
+}
+
+/**
+ * Routes the traffic of a browser context through the domain allowlist.
+ */
+export class AllowlistInterceptor {
+  private readonly config: AllowlistInterceptorConfig;
+  private readonly violations = new WeakMap<Request, AllowlistViolation>();
+
+  constructor(config: AllowlistInterceptorConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Start intercepting the requests of a context. Nothing is intercepted in allow mode.
+   */
+  async attach(context: BrowserContext): Promise<void> {
+    if (this.config.mode === 'allow') {
+      return;
+    }
+    await context.route(() => true, this.handleRoute);
+  }
+
+  /**
+   * Get the violation of a request, checking it on first use.
+   * Redirect hops never reach the route handler, so they can only be flagged.
+   */
+  inspect(request: Request): AllowlistViolation | undefined {
+    const known = this.violations.get(request);
+    if (known || this.config.mode === 'allow') {
+      return known;
+    }
+
+    const violation = this.check(request.url());
+    if (!violation) {
+      return undefined;
+    }
+
+    const action = this.config.mode === 'block' && !request.redirectedFrom() ? 'blocked' : 'flagged';
+    return this.record(request, request.url(), { ...violation, action });
+  }
+
+  /**
+   * Check a URL against the allowlist. Returns the violation it would cause, if any.
+   */
+  check(url: string): AllowlistViolation | undefined {
+    if (this.config.mode === 'allow' || !/^https?:/i.test(url)) {
+      return undefined;
+    }
+
+    const validation = this.config.allowlist.validate(url);
+    if (validation.allowed) {
+      return undefined;
+    }
+
+    let hostname = '';
+    try {
+      hostname = new URL(url).hostname;
+    } catch {
+      // Reported by the validation reason
+    }
+
+    return {
+      action: this.config.mode === 'block' ? 'blocked' : 'flagged',
+      hostname,
+      reason: validation.reason ?? 'Not in the allowlist',
+    };
+  }
+
+  private handleRoute = async (route: Route): Promise<void> => {
+    const request = route.request();
+    const violation = this.inspect(request);
+
+    if (violation?.action === 'blocked') {
+      await route.abort('blockedbyclient');
+      return;
+    }
+
+    if (this.config.mode === 'block' && request.isNavigationRequest()) {
+      await this.handleNavigation(route, request);
+      return;
+    }
+
+    await route.fallback();
+  };
+
+  /**
+   * Block mode: fetch navigations without following redirects, so a redirect to a
+   * disallowed host is stopped before the browser follows it.
+   */
+  private async handleNavigation(route: Route, request: Request): Promise<void> {
+    let response: APIResponse;
+    try {
+      response = await route.fetch({ maxRedirects: 0 });
+    } catch {
+      await route.abort('failed');
+      return;
+    }
+
+    const location = response.headers()['location'];
+    if (response.status() >= 300 && response.status() < 400 && location) {
+      let target = location;
+      try {
+        target = new URL(location, request.url()).href;
+      } catch {
+        // Malformed locations are checked as given
+      }
+      const violation = this.check(target);
+      if (violation) {
+        this.record(request, target, {
+          ...violation,
+          reason: `Redirect to ${target} blocked: ${violation.reason}`,
+        });
+        await route.abort('blockedbyclient');
+        return;
+      }
+    }
+
+    await route.fulfill({ response });
+  }
+
+  private record(request: Request, url: string, violation: AllowlistViolation): AllowlistViolation {
+    this.violations.set(request, violation);
+    this.config.onViolation?.(url, violation);
+    return violation;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Domain allowlist settings loading.
+ * Reads the domainAllowlist section of config/security.json.
+ */
+
+import { getConfigSection, type SecurityConfigFile } from '../security-config.js';
+import type { AllowlistMode, AllowlistSettings } from '../types.js';
+
+/**
+ * Settings used when the security config has no domainAllowlist section (allowlist disabled).
+ */
+export const DEFAULT_ALLOWLIST_SETTINGS: AllowlistSettings = {
+  mode: 'allow',
+  domains: ['*'],
+  strictMode: false,
+};
+
+/**
+ * Get allowlist settings from the security config.
+ * The mode follows the config flags: disabled allows everything, blockOnMismatch blocks,
+ * otherwise requests are flagged.
+ */
+export function getAllowlistSettings(config: SecurityConfigFile): AllowlistSettings {
+  const section = getConfigSection(config, 'domainAllowlist');
+  if (section['enabled'] !== true) {
+    return DEFAULT_ALLOWLIST_SETTINGS;
+  }
+
+  const mode: AllowlistMode = section['blockOnMismatch'] === true ? 'block' : 'flag';
+  const domains = section['domains'];
+
+  return {
+    mode,
+    domains: Array.isArray(domains) ? domains.filter((domain): domain is string => typeof domain === 'string') : [],
+    strictMode: section['strictMode'] === true,
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Binary payload handling for file uploads and downloads.
+ * Detects binary bodies, splits multipart form uploads and describes files by size, hash, name and type.
+ */
+
+import { createHash } from 'node:crypto';
+import type { BinaryPayload } from '../types.js';
+
+/**
+ * Part of a multipart/form-data body.
+ */
+export interface MultipartFormPart {
+  /** Form field name */
+  name: string;
+  /** File name, for file parts */
+  filename?: string;
+  /** Content type of the part */
+  contentType?: string;
+  /** Raw part headers */
+  headers: string;
+  data: Buffer;
+}
+
+/**
+ * Parsed multipart/form-data body.
+ */
+export interface MultipartForm {
+  boundary: string;
+  parts: MultipartFormPart[];
+}
+
+/**
+ * Content types captured as text. multipart/mixed covers OData $batch calls.
+ */
+const TEXT_CONTENT_TYPE_PATTERN =
+  /^(?:text\/|application\/(?:json|xml|javascript|http|x-www-form-urlencoded|[\w.-]+\+(?:json|xml))$|multipart\/mixed$)/i;
+
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Check whether a content type carries binary content. Empty types and multipart forms are not binary themselves.
+ */
+export function isBinaryContentType(contentType: string | undefined): boolean {
+  const mimeType = getMimeType(contentType);
+  if (!contentType?.trim() || /^multipart\/form-data$/i.test(mimeType)) {
+    return false;
+  }
+  return !TEXT_CONTENT_TYPE_PATTERN.test(mimeType);
+}
+
+/**
+ * Get the MIME type of a Content-Type header value, without parameters.
+ */
+export function getMimeType(contentType: string | undefined): string {
+  return contentType?.split(';')[0]?.trim().toLowerCase() || DEFAULT_MIME_TYPE;
+}
+
+/**
+ * Get the file name of a Content-Disposition header value (filename* takes precedence).
+ */
+export function getDispositionFilename(disposition: string | undefined): string | undefined {
+  if (!disposition) {
+    return undefined;
+  }
+
+  const extended = /filename\*\s*=\s*[\w-]*'[^']*'([^;]+)/i.exec(disposition);
+  if (extended?.[1]) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      // Fall back to the plain file name
+    }
+  }
+
+  const plain = /filename\s*=\s*(?:"([^"]*)"|([^;]+))/i.exec(disposition);
+  return plain?.[1] ?? plain?.[2]?.trim();
+}
+
+/**
+ * Describe binary content by size, hash, MIME type and file name.
+ */
+export function describeBinary(
+  data: Buffer,
+  contentType: string | undefined,
+  filename?: string,
+  fieldName?: string
+): BinaryPayload {
+  return {
+    mimeType: getMimeType(contentType),
+    filename,
+    fieldName,
+    size: data.length,
+    sha256: createHash('sha256').update(data).digest('hex'),
+  };
+}
+
+/**
+ * Split a multipart/form-data body into its parts. Returns null when the body is not a valid form.
+ */
+export function parseMultipartForm(data: Buffer, contentType: string): MultipartForm | null {
+  const match = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  const boundary = match?.[1] ?? match?.[2];
+  if (!boundary) {
+    return null;
+  }
+
+  const delimiter = Buffer.from(`--${boundary}`);
+  const parts: MultipartFormPart[] = [];
+  let start = data.indexOf(delimiter);
+  if (start === -1) {
+    return null;
+  }
+
+  for (;;) {
+    let cursor = start + delimiter.length;
+    if (data.toString('latin1', cursor, cursor + 2) === '--') {
+      return { boundary, parts };
+    }
+    if (data.toString('latin1', cursor, cursor + 2) === '\r\n') {
+      cursor += 2;
+    }
+
+    const next = data.indexOf(delimiter, cursor);
+    if (next === -1) {
+      return null;
+    }
+
+    // The line break before the next delimiter belongs to the delimiter
+    const end = data.toString('latin1', next - 2, next) === '\r\n' ? next - 2 : next;
+    const part = data.subarray(cursor, end);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    const headers = part.toString('utf-8', 0, headerEnd === -1 ? part.length : headerEnd);
+    const disposition = /^content-disposition:(.*)$/im.exec(headers)?.[1] ?? '';
+
+    parts.push({
+      name: /\bname\s*=\s*"([^"]*)"/i.exec(disposition)?.[1] ?? '',
+      filename: getDispositionFilename(disposition),
+      contentType: /^content-type:(.*)$/im.exec(headers)?.[1]?.trim(),
+      headers,
+      data: headerEnd === -1 ? Buffer.alloc(0) : part.subarray(headerEnd + 4),
+    });
+    start = next;
+  }
+}
+
+/**
+ * Render a multipart form as text with the content of file parts replaced by a placeholder.
+ */
+export function formatMultipartForm(form: MultipartForm): string {
+  const lines: string[] = [];
+  for (const part of form.parts) {
+    const content = part.filename !== undefined
+      ? `[file: ${part.filename}, ${part.data.length} bytes]`
+      : part.data.toString('utf-8');
+    lines.push(`--${form.boundary}`, part.headers, '', content);
+  }
+  lines.push(`--${form.boundary}--`);
+  return lines.join('\r\n');
+}
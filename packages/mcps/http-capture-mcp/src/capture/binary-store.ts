@@ -0,0 +1,83 @@
+/**
+ * Session-scoped storage of binary payloads.
+ * Keeps copies of uploaded and downloaded files in a temp directory that is removed with the session.
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { extname, join } from 'node:path';
+import type { BinaryPayload } from '../types.js';
+
+/**
+ * Binary store configuration.
+ */
+export interface BinaryStoreConfig {
+  /** Most bytes stored per session; later payloads are captured as metadata only */
+  maxBytes: number;
+}
+
+/**
+ * Writes binary payloads to a temp directory, one file per distinct content (named by its SHA-256).
+ */
+export class BinaryStore {
+  private readonly config: BinaryStoreConfig;
+  private directory: Promise<string> | null = null;
+  private readonly storedNames = new Set<string>();
+  private storedBytes = 0;
+
+  constructor(config: BinaryStoreConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Store a payload. Returns the path of the copy, or undefined when the size limit is reached.
+   */
+  async save(data: Buffer, payload: BinaryPayload): Promise<string | undefined> {
+    if (!payload.sha256) {
+      return undefined;
+    }
+
+    // Only plain extensions are kept from file names chosen by the page
+    const extension = extname(payload.filename ?? '');
+    const name = `${payload.sha256}${/^\.[\w-]{1,16}$/.test(extension) ? extension.toLowerCase() : ''}`;
+    const path = join(await this.getDirectory(), name);
+
+    if (this.storedNames.has(name)) {
+      return path;
+    }
+    if (this.storedBytes + data.length > this.config.maxBytes) {
+      return undefined;
+    }
+
+    this.storedNames.add(name);
+    this.storedBytes += data.length;
+    await writeFile(path, data, { mode: 0o600 });
+    return path;
+  }
+
+  /**
+   * Get the number of bytes stored so far.
+   */
+  getStoredBytes(): number {
+    return this.storedBytes;
+  }
+
+  /**
+   * Remove the temp directory and everything stored in it.
+   */
+  async dispose(): Promise<void> {
+    const directory = this.directory;
+    this.directory = null;
+    this.storedNames.clear();
+    this.storedBytes = 0;
+
+    if (directory) {
+      await rm(await directory, { recursive: true, force: true });
+    }
+  }
+
+  private getDirectory(): Promise<string> {
+    this.directory ??= mkdtemp(join(tmpdir(), 'http-capture-files-'));
+    return this.directory;
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Capture filtering.
+ * Decides which requests a session records, so static assets and telemetry do not drown the API calls.
+ */
+
+import type { CaptureFilterRule, CaptureProfile } from '../types.js';
+
+/**
+ * Request data a filter decision is based on.
+ */
+export interface CaptureFilterInput {
+  url: string;
+  /** Playwright resource type */
+  resourceType: string;
+  /** Response content type (undefined while the response has not arrived) */
+  contentType?: string;
+}
+
+/**
+ * keep / drop, or undecided when the decision depends on a content type that is not known yet.
+ */
+export type CaptureFilterDecision = 'keep' | 'drop' | 'undecided';
+
+/**
+ * Resource types of static page assets.
+ */
+const STATIC_RESOURCE_TYPES = ['stylesheet', 'image', 'media', 'font', 'script', 'texttrack', 'manifest'];
+
+/**
+ * Analytics, monitoring and advertising hosts.
+ */
+const TELEMETRY_HOSTS = [
+  '*.google-analytics.com',
+  '*.googletagmanager.com',
+  '*.doubleclick.net',
+  '*.applicationinsights.azure.com',
+  'dc.services.visualstudio.com',
+  '*.newrelic.com',
+  '*.nr-data.net',
+  '*.sentry.io',
+  '*.hotjar.com',
+  '*.segment.io',
+  '*.mixpanel.com',
+  '*.clarity.ms',
+  '*.pendo.io',
+];
+
+/**
+ * Profiles available by name in openUrl and setCaptureFilter.
+ */
+export const BUILT_IN_CAPTURE_PROFILES: Record<string, CaptureProfile> = {
+  all: {
+    name: 'all',
+    description: 'Every HTTP request',
+  },
+  'no-static-assets': {
+    name: 'no-static-assets',
+    description: 'Everything except scripts, stylesheets, images, fonts, media and telemetry calls',
+    exclude: [{ resourceTypes: STATIC_RESOURCE_TYPES }, { hosts: TELEMETRY_HOSTS }],
+  },
+  'erp-api-only': {
+    name: 'erp-api-only',
+    description: 'Only OData service calls (*.svc/*) and $batch requests',
+    include: [{ urlGlobs: ['**/*.svc', '**/*.svc/**', '**/$batch', '**/%24batch'] }],
+  },
+};
+
+/**
+ * Get a built-in profile by name.
+ */
+export function getCaptureProfile(name: string): CaptureProfile {
+  const profile = BUILT_IN_CAPTURE_PROFILES[name];
+  if (!profile) {
+    throw new Error(
+      `Unknown capture profile: ${name} (available: ${Object.keys(BUILT_IN_CAPTURE_PROFILES).join(', ')})`
+    );
+  }
+  return profile;
+}
+
+/**
+ * Parse a JSON array of filter rules (from a tool argument).
+ */
+export function parseCaptureRules(json: string, argument: string): CaptureFilterRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json) as unknown;
+  } catch {
+    throw new Error(`${argument} is not valid JSON`);
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${argument} must be a JSON array of rules`);
+  }
+
+  const keys: Array<keyof CaptureFilterRule> = ['resourceTypes', 'urlGlobs', 'hosts', 'contentTypes'];
+  return parsed.map((item, index) => {
+    if (typeof item !== 'object' || item === null) {
+      throw new Error(`${argument}[${index}] must be an object`);
+    }
+
+    const rule: CaptureFilterRule = {};
+    for (const [key, value] of Object.entries(item as Record<string, unknown>)) {
+      if (!keys.includes(key as keyof CaptureFilterRule)) {
+        throw new Error(`${argument}[${index}] has unknown criterion '${key}' (use ${keys.join(', ')})`);
+      }
+      if (!Array.isArray(value) || !value.every((v): v is string => typeof v === 'string')) {
+        throw new Error(`${argument}[${index}].${key} must be an array of strings`);
+      }
+      rule[key as keyof CaptureFilterRule] = value;
+    }
+    return rule;
+  });
+}
+
+/**
+ * Rule with its URL globs compiled.
+ */
+interface CompiledRule {
+  rule: CaptureFilterRule;
+  urlPatterns: RegExp[];
+}
+
+/**
+ * Applies a capture profile to requests.
+ */
+export class CaptureFilter {
+  private readonly profile: CaptureProfile;
+  private readonly include: CompiledRule[];
+  private readonly exclude: CompiledRule[];
+
+  constructor(profile: CaptureProfile) {
+    this.profile = profile;
+    this.include = (profile.include ?? []).map((rule) => this.compile(rule));
+    this.exclude = (profile.exclude ?? []).map((rule) => this.compile(rule));
+  }
+
+  /**
+   * Get the applied profile.
+   */
+  getProfile(): CaptureProfile {
+    return this.profile;
+  }
+
+  /**
+   * Decide whether a request is kept.
+   */
+  evaluate(input: CaptureFilterInput): CaptureFilterDecision {
+    const excluded = this.matchAny(this.exclude, input);
+    if (excluded === true) {
+      return 'drop';
+    }
+
+    const included = this.include.length === 0 ? true : this.matchAny(this.include, input);
+    if (included === false) {
+      return 'drop';
+    }
+
+    return excluded === undefined || included === undefined ? 'undecided' : 'keep';
+  }
+
+  /**
+   * true when a rule matches, false when none can, undefined when it depends on the content type.
+   */
+  private matchAny(rules: CompiledRule[], input: CaptureFilterInput): boolean | undefined {
+    let result: boolean | undefined = false;
+    for (const rule of rules) {
+      const matches = this.match(rule, input);
+      if (matches === true) {
+        return true;
+      }
+      if (matches === undefined) {
+        result = undefined;
+      }
+    }
+    return result;
+  }
+
+  private match(compiled: CompiledRule, input: CaptureFilterInput): boolean | undefined {
+    const { rule, urlPatterns } = compiled;
+
+    if (rule.resourceTypes && !rule.resourceTypes.includes(input.resourceType)) {
+      return false;
+    }
+
+    if (urlPatterns.length > 0) {
+      const url = input.url.replace(/[?#].*$/, '');
+      if (!urlPatterns.some((pattern) => pattern.test(url))) {
+        return false;
+      }
+    }
+
+    if (rule.hosts && !rule.hosts.some((host) => this.matchHost(host, input.url))) {
+      return false;
+    }
+
+    if (rule.contentTypes) {
+      if (input.contentType === undefined) {
+        return undefined;
+      }
+      const contentType = input.contentType.toLowerCase();
+      return rule.contentTypes.some((type) => contentType.includes(type.toLowerCase()));
+    }
+
+    return true;
+  }
+
+  /**
+   * Match a host pattern; *.example.com matches example.com and any subdomain.
+   */
+  private matchHost(pattern: string, url: string): boolean {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      return false;
+    }
+
+    const host = pattern.toLowerCase();
+    if (host.startsWith('*.')) {
+      return hostname === host.slice(2) || hostname.endsWith(host.slice(1));
+    }
+    return hostname === host;
+  }
+
+  private compile(rule: CaptureFilterRule): CompiledRule {
+    return {
+      rule,
+      urlPatterns: (rule.urlGlobs ?? []).map((glob) => this.globToRegex(glob)),
+    };
+  }
+
+  /**
+   * Convert a URL glob to a regex: ** matches anything, * anything but /, ? one character.
+   */
+  private globToRegex(glob: string): RegExp {
+    let pattern = '';
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob.charAt(i);
+      if (char === '*' && glob.charAt(i + 1) === '*') {
+        pattern += '.*';
+        i++;
+      } else if (char === '*') {
+        pattern += '[^/]*';
+      } else if (char === '?') {
+        pattern += '[^/]';
+      } else {
+        pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${pattern}$`, 'i');
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Browser console and page error collection.
+ * Records console messages and uncaught errors of every page in a context, redacted before they are kept.
+ */
+
+import type { BrowserContext, ConsoleMessage, WebError } from 'playwright';
+import type { ConsoleEntry, RequestCaptureConfig } from '../types.js';
+
+/**
+ * Console collector configuration.
+ */
+export interface ConsoleCollectorConfig extends Pick<RequestCaptureConfig, 'bodyRedactor'> {
+  /** Most entries kept; the oldest are dropped first */
+  maxEntries: number;
+}
+
+/**
+ * Collects console output and page errors from a browser context.
+ */
+export class ConsoleCollector {
+  private readonly context: BrowserContext;
+  private readonly config: ConsoleCollectorConfig;
+  private readonly entries: ConsoleEntry[] = [];
+  private nextSequence = 1;
+  private droppedCount = 0;
+  private isCollecting = false;
+
+  constructor(context: BrowserContext, config: ConsoleCollectorConfig) {
+    this.context = context;
+    this.config = config;
+  }
+
+  /**
+   * Start collecting from all current and future pages of the context.
+   */
+  start(): void {
+    if (this.isCollecting) {
+      return;
+    }
+
+    this.context.on('console', this.handleConsole);
+    this.context.on('weberror', this.handleWebError);
+    this.isCollecting = true;
+  }
+
+  /**
+   * Stop collecting. Entries collected so far are kept.
+   */
+  stop(): void {
+    if (!this.isCollecting) {
+      return;
+    }
+
+    this.context.off('console', this.handleConsole);
+    this.context.off('weberror', this.handleWebError);
+    this.isCollecting = false;
+  }
+
+  /**
+   * Get the collected entries in the order they occurred.
+   */
+  getEntries(): ConsoleEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Get the number of entries dropped because the limit was reached.
+   */
+  getDroppedCount(): number {
+    return this.droppedCount;
+  }
+
+  private handleConsole = (message: ConsoleMessage): void => {
+    const { url, lineNumber, columnNumber } = message.location();
+    this.add({
+      type: message.type(),
+      text: message.text(),
+      location: url ? `${url}:${lineNumber}:${columnNumber}` : undefined,
+      pageUrl: message.page()?.url(),
+    });
+  };
+
+  private handleWebError = (webError: WebError): void => {
+    const error = webError.error();
+    this.add({
+      type: 'pageError',
+      text: error.message,
+      stack: error.stack,
+      pageUrl: webError.page()?.url(),
+    });
+  };
+
+  private add(entry: Omit<ConsoleEntry, 'sequence' | 'timestamp'>): void {
+    this.entries.push({
+      sequence: this.nextSequence++,
+      timestamp: new Date().toISOString(),
+      ...entry,
+      text: this.config.bodyRedactor.redact(entry.text).value,
+      stack: entry.stack !== undefined ? this.config.bodyRedactor.redact(entry.stack).value : undefined,
+    });
+
+    if (this.entries.length > this.config.maxEntries) {
+      this.entries.shift();
+      this.droppedCount++;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Fault injector tests.
+ */
+
+import type { BrowserContext, Request, Route } from 'playwright';
+import { describe, expect, it, vi } from 'vitest';
+import { ODataParser } from '../odata/odata-parser.js';
+import { FaultInjector } from './fault-injector.js';
+
+const SERVICE_URL =
+  'https://erp.example.com/main/ifsapplications/projection/v1/FlmTaskDetailHandling.svc';
+
+type RouteHandler = (route: Route) => Promise<void>;
+
+/**
+ * Browser context that records the route handler the injector installs.
+ */
+function createContext() {
+  let handler: RouteHandler | undefined;
+  const route = vi.fn((_url: unknown, routeHandler: RouteHandler) => {
+    handler = routeHandler;
+    return Promise.resolve();
+  });
+  const unroute = vi.fn(() => Promise.resolve());
+
+  // Resolve with the Route call that settled the request
+  const handle = async (request: Request): Promise<Record<string, unknown>> => {
+    const calls: Record<string, unknown> = {};
+    const record = (name: string) => (options?: unknown) => {
+      calls[name] = options ?? true;
+      return Promise.resolve();
+    };
+    await handler?.({
+      request: () => request,
+      fallback: record('fallback'),
+      abort: record('abort'),
+      fulfill: record('fulfill'),
+    } as unknown as Route);
+    return calls;
+  };
+
+  return { context: { route, unroute } as unknown as BrowserContext, route, unroute, handle };
+}
+
+function request(method: string, url: string, redirectedFrom: Request | null = null): Request {
+  return {
+    method: () => method,
+    url: () => url,
+    redirectedFrom: () => redirectedFrom,
+  } as unknown as Request;
+}
+
+function createInjector(blockedHost?: string): {
+  injector: FaultInjector;
+} & ReturnType<typeof createContext> {
+  const browser = createContext();
+  const injector = new FaultInjector(browser.context, {
+    odataParser: new ODataParser(),
+    allowlist: {
+      inspect: (r) =>
+        blockedHost && new URL(r.url()).hostname === blockedHost
+          ? { action: 'blocked', hostname: blockedHost, reason: 'Host is not allowlisted' }
+          : undefined,
+    },
+  });
+  return { injector, ...browser };
+}
+
+describe('FaultInjector', () => {
+  it('rejects rules without criteria and faults without their settings', async () => {
+    const { injector, route } = createInjector();
+    const match = { entitySet: 'AvExeTaskSet' };
+
+    await expect(injector.addRule({}, { type: 'delay', delayMs: 100 })).rejects.toThrow(
+      'Provide at least one of method, urlPattern, entitySet or operation'
+    );
+    await expect(injector.addRule(match, { type: 'delay', delayMs: 100 }, 0)).rejects.toThrow(
+      'times must be a positive integer'
+    );
+    await expect(injector.addRule(match, { type: 'delay' })).rejects.toThrow(
+      'delay faults need a delayMs greater than zero'
+    );
+    await expect(injector.addRule(match, { type: 'respond', status: 700 })).rejects.toThrow(
+      'respond faults need a status between 100 and 599'
+    );
+    await expect(injector.addRule(match, { type: 'abort', errorCode: 'eof' })).rejects.toThrow(
+      'Unknown errorCode: eof'
+    );
+    await expect(injector.addRule(match, { type: 'throttle' })).rejects.toThrow(
+      'throttle faults need a bytesPerSecond greater than zero'
+    );
+    expect(injector.getRules()).toEqual([]);
+    expect(route).not.toHaveBeenCalled();
+  });
+
+  it('keeps only the settings a fault type uses', async () => {
+    const { injector } = createInjector();
+
+    const rule = await injector.addRule(
+      { method: 'GET' },
+      { type: 'abort', status: 500, bytesPerSecond: 10 }
+    );
+
+    expect(rule).toEqual({
+      id: 'fault-1',
+      match: { method: 'GET' },
+      fault: { type: 'abort', delayMs: undefined, errorCode: 'failed' },
+      times: undefined,
+      hitCount: 0,
+    });
+  });
+
+  it('applies the first matching rule until its count is used up', async () => {
+    const { injector } = createInjector();
+    await injector.addRule({ entitySet: 'AvExeTaskSet' }, { type: 'respond', status: 503 }, 1);
+    await injector.addRule({ urlPattern: 'FlmTaskDetailHandling' }, { type: 'delay', delayMs: 50 });
+
+    const first = request('GET', `${SERVICE_URL}/AvExeTaskSet`);
+    const second = request('GET', `${SERVICE_URL}/AvExeTaskSet`);
+
+    expect(injector.inspect(first)).toMatchObject({
+      ruleId: 'fault-1',
+      type: 'respond',
+      status: 503,
+    });
+    expect(injector.inspect(first)).toMatchObject({ ruleId: 'fault-1' });
+    expect(injector.inspect(second)).toMatchObject({
+      ruleId: 'fault-2',
+      type: 'delay',
+      delayMs: 50,
+    });
+    expect(injector.inspect(request('GET', 'https://erp.example.com/main/'))).toBeUndefined();
+    expect(injector.getRules().map((rule) => rule.hitCount)).toEqual([1, 1]);
+  });
+
+  it('leaves redirect hops, non-HTTP and allowlist-blocked requests alone', async () => {
+    const { injector } = createInjector('tracker.example.com');
+    await injector.addRule({ method: 'GET' }, { type: 'abort' });
+
+    const original = request('GET', 'https://erp.example.com/main/');
+
+    expect(
+      injector.inspect(request('GET', 'https://erp.example.com/login', original))
+    ).toBeUndefined();
+    expect(injector.inspect(request('GET', 'data:text/plain,hello'))).toBeUndefined();
+    expect(injector.inspect(request('GET', 'https://tracker.example.com/pixel'))).toBeUndefined();
+    expect(injector.inspect(original)).toMatchObject({ type: 'abort', errorCode: 'failed' });
+  });
+
+  it('carries out the decided fault in the route handler', async () => {
+    const { injector, handle } = createInjector();
+    await injector.addRule(
+      { entitySet: 'AvExeTaskSet' },
+      { type: 'respond', status: 503, body: '{"error":{}}', contentType: 'application/json' }
+    );
+    await injector.addRule({ method: 'POST' }, { type: 'abort', errorCode: 'timedout' });
+
+    expect(await handle(request('GET', `${SERVICE_URL}/AvExeTaskSet`))).toEqual({
+      fulfill: { status: 503, body: '{"error":{}}', contentType: 'application/json' },
+    });
+    expect(await handle(request('POST', `${SERVICE_URL}/JtTaskSet`))).toEqual({
+      abort: 'timedout',
+    });
+    expect(await handle(request('GET', `${SERVICE_URL}/JtTaskSet`))).toEqual({ fallback: true });
+  });
+
+  it('removes one rule or all rules and stops intercepting without rules', async () => {
+    const { injector, route, unroute } = createInjector();
+    await injector.addRule({ method: 'GET' }, { type: 'abort' });
+    await injector.addRule({ method: 'POST' }, { type: 'abort' });
+
+    await expect(injector.removeRules('fault-9')).rejects.toThrow('Fault rule not found: fault-9');
+    expect(await injector.removeRules('fault-1')).toBe(1);
+    expect(injector.getRules().map((rule) => rule.id)).toEqual(['fault-2']);
+    expect(unroute).not.toHaveBeenCalled();
+
+    expect(await injector.removeRules()).toBe(1);
+    expect(injector.getRules()).toEqual([]);
+    expect(route).toHaveBeenCalledTimes(1);
+    expect(unroute).toHaveBeenCalledTimes(1);
+
+    await injector.addRule({ method: 'GET' }, { type: 'abort' });
+    expect(injector.getRules()[0]?.id).toBe('fault-3');
+    expect(route).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Fault injection for browser traffic.
+ * Delays, replaces, aborts or throttles requests matched by URL or OData target, and marks them for the capture.
+ */
+
+import type { APIResponse, BrowserContext, Request, Route } from 'playwright';
+import type { ODataParser } from '../odata/odata-parser.js';
+import type { AllowlistViolation, FaultRule, FaultSpec, InjectedFault } from '../types.js';
+import { RequestMatcher } from './request-matcher.js';
+
+/**
+ * Fault injector configuration.
+ */
+export interface FaultInjectorConfig {
+  /** Parser for entitySet and operation criteria */
+  odataParser: ODataParser;
+  /** Allowlist check; requests it blocks are left to the allowlist */
+  allowlist?: {
+    inspect: (request: Request) => AllowlistViolation | undefined;
+  };
+}
+
+/**
+ * Network error codes accepted by Route.abort.
+ */
+export const FAULT_ERROR_CODES = [
+  'aborted',
+  'accessdenied',
+  'addressunreachable',
+  'blockedbyclient',
+  'blockedbyresponse',
+  'connectionaborted',
+  'connectionclosed',
+  'connectionfailed',
+  'connectionrefused',
+  'connectionreset',
+  'internetdisconnected',
+  'namenotresolved',
+  'timedout',
+  'failed',
+];
+
+/**
+ * Rule with its criteria compiled.
+ */
+interface CompiledFaultRule {
+  rule: FaultRule;
+  matcher: RequestMatcher;
+}
+
+/**
+ * Fault decided for a request, with the rule settings it is carried out with.
+ */
+interface FaultDecision {
+  fault: InjectedFault;
+  spec: FaultSpec;
+}
+
+/**
+ * Applies fault rules to the traffic of a browser context.
+ * Rules are checked in the order they were added; the first matching rule applies.
+ * Requests are only intercepted while at least one rule exists.
+ */
+export class FaultInjector {
+  private readonly context: BrowserContext;
+  private readonly config: FaultInjectorConfig;
+  private readonly rules: CompiledFaultRule[] = [];
+  /** Fault decided for each request (null when no rule applies) */
+  private readonly decisions = new WeakMap<Request, FaultDecision | null>();
+  private nextRuleNumber = 1;
+  private isRouting = false;
+
+  constructor(context: BrowserContext, config: FaultInjectorConfig) {
+    this.context = context;
+    this.config = config;
+  }
+
+  /**
+   * Add a rule and start intercepting if it is the first one.
+   */
+  async addRule(match: FaultRule['match'], fault: FaultSpec, times?: number): Promise<FaultRule> {
+    if (!match.method && !match.urlPattern && !match.entitySet && !match.operation) {
+      throw new Error('Provide at least one of method, urlPattern, entitySet or operation');
+    }
+    if (times !== undefined && (!Number.isInteger(times) || times < 1)) {
+      throw new Error('times must be a positive integer');
+    }
+
+    const rule: FaultRule = {
+      id: `fault-${this.nextRuleNumber}`,
+      match,
+      fault: this.validateFault(fault),
+      times,
+      hitCount: 0,
+    };
+    const matcher = new RequestMatcher(match, this.config.odataParser);
+
+    this.nextRuleNumber++;
+    this.rules.push({ rule, matcher });
+    await this.updateRouting();
+    return rule;
+  }
+
+  /**
+   * Get the rules in the order they are checked.
+   */
+  getRules(): FaultRule[] {
+    return this.rules.map(({ rule }) => ({ ...rule }));
+  }
+
+  /**
+   * Remove one rule, or all rules when no ID is given. Returns the number of rules removed.
+   */
+  async removeRules(ruleId?: string): Promise<number> {
+    let removedCount = this.rules.length;
+
+    if (ruleId) {
+      const index = this.rules.findIndex(({ rule }) => rule.id === ruleId);
+      if (index === -1) {
+        throw new Error(`Fault rule not found: ${ruleId}`);
+      }
+      this.rules.splice(index, 1);
+      removedCount = 1;
+    } else {
+      this.rules.length = 0;
+    }
+
+    await this.updateRouting();
+    return removedCount;
+  }
+
+  /**
+   * Get the fault applied to a request, deciding it on first use.
+   * Redirect hops never reach the route handler, so no fault is applied to them.
+   */
+  inspect(request: Request): InjectedFault | undefined {
+    return this.getDecision(request)?.fault;
+  }
+
+  private getDecision(request: Request): FaultDecision | undefined {
+    let decision = this.decisions.get(request);
+    if (decision === undefined) {
+      decision = this.decide(request) ?? null;
+      this.decisions.set(request, decision);
+    }
+    return decision ?? undefined;
+  }
+
+  private decide(request: Request): FaultDecision | undefined {
+    if (this.rules.length === 0 || request.redirectedFrom() || !/^https?:/i.test(request.url())) {
+      return undefined;
+    }
+
+    if (this.config.allowlist?.inspect(request)?.action === 'blocked') {
+      return undefined;
+    }
+
+    const entry = this.rules.find(
+      ({ rule, matcher }) =>
+        (rule.times === undefined || rule.hitCount < rule.times) && matcher.matchesTarget(request.method(), request.url())
+    );
+    if (!entry) {
+      return undefined;
+    }
+
+    entry.rule.hitCount++;
+    const spec = entry.rule.fault;
+    const { type, delayMs, status, errorCode, bytesPerSecond } = spec;
+    return { fault: { ruleId: entry.rule.id, type, delayMs, status, errorCode, bytesPerSecond }, spec };
+  }
+
+  /**
+   * Check the settings a fault type needs and drop the ones it does not use.
+   */
+  private validateFault(fault: FaultSpec): FaultSpec {
+    const { type, delayMs } = fault;
+    if (delayMs !== undefined && (!Number.isFinite(delayMs) || delayMs < 0)) {
+      throw new Error('delayMs must be zero or more');
+    }
+
+    switch (type) {
+      case 'delay':
+        if (!delayMs) {
+          throw new Error('delay faults need a delayMs greater than zero');
+        }
+        return { type, delayMs };
+      case 'respond':
+        if (fault.status === undefined || !Number.isInteger(fault.status) || fault.status < 100 || fault.status > 599) {
+          throw new Error('respond faults need a status between 100 and 599');
+        }
+        return { type, delayMs, status: fault.status, body: fault.body ?? '', contentType: fault.contentType };
+      case 'abort': {
+        const errorCode = fault.errorCode ?? 'failed';
+        if (!FAULT_ERROR_CODES.includes(errorCode)) {
+          throw new Error(`Unknown errorCode: ${errorCode} (use ${FAULT_ERROR_CODES.join(', ')})`);
+        }
+        return { type, delayMs, errorCode };
+      }
+      case 'throttle':
+        if (fault.bytesPerSecond === undefined || !(fault.bytesPerSecond > 0)) {
+          throw new Error('throttle faults need a bytesPerSecond greater than zero');
+        }
+        return { type, delayMs, bytesPerSecond: fault.bytesPerSecond };
+      default:
+        throw new Error(`Unknown fault type: ${String(type)}`);
+    }
+  }
+
+  private async updateRouting(): Promise<void> {
+    if (this.rules.length > 0 && !this.isRouting) {
+      this.isRouting = true;
+      await this.context.route(this.matchAll, this.handleRoute);
+    } else if (this.rules.length === 0 && this.isRouting) {
+      this.isRouting = false;
+      await this.context.unroute(this.matchAll, this.handleRoute);
+    }
+  }
+
+  private matchAll = (): boolean => true;
+
+  private handleRoute = async (route: Route): Promise<void> => {
+    const decision = this.getDecision(route.request());
+    if (!decision) {
+      await route.fallback();
+      return;
+    }
+
+    const { spec } = decision;
+    if (spec.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, spec.delayMs));
+    }
+
+    switch (spec.type) {
+      case 'delay':
+        // Continue through the remaining routes (the domain allowlist)
+        await route.fallback();
+        return;
+      case 'abort':
+        await route.abort(spec.errorCode);
+        return;
+      case 'respond':
+        await route.fulfill({ status: spec.status, body: spec.body, contentType: spec.contentType });
+        return;
+      case 'throttle':
+        await this.throttle(route, spec.bytesPerSecond ?? 1);
+        return;
+    }
+  };
+
+  /**
+   * Fetch the real response and hold it back for as long as its body takes at the given bandwidth.
+   * Redirects are not followed here, so the browser issues each hop as a new request.
+   */
+  private async throttle(route: Route, bytesPerSecond: number): Promise<void> {
+    let response: APIResponse;
+    let body: Buffer;
+    try {
+      response = await route.fetch({ maxRedirects: 0 });
+      body = await response.body();
+    } catch {
+      await route.abort('failed');
+      return;
+    }
+
+    const transferMs = Math.round((body.length / bytesPerSecond) * 1000);
+    await new Promise((resolve) => setTimeout(resolve, transferMs));
+    await route.fulfill({ response, body });
+  }
+}
@@ -5,16 +5,61 @@
 
 import type { BrowserContext, Request, Response } from 'playwright';
 import { randomUUID } from 'node:crypto';
-import type { CapturedRequest, CapturedResponse, RequestCaptureConfig } from '../types.js';
+import type {
+  BinaryPayload,
+  CapturedRequest,
+  CapturedResponse,
+  CaptureProfile,
+  RequestCaptureConfig,
+  RequestInitiator,
+} from '../types.js';
+import {
+  describeBinary,
+  formatMultipartForm,
+  getDispositionFilename,
+  getMimeType,
+  isBinaryContentType,
+  parseMultipartForm,
+} from './binary-payload.js';
+import { CaptureFilter } from './capture-filter.js';
+
+/**
+ * Most browser requests kept for replayRequest. They hold the unredacted post data, so older ones are released.
+ */
+export const MAX_REPLAYABLE_REQUESTS = 500;
+
+/**
+ * Resource types whose binary responses are page assets rather than file downloads.
+ */
+const ASSET_RESOURCE_TYPES = new Set(['image', 'media', 'font', 'stylesheet', 'script', 'texttrack', 'manifest']);
+
+/**
+ * Request body as captured: text, files, and the file contents to store.
+ */
+interface CapturedBody {
+  body?: string;
+  files?: BinaryPayload[];
+  contents: Array<{ payload: BinaryPayload; data: Buffer }>;
+}
 
 /**
  * Captures HTTP requests and responses from a browser context.
+ * Every request is kept in an ordered timeline keyed by Playwright request identity,
+ * so repeated calls to the same URL are recorded separately.
  */
 export class RequestCapture {
   private readonly context: BrowserContext;
   private readonly config: RequestCaptureConfig;
-  private readonly capturedRequests = new Map<string, CapturedRequest>();
-  private readonly requestTimings = new Map<string, number>();
+  private readonly timeline: CapturedRequest[] = [];
+  private readonly capturedRequests = new WeakMap<Request, CapturedRequest>();
+  private readonly requestTimings = new WeakMap<Request, number>();
+  /** Browser requests of the latest captured requests by ID, kept so a request can be re-issued unredacted */
+  private readonly sourceRequests = new Map<string, Request>();
+  /** Requests whose filter decision waits for the response content type */
+  private readonly undecided = new WeakSet<Request>();
+  private filter: CaptureFilter | null;
+  private nextSequence = 1;
+  private lastActivityAt = Date.now();
   private isCapturing = false;
 
   private readonly defaultAllowedContentTypes = [
@@ -24,11 +69,13 @@ export class RequestCapture {
     'text/plain',
     'text/html',
     'application/x-www-form-urlencoded',
+    'multipart/mixed',
   ];
 
   constructor(context: BrowserContext, config: RequestCaptureConfig) {
     this.context = context;
     this.config = config;
+    this.filter = config.captureProfile ? new CaptureFilter(config.captureProfile) : null;
   }
 
   /**
@@ -41,6 +88,7 @@ export class RequestCapture {
 
     this.context.on('request', this.handleRequest);
     this.context.on('response', this.handleResponse);
+    this.context.on('requestfailed', this.handleRequestFailed);
     this.isCapturing = true;
   }
 
@@ -54,29 +102,110 @@ export class RequestCapture {
 
     this.context.off('request', this.handleRequest);
     this.context.off('response', this.handleResponse);
+    this.context.off('requestfailed', this.handleRequestFailed);
     this.isCapturing = false;
   }
 
   /**
-   * Get all captured requests.
+   * Get all captured requests in timeline order.
    */
   getCapturedRequests(): CapturedRequest[] {
-    return Array.from(this.capturedRequests.values());
+    return [...this.timeline];
   }
 
   /**
    * Get count of captured requests.
    */
   getCapturedCount(): number {
-    return this.capturedRequests.size;
+    return this.timeline.length;
+  }
+
+  /**
+   * Sequence number of the most recent request (0 before the first one).
+   */
+  getLastSequence(): number {
+    return this.nextSequence - 1;
+  }
+
+  /**
+   * Get requests with a sequence number greater than the given one, in timeline order.
+   */
+  getRequestsAfter(sequence: number): CapturedRequest[] {
+    return this.timeline.filter((r) => r.sequence > sequence);
+  }
+
+  /**
+   * Wait until requests after a sequence number have finished and no new request
+   * has started or finished for idleMs (or until timeoutMs passes).
+   */
+  async waitForSettled(afterSequence: number, idleMs = 300, timeoutMs = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const pending = this.timeline.some((r) => r.sequence > afterSequence && r.state === 'pending');
+      if (!pending && Date.now() - this.lastActivityAt >= idleMs) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+
+  /**
+   * Get the capture profile in use.
+   */
+  getCaptureProfile(): CaptureProfile | null {
+    return this.filter?.getProfile() ?? null;
+  }
+
+  /**
+   * Switch the capture profile for requests captured from now on.
+   * With pruneExisting, already captured requests the profile would drop are removed.
+   * Returns the number of removed requests.
+   */
+  setCaptureProfile(profile: CaptureProfile | null, pruneExisting = false): number {
+    this.filter = profile ? new CaptureFilter(profile) : null;
+    const filter = this.filter;
+    if (!pruneExisting || !filter) {
+      return 0;
+    }
+
+    const removed = this.timeline.filter(
+      (r) =>
+        filter.evaluate({
+          url: r.url,
+          resourceType: r.initiator?.resourceType ?? 'other',
+          contentType: r.response ? (r.response.contentType ?? '') : r.state === 'failed' ? '' : undefined,
+        }) === 'drop'
+    );
+    for (const captured of removed) {
+      this.remove(captured);
+    }
+    return removed.length;
   }
 
   /**
    * Clear captured requests.
+   * Sequence numbers keep increasing so later requests still sort after earlier ones.
    */
   clearCaptures(): void {
-    this.capturedRequests.clear();
-    this.requestTimings.clear();
+    this.timeline.length = 0;
+    this.sourceRequests.clear();
+  }
+
+  /**
+   * Get the browser request a captured request was recorded from (only kept for the latest requests).
+   */
+  getSourceRequest(id: string): Request | undefined {
+    return this.sourceRequests.get(id);
+  }
+
+  /**
+   * Get the captured entry of a browser request.
+   */
+  getCaptured(request: Request): CapturedRequest | undefined {
+    const captured = this.capturedRequests.get(request);
+    // Entries dropped by the capture filter or cleared are no longer part of the session
+    return captured && this.timeline.includes(captured) ? captured : undefined;
   }
 
   /**
@@ -91,19 +220,24 @@ export class RequestCapture {
       return;
     }
 
+    const decision = this.filter?.evaluate({ url, resourceType: request.resourceType() }) ?? 'keep';
+    if (decision === 'drop') {
+      return;
+    }
+    if (decision === 'undecided') {
+      this.undecided.add(request);
+    }
+
     // Record timing
-    this.requestTimings.set(request.url() + request.method(), Date.now());
+    this.requestTimings.set(request, Date.now());
+    this.lastActivityAt = Date.now();
 
     // Get and redact headers
     const rawHeaders = request.headers();
     const redactedHeaders = this.config.headerRedactor.redact(rawHeaders).value as Record<string, string>;
 
-    // Get request body
-    let body: string | undefined;
-    const postData = request.postData();
-    if (postData && postData.length <= this.config.maxBodySize) {
-      body = this.config.bodyRedactor.redact(postData).value;
-    }
+    // Get request body; uploaded files are described instead of captured as text
+    const { body, files, contents } = this.captureRequestBody(request, rawHeaders);
 
     const captured: CapturedRequest = {
       id: requestId,
@@ -112,10 +246,57 @@ export class RequestCapture {
       headers: redactedHeaders,
       body,
       contentType: rawHeaders['content-type'],
+      files,
       timestamp: new Date().toISOString(),
+      sequence: this.nextSequence++,
+      state: 'pending',
+      initiator: this.getInitiator(request),
+      allowlist: this.config.allowlist?.inspect(request),
+      fault: this.config.faults?.inspect(request),
     };
 
-    this.capturedRequests.set(url + request.method(), captured);
+    // Link redirect chains in both directions
+    const redirectedFrom = request.redirectedFrom();
+    const previous = redirectedFrom ? this.capturedRequests.get(redirectedFrom) : undefined;
+    if (previous) {
+      captured.redirectedFromId = previous.id;
+      previous.redirectedToId = captured.id;
+    }
+
+    this.capturedRequests.set(request, captured);
+    this.sourceRequests.set(requestId, request);
+    if (this.sourceRequests.size > MAX_REPLAYABLE_REQUESTS) {
+      const [oldestId] = this.sourceRequests.keys();
+      if (oldestId !== undefined) {
+        this.sourceRequests.delete(oldestId);
+      }
+    }
+    this.timeline.push(captured);
+    await this.storeContents(contents);
+  };
+
+  /**
+   * Handle failed or aborted request.
+   */
+  private handleRequestFailed = (request: Request): void => {
+    const captured = this.capturedRequests.get(request);
+    if (!captured) {
+      return;
+    }
+
+    if (this.isFilteredOut(request, captured, '')) {
+      return;
+    }
+
+    const errorText = request.failure()?.errorText ?? 'Unknown error';
+    this.lastActivityAt = Date.now();
+    captured.state = 'failed';
+    // A navigation can be blocked after it started, when its redirect target is checked
+    captured.allowlist ??= this.config.allowlist?.inspect(request);
+    captured.failure = {
+      errorText,
+      aborted: errorText.includes('ERR_ABORTED') || errorText.includes('NS_BINDING_ABORTED'),
+    };
   };
 
   /**
@@ -123,27 +304,32 @@ export class RequestCapture {
    */
   private handleResponse = async (response: Response): Promise<void> => {
     const request = response.request();
-    const key = request.url() + request.method();
-    const captured = this.capturedRequests.get(key);
-    
+    const captured = this.capturedRequests.get(request);
+
     if (!captured) {
       return;
     }
 
     // Calculate response time
-    const startTime = this.requestTimings.get(key) ?? Date.now();
+    const startTime = this.requestTimings.get(request) ?? Date.now();
     const responseTimeMs = Date.now() - startTime;
 
     // Get and redact headers
     const rawHeaders = await response.allHeaders();
     const redactedHeaders = this.config.headerRedactor.redact(rawHeaders).value as Record<string, string>;
 
-    // Check if we should capture body
     const contentType = rawHeaders['content-type'] ?? '';
+    if (this.isFilteredOut(request, captured, contentType)) {
+      return;
+    }
+
+    // Check if we should capture body
     const allowedTypes = this.config.allowedContentTypes ?? this.defaultAllowedContentTypes;
     const shouldCaptureBody = allowedTypes.some((t) => contentType.includes(t));
 
     let body: string | undefined;
+    let file: BinaryPayload | undefined;
+    let fileData: Buffer | undefined;
     if (shouldCaptureBody) {
       try {
         const bodyBuffer = await response.body();
@@ -154,6 +340,21 @@ export class RequestCapture {
       } catch {
         // Response body not available
       }
+    } else if (this.isFileDownload(request, rawHeaders)) {
+      const filename = getDispositionFilename(rawHeaders['content-disposition']);
+      const length = Number(rawHeaders['content-length'] ?? NaN);
+      const size = Number.isFinite(length) ? length : undefined;
+      // Downloads over the limit are not read into memory
+      if (size === undefined || size <= this.config.maxFileSize) {
+        try {
+          fileData = await response.body();
+          file = describeBinary(fileData, contentType, filename);
+        } catch {
+          // Downloads the browser saves itself have no body here
+        }
+      }
+      // Without the content, the download is described from its headers
+      file ??= { mimeType: getMimeType(contentType), filename, size };
     }
 
     const capturedResponse: CapturedResponse = {
@@ -162,9 +363,171 @@ export class RequestCapture {
       headers: redactedHeaders,
       body,
       contentType,
+      file,
       responseTimeMs,
     };
 
     captured.response = capturedResponse;
+    this.lastActivityAt = Date.now();
+    if (captured.state !== 'failed') {
+      captured.state = 'completed';
+    }
+
+    if (file && fileData && fileData.length > 0) {
+      await this.storeContents([{ payload: file, data: fileData }]);
+    }
   };
+
+  /**
+   * Capture a request body. Binary uploads and the file parts of multipart forms are
+   * described by size, hash, name and type; other bodies are captured as redacted text.
+   */
+  private captureRequestBody(request: Request, headers: Record<string, string>): CapturedBody {
+    const data = request.postDataBuffer();
+    if (!data || data.length === 0) {
+      return { contents: [] };
+    }
+
+    const contentType = headers['content-type'] ?? '';
+    const form = /^multipart\/form-data/i.test(contentType) ? parseMultipartForm(data, contentType) : null;
+    if (form) {
+      const contents = form.parts
+        .filter((part) => part.filename !== undefined)
+        .map((part) => ({
+          payload: describeBinary(part.data, part.contentType, part.filename, part.name),
+          data: part.data,
+        }));
+      const text = formatMultipartForm(form);
+      return {
+        body: text.length <= this.config.maxBodySize ? this.config.bodyRedactor.redact(text).value : undefined,
+        files: contents.length > 0 ? contents.map((content) => content.payload) : undefined,
+        contents,
+      };
+    }
+
+    if (isBinaryContentType(contentType) || data.includes(0)) {
+      const filename = getDispositionFilename(headers['content-disposition']) ?? this.decodeSlug(headers['slug']);
+      const payload = describeBinary(data, contentType, filename);
+      return { files: [payload], contents: [{ payload, data }] };
+    }
+
+    const postData = data.toString('utf-8');
+    return {
+      body: postData.length <= this.config.maxBodySize ? this.config.bodyRedactor.redact(postData).value : undefined,
+      contents: [],
+    };
+  }
+
+  /**
+   * Whether a response is a file download: an attachment, or binary content that is not a page asset.
+   */
+  private isFileDownload(request: Request, headers: Record<string, string>): boolean {
+    if (ASSET_RESOURCE_TYPES.has(request.resourceType())) {
+      return false;
+    }
+    return /^\s*attachment/i.test(headers['content-disposition'] ?? '') || isBinaryContentType(headers['content-type']);
+  }
+
+  /**
+   * Copy file contents to the binary store, when the session keeps them.
+   */
+  private async storeContents(contents: CapturedBody['contents']): Promise<void> {
+    const store = this.config.binaryStore;
+    if (!store) {
+      return;
+    }
+
+    for (const { payload, data } of contents) {
+      try {
+        payload.storedPath = await store.save(data, payload);
+      } catch {
+        // A failed copy leaves the metadata in place
+      }
+    }
+  }
+
+  /**
+   * Decode a Slug header (percent-encoded file name used by AtomPub-style uploads).
+   */
+  private decodeSlug(slug: string | undefined): string | undefined {
+    if (!slug) {
+      return undefined;
+    }
+    try {
+      return decodeURIComponent(slug);
+    } catch {
+      return slug;
+    }
+  }
+
+  /**
+   * Settle a filter decision that waited for the content type; removes the request when dropped.
+   */
+  private isFilteredOut(request: Request, captured: CapturedRequest, contentType: string): boolean {
+    if (!this.undecided.has(request)) {
+      return false;
+    }
+    this.undecided.delete(request);
+
+    const decision = this.filter?.evaluate({
+      url: captured.url,
+      resourceType: request.resourceType(),
+      contentType,
+    });
+    if (decision !== 'drop') {
+      return false;
+    }
+
+    this.remove(captured);
+    return true;
+  }
+
+  /**
+   * Remove a request from the timeline, unlinking it from its redirect chain.
+   */
+  private remove(captured: CapturedRequest): void {
+    const index = this.timeline.indexOf(captured);
+    if (index >= 0) {
+      this.timeline.splice(index, 1);
+    }
+    this.sourceRequests.delete(captured.id);
+
+    for (const other of this.timeline) {
+      if (other.redirectedToId === captured.id) {
+        delete other.redirectedToId;
+      }
+      if (other.redirectedFromId === captured.id) {
+        delete other.redirectedFromId;
+      }
+    }
+  }
+
+  /**
+   * Classify what started a request.
+   */
+  private getInitiator(request: Request): RequestInitiator {
+    const resourceType = request.resourceType();
+    let type: RequestInitiator['type'] = 'other';
+    if (request.isNavigationRequest()) {
+      type = 'navigation';
+    } else if (resourceType === 'xhr' || resourceType === 'fetch') {
+      type = resourceType;
+    }
+
+    let frameUrl: string | undefined;
+    let pageId: string | undefined;
+    let frameId: string | undefined;
+    try {
+      const frame = request.frame();
+      frameUrl = frame.url();
+      if (this.config.targets) {
+        pageId = this.config.targets.getPageId(frame.page());
+        frameId = this.config.targets.getFrameId(frame);
+      }
+    } catch {
+      // Service worker requests have no frame
+    }
+
+    return { type, resourceType, frameUrl, pageId, frameId };
+  }
 }
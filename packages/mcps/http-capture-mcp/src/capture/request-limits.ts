@@ -0,0 +1,27 @@
+/**
+ * Request limit settings loading.
+ * Reads the requestLimits section of config/security.json.
+ */
+
+import { getConfigSection, type SecurityConfigFile } from '../security-config.js';
+import type { RequestLimits } from '../types.js';
+
+/**
+ * Limits used when the security config has no requestLimits section: binary content is not stored.
+ */
+export const DEFAULT_REQUEST_LIMITS: RequestLimits = {
+  blockBinaryContent: true,
+};
+
+/**
+ * Get request limit settings from the security config; missing fields fall back to the defaults.
+ */
+export function getRequestLimits(config: SecurityConfigFile): RequestLimits {
+  const section = getConfigSection(config, 'requestLimits');
+  const blockBinaryContent = section['blockBinaryContent'];
+
+  return {
+    blockBinaryContent:
+      typeof blockBinaryContent === 'boolean' ? blockBinaryContent : DEFAULT_REQUEST_LIMITS.blockBinaryContent,
+  };
+}
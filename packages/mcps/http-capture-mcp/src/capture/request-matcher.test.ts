@@ -0,0 +1,144 @@
+/**
+ * Request matcher tests.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ODataParser } from '../odata/odata-parser.js';
+import type { CapturedRequest, RequestMatchCriteria } from '../types.js';
+import { RequestMatcher } from './request-matcher.js';
+
+const SERVICE_URL =
+  'https://erp.example.com/main/ifsapplications/projection/v1/FlmTaskDetailHandling.svc';
+
+const odataParser = new ODataParser();
+
+function request(
+  method: string,
+  path: string,
+  body?: unknown,
+  response?: { status: number; body?: unknown }
+): CapturedRequest {
+  return {
+    id: 'req-1',
+    method,
+    url: `${SERVICE_URL}/${path}`,
+    headers: {},
+    body: body === undefined ? undefined : JSON.stringify(body),
+    timestamp: '2024-01-15T10:30:00.000Z',
+    sequence: 1,
+    state: response ? 'completed' : 'pending',
+    response: response && {
+      status: response.status,
+      statusText: '',
+      headers: {},
+      body: response.body === undefined ? '' : JSON.stringify(response.body),
+      responseTimeMs: 10,
+    },
+  };
+}
+
+function matcher(criteria: RequestMatchCriteria): RequestMatcher {
+  return new RequestMatcher(criteria, odataParser);
+}
+
+describe('RequestMatcher', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('matches the method case-insensitively and the URL pattern', () => {
+    const patch = request('PATCH', 'AvExeTaskSet(TaskSeq=1)');
+
+    expect(matcher({ method: 'patch', urlPattern: 'TaskSeq=\\d+' }).matches(patch, 'request')).toBe(
+      true
+    );
+    expect(matcher({ method: 'POST' }).matches(patch, 'request')).toBe(false);
+    expect(matcher({ urlPattern: 'JtTaskSet' }).matches(patch, 'request')).toBe(false);
+    expect(() => matcher({ urlPattern: '(' })).toThrow('Invalid urlPattern: (');
+  });
+
+  it('matches entity sets and operations with or without their namespace', () => {
+    const release = request(
+      'POST',
+      'AvExeTaskSet(TaskSeq=1)/IfsApp.FlmTaskDetailHandling.AvExeTask_Release'
+    );
+
+    expect(
+      matcher({ entitySet: 'AvExeTaskSet' }).matchesTarget('GET', `${SERVICE_URL}/AvExeTaskSet`)
+    ).toBe(true);
+    expect(matcher({ entitySet: 'JtTaskSet' }).matches(release, 'request')).toBe(false);
+    expect(matcher({ operation: 'AvExeTask_Release' }).matches(release, 'request')).toBe(true);
+    expect(
+      matcher({ operation: 'IfsApp.FlmTaskDetailHandling.AvExeTask_Release' }).matches(
+        release,
+        'request'
+      )
+    ).toBe(true);
+    expect(
+      matcher({ entitySet: 'AvExeTaskSet' }).matchesTarget('GET', 'https://erp.example.com/main/')
+    ).toBe(false);
+  });
+
+  it('applies status criteria only to received responses', () => {
+    const criteria = matcher({ statusMin: 200, statusMax: 299 });
+
+    expect(criteria.matches(request('GET', 'AvExeTaskSet'), 'request')).toBe(true);
+    expect(criteria.matches(request('GET', 'AvExeTaskSet'), 'response')).toBe(false);
+    expect(
+      criteria.matches(request('GET', 'AvExeTaskSet', undefined, { status: 204 }), 'response')
+    ).toBe(true);
+    expect(
+      criteria.matches(request('GET', 'AvExeTaskSet', undefined, { status: 404 }), 'response')
+    ).toBe(false);
+  });
+
+  it('matches request or response bodies that contain the expected JSON', () => {
+    const created = request(
+      'POST',
+      'AvExeTaskSet',
+      { Site: 'A1', Lines: [{ LineNo: 1 }, { LineNo: 2, Hours: 3 }] },
+      { status: 201, body: { TaskSeq: 10234, Objstate: 'PLANNED' } }
+    );
+
+    expect(matcher({ body: { Lines: [{ LineNo: 2 }] } }).matches(created, 'request')).toBe(true);
+    expect(matcher({ body: { Lines: [{ LineNo: 3 }] } }).matches(created, 'request')).toBe(false);
+    expect(matcher({ body: { Site: 'A1' } }).matches(created, 'response')).toBe(false);
+    expect(matcher({ body: { Objstate: 'PLANNED' } }).matches(created, 'response')).toBe(true);
+    expect(matcher({ body: { Lines: { LineNo: 1 } } }).matches(created, 'request')).toBe(false);
+  });
+
+  it('describes its criteria', () => {
+    expect(matcher({ method: 'POST', body: { Site: 'A1' } }).describe()).toBe(
+      'method=POST, body={"Site":"A1"}'
+    );
+    expect(matcher({}).describe()).toBe('any request');
+  });
+
+  it('waits for a request that arrives before the timeout', async () => {
+    vi.useFakeTimers();
+    const requests = [request('GET', 'AvExeTaskSet')];
+
+    const found = matcher({ method: 'POST' }).waitFor(() => requests, 'request', 1000);
+    await vi.advanceTimersByTimeAsync(300);
+    requests.push(request('POST', 'AvExeTaskSet', { Site: 'A1' }));
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await found).toBe(requests[1]);
+  });
+
+  it('returns null once the timeout has passed', async () => {
+    vi.useFakeTimers();
+    let result: CapturedRequest | null | undefined;
+
+    void matcher({ method: 'POST' })
+      .waitFor(() => [request('GET', 'AvExeTaskSet')], 'request', 1000)
+      .then((match) => {
+        result = match;
+      });
+    await vi.advanceTimersByTimeAsync(900);
+    expect(result).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(result).toBeNull();
+  });
+});
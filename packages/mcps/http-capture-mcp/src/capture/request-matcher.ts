@@ -0,0 +1,158 @@
+/**
+ * Request matching for waitForRequest, waitForResponse and fault rules.
+ * Matches captured requests by method, URL, OData target, status and body content.
+ */
+
+import type { ODataParser } from '../odata/odata-parser.js';
+import type { CapturedRequest, RequestMatchCriteria } from '../types.js';
+
+/**
+ * Whether a request is matched as sent or once its response has arrived.
+ */
+export type MatchPhase = 'request' | 'response';
+
+/**
+ * Matches captured requests against a set of criteria.
+ */
+export class RequestMatcher {
+  private readonly criteria: RequestMatchCriteria;
+  private readonly odataParser: ODataParser;
+  private readonly urlRegex: RegExp | null;
+
+  constructor(criteria: RequestMatchCriteria, odataParser: ODataParser) {
+    this.criteria = criteria;
+    this.odataParser = odataParser;
+
+    try {
+      this.urlRegex = criteria.urlPattern ? new RegExp(criteria.urlPattern) : null;
+    } catch {
+      throw new Error(`Invalid urlPattern: ${criteria.urlPattern ?? ''}`);
+    }
+  }
+
+  /**
+   * Check a request. In the response phase the request must have a response;
+   * status and body criteria then apply to the response.
+   */
+  matches(request: CapturedRequest, phase: MatchPhase): boolean {
+    const { statusMin, statusMax, body } = this.criteria;
+
+    if (!this.matchesTarget(request.method, request.url)) {
+      return false;
+    }
+
+    if (phase === 'response') {
+      const status = request.response?.status;
+      if (status === undefined) {
+        return false;
+      }
+      if ((statusMin !== undefined && status < statusMin) || (statusMax !== undefined && status > statusMax)) {
+        return false;
+      }
+    }
+
+    if (body !== undefined) {
+      const text = phase === 'response' ? request.response?.body : request.body;
+      return this.containsJson(this.parseJson(text), body);
+    }
+
+    return true;
+  }
+
+  /**
+   * Check only the method, URL and OData target criteria (usable before a request is captured).
+   */
+  matchesTarget(requestMethod: string, url: string): boolean {
+    const { method, entitySet, operation } = this.criteria;
+
+    if (method && requestMethod.toUpperCase() !== method.toUpperCase()) {
+      return false;
+    }
+
+    if (this.urlRegex && !this.urlRegex.test(url)) {
+      return false;
+    }
+
+    if (entitySet || operation) {
+      const info = this.odataParser.parse(url, requestMethod);
+      if (!info) {
+        return false;
+      }
+      if (entitySet && info.entitySet !== entitySet) {
+        return false;
+      }
+      if (operation && info.operation?.name !== operation && info.operation?.qualifiedName !== operation) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Poll for a matching request until the timeout. Returns null when none arrived in time.
+   */
+  async waitFor(
+    getRequests: () => CapturedRequest[],
+    phase: MatchPhase,
+    timeoutMs: number,
+    pollIntervalMs = 100
+  ): Promise<CapturedRequest | null> {
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const request = getRequests().find((r) => this.matches(r, phase));
+      if (request) {
+        return request;
+      }
+      if (Date.now() >= deadline) {
+        return null;
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+
+  /**
+   * Short description of the criteria for log and error messages.
+   */
+  describe(): string {
+    const parts = Object.entries(this.criteria)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    return parts.length > 0 ? parts.join(', ') : 'any request';
+  }
+
+  /**
+   * Objects contain the expected keys (recursively), arrays contain a match for every expected element.
+   */
+  private containsJson(actual: unknown, expected: unknown): boolean {
+    if (Array.isArray(expected)) {
+      return (
+        Array.isArray(actual) && expected.every((item) => actual.some((candidate) => this.containsJson(candidate, item)))
+      );
+    }
+
+    if (typeof expected === 'object' && expected !== null) {
+      if (typeof actual !== 'object' || actual === null || Array.isArray(actual)) {
+        return false;
+      }
+      const record = actual as Record<string, unknown>;
+      return Object.entries(expected).every(
+        ([key, value]) => key in record && this.containsJson(record[key], value)
+      );
+    }
+
+    return actual === expected;
+  }
+
+  private parseJson(text: string | undefined): unknown {
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return undefined;
+    }
+  }
+}
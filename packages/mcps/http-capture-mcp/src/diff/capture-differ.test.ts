@@ -0,0 +1,235 @@
+/**
+ * Capture differ tests.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { CapturedRequest } from '../types.js';
+import { CaptureDiffer, DEFAULT_VOLATILE_RULES, parseVolatileRules } from './capture-differ.js';
+
+const SERVICE_URL =
+  'https://erp.example.com/main/ifsapplications/projection/v1/FlmTaskDetailHandling.svc';
+
+function call(
+  id: string,
+  sequence: number,
+  method: string,
+  path: string,
+  status: number | undefined,
+  responseBody?: unknown,
+  requestBody?: unknown
+): CapturedRequest {
+  return {
+    id,
+    method,
+    url: path.startsWith('http') ? path : `${SERVICE_URL}/${path}`,
+    headers: {},
+    body: requestBody === undefined ? undefined : JSON.stringify(requestBody),
+    contentType: requestBody === undefined ? undefined : 'application/json',
+    timestamp: new Date(Date.UTC(2024, 0, 15, 10, 30, sequence)).toISOString(),
+    sequence,
+    state: status === undefined ? 'failed' : 'completed',
+    response:
+      status === undefined
+        ? undefined
+        : {
+            status,
+            statusText: '',
+            headers: {},
+            body: responseBody === undefined ? undefined : JSON.stringify(responseBody),
+            contentType: 'application/json',
+            responseTimeMs: 10,
+          },
+  };
+}
+
+const differ = new CaptureDiffer();
+const options = { volatile: DEFAULT_VOLATILE_RULES };
+
+describe('CaptureDiffer', () => {
+  it('pairs calls by operation, ignoring key values and volatile fields', () => {
+    const baseline = [
+      call('b1', 1, 'GET', 'AvExeTaskSet(TaskSeq=100)', 200, {
+        '@odata.etag': 'W/"1"',
+        TaskSeq: 100,
+        Objversion: '20240115103000',
+        Created: '2024-01-15T10:30:00Z',
+      }),
+      call(
+        'b2',
+        2,
+        'POST',
+        'AvExeTaskSet',
+        201,
+        { TaskSeq: 100 },
+        { Description: 'Filter', Id: 'a' }
+      ),
+    ];
+    const current = [
+      call('c1', 1, 'GET', 'AvExeTaskSet(TaskSeq=200)', 200, {
+        '@odata.etag': 'W/"7"',
+        TaskSeq: 200,
+        Objversion: '20250301080000',
+        Created: '2025-03-01T08:00:00Z',
+      }),
+      call(
+        'c2',
+        2,
+        'POST',
+        'AvExeTaskSet',
+        201,
+        { TaskSeq: 200 },
+        { Description: 'Filter', Id: 'a' }
+      ),
+    ];
+
+    const diff = differ.diff(baseline, current, options);
+
+    expect(diff).toMatchObject({
+      summary: '0 operations changed, 0 calls added, 0 calls removed, 2 operations unchanged',
+      baselineCallCount: 2,
+      currentCallCount: 2,
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+
+  it('reports added and removed calls in timeline order', () => {
+    const baseline = [
+      call('b1', 1, 'GET', 'AvExeTaskSet(TaskSeq=1)', 200, {}),
+      call('b2', 2, 'GET', 'AvExeTaskSet(TaskSeq=1)/JtTaskArray', 200, { value: [] }),
+    ];
+    const current = [
+      call('c1', 1, 'GET', 'AvExeTaskSet(TaskSeq=1)', 200, {}),
+      call('c2', 2, 'GET', 'AvExeTaskSet(TaskSeq=1)', 200, {}),
+      call('c3', 3, 'GET', `${SERVICE_URL}/$metadata`, 200),
+    ];
+
+    const diff = differ.diff(baseline, current, options);
+
+    expect(diff.removed).toEqual([
+      {
+        operation: 'GET FlmTaskDetailHandling/AvExeTaskSet(TaskSeq)/JtTaskArray',
+        requestId: 'b2',
+        sequence: 2,
+        method: 'GET',
+        url: `${SERVICE_URL}/AvExeTaskSet(TaskSeq=1)/JtTaskArray`,
+      },
+    ]);
+    expect(diff.added.map((added) => [added.operation, added.requestId])).toEqual([
+      ['GET FlmTaskDetailHandling/AvExeTaskSet(TaskSeq)', 'c2'],
+    ]);
+    expect(diff.currentCallCount).toBe(2);
+  });
+
+  it('reports status, request field and response schema changes', () => {
+    const baseline = [
+      call(
+        'b1',
+        1,
+        'POST',
+        'AvExeTaskSet',
+        201,
+        { TaskSeq: 1, Description: 'Filter', Hours: 2 },
+        { Description: 'Filter', Lines: [{ Quantity: 1 }], Site: 'MAIN' }
+      ),
+      call('b2', 2, 'GET', 'AvExeTaskSet(TaskSeq=1)', 200, { TaskSeq: 1 }),
+    ];
+    const current = [
+      call(
+        'c1',
+        1,
+        'POST',
+        'AvExeTaskSet',
+        201,
+        { TaskSeq: 1, Description: 'Filter', Hours: '2', Priority: 1 },
+        { Description: 'Filter', Lines: [{ Quantity: 2 }], Urgent: true }
+      ),
+      call('c2', 2, 'GET', 'AvExeTaskSet(TaskSeq=1)', undefined),
+    ];
+
+    const diff = differ.diff(baseline, current, options);
+
+    expect(diff.summary).toBe(
+      '2 operations changed, 0 calls added, 0 calls removed, 0 operations unchanged'
+    );
+    expect(diff.changed).toEqual([
+      {
+        operation: 'POST FlmTaskDetailHandling/AvExeTaskSet',
+        baselineCount: 1,
+        currentCount: 1,
+        statusChanges: [],
+        requestFieldChanges: [
+          { path: '$.Lines[0].Quantity', change: 'changed', baseline: 1, current: 2 },
+          { path: '$.Site', change: 'removed', baseline: 'MAIN' },
+          { path: '$.Urgent', change: 'added', current: true },
+        ],
+        responseSchemaChanges: [
+          { path: '$.Hours', change: 'typeChanged', baseline: 'integer', current: 'string' },
+          { path: '$.Priority', change: 'added', current: 'integer' },
+        ],
+      },
+      {
+        operation: 'GET FlmTaskDetailHandling/AvExeTaskSet(TaskSeq)',
+        baselineCount: 1,
+        currentCount: 1,
+        statusChanges: [
+          {
+            baselineRequestId: 'b2',
+            currentRequestId: 'c2',
+            baselineStatus: 200,
+            currentStatus: 'failed',
+          },
+        ],
+        requestFieldChanges: [],
+        responseSchemaChanges: [],
+      },
+    ]);
+  });
+
+  it('does not compare properties below values one side only saw as null', () => {
+    const baseline = [call('b1', 1, 'GET', 'AvExeTaskSet(TaskSeq=1)', 200, { Address: null })];
+    const current = [
+      call('c1', 1, 'GET', 'AvExeTaskSet(TaskSeq=1)', 200, { Address: { City: 'Colombo' } }),
+    ];
+
+    expect(differ.diff(baseline, current, options).changed).toEqual([]);
+  });
+
+  it('compares non-OData calls by path only when asked to', () => {
+    const baseline = [call('b1', 1, 'GET', 'https://erp.example.com/api/users/42/roles', 200, [])];
+    const current = [call('c1', 1, 'GET', 'https://erp.example.com/api/users/7/roles', 500)];
+
+    expect(differ.diff(baseline, current, options).unchangedOperationCount).toBe(0);
+    expect(
+      differ.diff(baseline, current, { ...options, includeNonOData: true }).changed
+    ).toMatchObject([
+      { operation: 'GET /api/users/*/roles', statusChanges: [{ currentStatus: 500 }] },
+    ]);
+  });
+});
+
+describe('parseVolatileRules', () => {
+  it('reads fields and value patterns', () => {
+    expect(
+      parseVolatileRules('{"fields":["Rowkey"],"valuePatterns":["^\\\\d+$"]}', 'volatile')
+    ).toEqual({
+      fields: ['Rowkey'],
+      valuePatterns: ['^\\d+$'],
+    });
+  });
+
+  it('rejects invalid rules with the argument name', () => {
+    expect(() => parseVolatileRules('[', 'volatile')).toThrow('volatile is not valid JSON');
+    expect(() => parseVolatileRules('[]', 'volatile')).toThrow('volatile must be a JSON object');
+    expect(() => parseVolatileRules('{"field":[]}', 'volatile')).toThrow(
+      "volatile has unknown property 'field' (use fields, valuePatterns)"
+    );
+    expect(() => parseVolatileRules('{"fields":"Rowkey"}', 'volatile')).toThrow(
+      'volatile.fields must be an array of strings'
+    );
+    expect(() => parseVolatileRules('{"valuePatterns":["("]}', 'volatile')).toThrow(
+      'volatile.valuePatterns has an invalid regex: ('
+    );
+  });
+});
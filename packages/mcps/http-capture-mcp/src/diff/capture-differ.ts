@@ -0,0 +1,493 @@
+/**
+ * Capture diffing.
+ * Compares the calls two captures made, e.g. the same workflow before and after an ERP upgrade.
+ */
+
+import { ODataParser } from '../odata/odata-parser.js';
+import type { ODataLiteral, ODataRequestInfo } from '../odata/types.js';
+import { SchemaInferrer } from '../schema/schema-inferrer.js';
+import type { CapturedRequest } from '../types.js';
+import type {
+  CaptureDiff,
+  DiffCall,
+  FieldChange,
+  OperationDiff,
+  SchemaChange,
+  StatusChange,
+  VolatileRules,
+} from './types.js';
+
+/**
+ * Row versions, ETags, GUIDs and timestamps, which differ between any two runs.
+ */
+export const DEFAULT_VOLATILE_RULES: VolatileRules = {
+  fields: ['@odata.etag', 'Objversion', 'Objid', 'Objkey', 'ETag'],
+  valuePatterns: [
+    '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$',
+    '^\\d{4}-\\d{2}-\\d{2}(T\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:\\d{2})?)?$',
+    '^(W/)?"[^"]*"$',
+  ],
+};
+
+/**
+ * Numeric and GUID path segments of non-OData URLs.
+ */
+const VOLATILE_PATH_SEGMENT = /\/(?:\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?=\/|$)/gi;
+
+/**
+ * Options for diffing two captures.
+ */
+export interface CaptureDiffOptions {
+  /** Values ignored in the comparison */
+  volatile: VolatileRules;
+  /** Also compare calls that are not OData requests, keyed by method and path */
+  includeNonOData?: boolean;
+}
+
+/**
+ * Parse a JSON object of volatile rules (from a tool argument).
+ */
+export function parseVolatileRules(json: string, argument: string): Partial<VolatileRules> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json) as unknown;
+  } catch {
+    throw new Error(`${argument} is not valid JSON`);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${argument} must be a JSON object`);
+  }
+
+  const keys: Array<keyof VolatileRules> = ['fields', 'valuePatterns'];
+  const rules: Partial<VolatileRules> = {};
+  for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!keys.includes(key as keyof VolatileRules)) {
+      throw new Error(`${argument} has unknown property '${key}' (use ${keys.join(', ')})`);
+    }
+    if (!Array.isArray(value) || !value.every((v): v is string => typeof v === 'string')) {
+      throw new Error(`${argument}.${key} must be an array of strings`);
+    }
+    rules[key as keyof VolatileRules] = value;
+  }
+
+  for (const pattern of rules.valuePatterns ?? []) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new Error(`${argument}.valuePatterns has an invalid regex: ${pattern}`);
+    }
+  }
+  return rules;
+}
+
+/**
+ * Volatile rules with their patterns compiled.
+ */
+interface CompiledRules {
+  fields: Set<string>;
+  valuePatterns: RegExp[];
+}
+
+/**
+ * Compares two capture timelines by normalized operation.
+ */
+export class CaptureDiffer {
+  private readonly parser: ODataParser;
+
+  constructor(parser = new ODataParser()) {
+    this.parser = parser;
+  }
+
+  /**
+   * Diff a baseline capture against a current one. Calls to the same operation are paired in timeline order.
+   */
+  diff(baseline: CapturedRequest[], current: CapturedRequest[], options: CaptureDiffOptions): CaptureDiff {
+    const rules: CompiledRules = {
+      fields: new Set(options.volatile.fields),
+      valuePatterns: options.volatile.valuePatterns.map((pattern) => new RegExp(pattern, 'i')),
+    };
+    const baselineOperations = this.groupByOperation(baseline, options.includeNonOData ?? false);
+    const currentOperations = this.groupByOperation(current, options.includeNonOData ?? false);
+
+    const added: DiffCall[] = [];
+    const removed: DiffCall[] = [];
+    const changed: OperationDiff[] = [];
+    let unchangedOperationCount = 0;
+
+    const operations = new Set([...baselineOperations.keys(), ...currentOperations.keys()]);
+    for (const operation of operations) {
+      const before = baselineOperations.get(operation) ?? [];
+      const after = currentOperations.get(operation) ?? [];
+
+      removed.push(...before.slice(after.length).map((request) => this.toCall(operation, request)));
+      added.push(...after.slice(before.length).map((request) => this.toCall(operation, request)));
+      if (before.length === 0 || after.length === 0) {
+        continue;
+      }
+
+      const diff = this.diffOperation(operation, before, after, rules);
+      const hasChanges =
+        diff.statusChanges.length > 0 || diff.requestFieldChanges.length > 0 || diff.responseSchemaChanges.length > 0;
+      if (hasChanges) {
+        changed.push(diff);
+      } else {
+        unchangedOperationCount++;
+      }
+    }
+
+    added.sort((a, b) => a.sequence - b.sequence);
+    removed.sort((a, b) => a.sequence - b.sequence);
+
+    return {
+      summary: `${this.plural(changed.length, 'operation')} changed, ${this.plural(added.length, 'call')} added, ` +
+        `${this.plural(removed.length, 'call')} removed, ${this.plural(unchangedOperationCount, 'operation')} unchanged`,
+      baselineCallCount: Array.from(baselineOperations.values()).reduce((sum, calls) => sum + calls.length, 0),
+      currentCallCount: Array.from(currentOperations.values()).reduce((sum, calls) => sum + calls.length, 0),
+      added,
+      removed,
+      changed,
+      unchangedOperationCount,
+    };
+  }
+
+  private diffOperation(
+    operation: string,
+    before: CapturedRequest[],
+    after: CapturedRequest[],
+    rules: CompiledRules
+  ): OperationDiff {
+    const statusChanges: StatusChange[] = [];
+    // The same field change is reported once per operation, with the first pair's values
+    const fieldChanges = new Map<string, FieldChange>();
+
+    for (let i = 0; i < Math.min(before.length, after.length); i++) {
+      const baselineRequest = before[i];
+      const currentRequest = after[i];
+      if (!baselineRequest || !currentRequest) {
+        continue;
+      }
+
+      const baselineStatus = this.getStatus(baselineRequest);
+      const currentStatus = this.getStatus(currentRequest);
+      if (baselineStatus !== undefined && currentStatus !== undefined && baselineStatus !== currentStatus) {
+        statusChanges.push({
+          baselineRequestId: baselineRequest.id,
+          currentRequestId: currentRequest.id,
+          baselineStatus,
+          currentStatus,
+        });
+      }
+
+      for (const change of this.diffBodies(baselineRequest.body, currentRequest.body, rules)) {
+        const key = `${change.change} ${change.path}`;
+        if (!fieldChanges.has(key)) {
+          fieldChanges.set(key, change);
+        }
+      }
+    }
+
+    return {
+      operation,
+      baselineCount: before.length,
+      currentCount: after.length,
+      statusChanges,
+      requestFieldChanges: Array.from(fieldChanges.values()),
+      responseSchemaChanges: this.diffSchemas(
+        this.inferResponseSchema(before),
+        this.inferResponseSchema(after),
+        rules
+      ),
+    };
+  }
+
+  /**
+   * Group calls by operation, keeping timeline order within each group.
+   */
+  private groupByOperation(requests: CapturedRequest[], includeNonOData: boolean): Map<string, CapturedRequest[]> {
+    const groups = new Map<string, CapturedRequest[]>();
+    for (const request of [...requests].sort((a, b) => a.sequence - b.sequence)) {
+      const operation = this.getOperation(request, includeNonOData);
+      if (!operation) {
+        continue;
+      }
+      const group = groups.get(operation) ?? [];
+      group.push(request);
+      groups.set(operation, group);
+    }
+    return groups;
+  }
+
+  /**
+   * Normalized operation of a call: method, service and resource path without key values,
+   * e.g. GET FlmTaskDetailHandling/AvExeTaskSet(TaskSeq)/JtTaskArray.
+   */
+  private getOperation(request: CapturedRequest, includeNonOData: boolean): string | null {
+    const method = request.method.toUpperCase();
+    const info = this.parser.parse(request.url, request.method);
+
+    if (!info) {
+      if (!includeNonOData) {
+        return null;
+      }
+      try {
+        return `${method} ${new URL(request.url).pathname.replace(VOLATILE_PATH_SEGMENT, '/*')}`;
+      } catch {
+        return null;
+      }
+    }
+
+    if (info.kind === 'metadata' || info.kind === 'batch' || info.kind === 'serviceDocument') {
+      return null;
+    }
+
+    return `${method} ${info.serviceName}/${this.getResourceTemplate(info)}`;
+  }
+
+  private getResourceTemplate(info: ODataRequestInfo): string {
+    const segments: string[] = [];
+    if (info.entitySet) {
+      segments.push(this.withKeyNames(info.entitySet, info.keys));
+    }
+    for (const navigation of info.navigation) {
+      segments.push(this.withKeyNames(navigation.property, navigation.keys));
+    }
+    if (info.operation) {
+      segments.push(this.withKeyNames(info.operation.name, info.operation.parameters));
+    }
+    return segments.join('/');
+  }
+
+  private withKeyNames(name: string, keys: Record<string, ODataLiteral> | undefined): string {
+    return keys ? `${name}(${Object.keys(keys).join(',')})` : name;
+  }
+
+  private getStatus(request: CapturedRequest): number | 'failed' | undefined {
+    if (request.response) {
+      return request.response.status;
+    }
+    return request.state === 'failed' ? 'failed' : undefined;
+  }
+
+  /**
+   * Compare two request bodies field by field. Bodies that are not JSON are compared as a whole.
+   */
+  private diffBodies(baselineBody: string | undefined, currentBody: string | undefined, rules: CompiledRules): FieldChange[] {
+    if (baselineBody === currentBody) {
+      return [];
+    }
+
+    const before = new Map<string, unknown>();
+    const after = new Map<string, unknown>();
+    this.flattenValue(this.parseBody(baselineBody), '$', before, rules);
+    this.flattenValue(this.parseBody(currentBody), '$', after, rules);
+
+    const changes: FieldChange[] = [];
+    for (const [path, value] of before) {
+      if (!after.has(path)) {
+        changes.push({ path, change: 'removed', baseline: value });
+      } else if (!this.isSameValue(value, after.get(path), rules)) {
+        changes.push({ path, change: 'changed', baseline: value, current: after.get(path) });
+      }
+    }
+    for (const [path, value] of after) {
+      if (!before.has(path)) {
+        changes.push({ path, change: 'added', current: value });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Collect the leaf values of a JSON value by path; array elements are compared by position.
+   */
+  private flattenValue(value: unknown, path: string, out: Map<string, unknown>, rules: CompiledRules): void {
+    if (value === undefined) {
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) {
+        out.set(path, []);
+      }
+      value.forEach((item, index) => this.flattenValue(item, `${path}[${index}]`, out, rules));
+      return;
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      const entries = Object.entries(value as Record<string, unknown>);
+      if (entries.length === 0) {
+        out.set(path, {});
+      }
+      for (const [key, child] of entries) {
+        if (!rules.fields.has(key)) {
+          this.flattenValue(child, `${path}.${key}`, out, rules);
+        }
+      }
+      return;
+    }
+
+    out.set(path, value);
+  }
+
+  private isSameValue(baseline: unknown, current: unknown, rules: CompiledRules): boolean {
+    if (JSON.stringify(baseline) === JSON.stringify(current)) {
+      return true;
+    }
+    return (
+      typeof baseline === 'string' &&
+      typeof current === 'string' &&
+      rules.valuePatterns.some((pattern) => pattern.test(baseline) && pattern.test(current))
+    );
+  }
+
+  /**
+   * Infer one schema from the successful JSON responses of an operation.
+   */
+  private inferResponseSchema(requests: CapturedRequest[]): Record<string, unknown> | null {
+    const inferrer = new SchemaInferrer();
+    for (const request of requests) {
+      const status = request.response?.status ?? 0;
+      const data = this.parseJson(request.response?.body);
+      if (status >= 200 && status < 300 && data !== undefined) {
+        inferrer.addSample(data);
+      }
+    }
+    return inferrer.getSchema();
+  }
+
+  /**
+   * Compare inferred schemas property by property.
+   * Properties below a value one side only saw as null or an empty array are not compared.
+   */
+  private diffSchemas(
+    baselineSchema: Record<string, unknown> | null,
+    currentSchema: Record<string, unknown> | null,
+    rules: CompiledRules
+  ): SchemaChange[] {
+    if (!baselineSchema || !currentSchema) {
+      return [];
+    }
+
+    const before = new Map<string, Set<string>>();
+    const after = new Map<string, Set<string>>();
+    this.flattenSchema(baselineSchema, '$', before, rules);
+    this.flattenSchema(currentSchema, '$', after, rules);
+
+    const changes: SchemaChange[] = [];
+    for (const [path, types] of before) {
+      const currentTypes = after.get(path);
+      if (!currentTypes) {
+        if (!this.isUnknownParent(after, path)) {
+          changes.push({ path, change: 'removed', baseline: this.describeTypes(types) });
+        }
+      } else if (this.isTypeChange(types, currentTypes)) {
+        changes.push({
+          path,
+          change: 'typeChanged',
+          baseline: this.describeTypes(types),
+          current: this.describeTypes(currentTypes),
+        });
+      }
+    }
+    for (const [path, types] of after) {
+      if (!before.has(path) && !this.isUnknownParent(before, path)) {
+        changes.push({ path, change: 'added', current: this.describeTypes(types) });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Collect the types of every property path. Strings are described with their format.
+   */
+  private flattenSchema(
+    schema: Record<string, unknown>,
+    path: string,
+    out: Map<string, Set<string>>,
+    rules: CompiledRules
+  ): void {
+    const type = schema['type'];
+    const types = (Array.isArray(type) ? type : [type ?? 'any']) as string[];
+    const format = schema['format'];
+    out.set(
+      path,
+      new Set(types.map((t) => (t === 'string' && typeof format === 'string' ? `string (${format})` : t)))
+    );
+
+    const properties = (schema['properties'] ?? {}) as Record<string, Record<string, unknown>>;
+    for (const [key, child] of Object.entries(properties)) {
+      if (!rules.fields.has(key)) {
+        this.flattenSchema(child, `${path}.${key}`, out, rules);
+      }
+    }
+
+    const items = schema['items'] as Record<string, unknown> | undefined;
+    if (items) {
+      this.flattenSchema(items, `${path}[]`, out, rules);
+    }
+  }
+
+  /**
+   * A property that was null in one capture did not change type.
+   */
+  private isTypeChange(baseline: Set<string>, current: Set<string>): boolean {
+    const before = [...baseline].filter((type) => type !== 'null' && type !== 'any');
+    const after = [...current].filter((type) => type !== 'null' && type !== 'any');
+    if (before.length === 0 || after.length === 0) {
+      return false;
+    }
+    return before.sort().join('|') !== after.sort().join('|');
+  }
+
+  /**
+   * Whether the closest ancestor of a path that the other side has was only seen as null or empty.
+   */
+  private isUnknownParent(paths: Map<string, Set<string>>, path: string): boolean {
+    let parent = path;
+    while (parent !== '$') {
+      parent = parent.endsWith('[]') ? parent.slice(0, -2) : parent.slice(0, parent.lastIndexOf('.'));
+      const types = paths.get(parent);
+      if (types) {
+        return [...types].every((type) => type === 'null' || type === 'any');
+      }
+    }
+    return false;
+  }
+
+  private describeTypes(types: Set<string>): string {
+    return [...types].sort().join(' | ');
+  }
+
+  private toCall(operation: string, request: CapturedRequest): DiffCall {
+    return {
+      operation,
+      requestId: request.id,
+      sequence: request.sequence,
+      method: request.method,
+      url: request.url,
+    };
+  }
+
+  private parseBody(text: string | undefined): unknown {
+    if (!text) {
+      return undefined;
+    }
+    return this.parseJson(text) ?? text;
+  }
+
+  private parseJson(text: string | undefined): unknown {
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Capture diffing type definitions.
+ */
+
+/**
+ * Values left out of the comparison because they change on every run.
+ */
+export interface VolatileRules {
+  /** Property names ignored at any depth (e.g. Objversion, @odata.etag) */
+  fields: string[];
+  /** Regexes for string values; a changed value is ignored when both sides match the same pattern */
+  valuePatterns: string[];
+}
+
+/**
+ * Call that only one side of the diff made.
+ */
+export interface DiffCall {
+  /** Normalized operation (e.g. GET FlmTaskDetailHandling/AvExeTaskSet(TaskSeq)/JtTaskArray) */
+  operation: string;
+  requestId: string;
+  sequence: number;
+  method: string;
+  url: string;
+}
+
+/**
+ * Status code change between two paired calls. 'failed' marks a call without response.
+ */
+export interface StatusChange {
+  baselineRequestId: string;
+  currentRequestId: string;
+  baselineStatus: number | 'failed';
+  currentStatus: number | 'failed';
+}
+
+/**
+ * Request payload field that was added, removed or sent with another value.
+ */
+export interface FieldChange {
+  /** JSON path in the request body (e.g. $.Lines[0].Quantity) */
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  baseline?: unknown;
+  current?: unknown;
+}
+
+/**
+ * Difference between the response schemas inferred for an operation.
+ */
+export interface SchemaChange {
+  /** Path in the response schema; [] stands for array items (e.g. $.value[].Description) */
+  path: string;
+  change: 'added' | 'removed' | 'typeChanged';
+  /** Type of the property, with its format (e.g. string (date-time), integer | null) */
+  baseline?: string;
+  current?: string;
+}
+
+/**
+ * Operation both sides called, with what changed between them.
+ */
+export interface OperationDiff {
+  operation: string;
+  baselineCount: number;
+  currentCount: number;
+  statusChanges: StatusChange[];
+  requestFieldChanges: FieldChange[];
+  responseSchemaChanges: SchemaChange[];
+}
+
+/**
+ * Comparison of two captures by normalized operation.
+ */
+export interface CaptureDiff {
+  /** One-line overview (e.g. "2 operations changed, 1 call added, 0 calls removed") */
+  summary: string;
+  baselineCallCount: number;
+  currentCallCount: number;
+  /** Calls without a counterpart in the baseline */
+  added: DiffCall[];
+  /** Baseline calls without a counterpart in the current capture */
+  removed: DiffCall[];
+  /** Operations with status, request payload or response schema differences */
+  changed: OperationDiff[];
+  unchangedOperationCount: number;
+}
@@ -0,0 +1,145 @@
+/**
+ * Data-flow tracer tests.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { CapturedRequest } from '../types.js';
+import { DataFlowTracer } from './data-flow-tracer.js';
+
+const SERVICE_URL =
+  'https://erp.example.com/main/ifsapplications/projection/v1/FlmTaskDetailHandling.svc';
+
+function request(
+  id: string,
+  sequence: number,
+  method: string,
+  path: string,
+  body: unknown,
+  responseBody: unknown
+): CapturedRequest {
+  return {
+    id,
+    method,
+    url: `${SERVICE_URL}/${path}`,
+    headers: {},
+    body: body === undefined ? undefined : JSON.stringify(body),
+    timestamp: '2024-01-15T10:30:00.000Z',
+    sequence,
+    state: 'completed',
+    response: {
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      body: responseBody === undefined ? '' : JSON.stringify(responseBody),
+      responseTimeMs: 10,
+    },
+  };
+}
+
+describe('DataFlowTracer', () => {
+  const tracer = new DataFlowTracer();
+
+  it('links response values to the URLs and bodies of later requests', () => {
+    const graph = tracer.trace([
+      request('req-1', 1, 'GET', "AvExeTaskSet?$filter=Contract eq 'MAIN'&$top=1", undefined, {
+        value: [{ TaskSeq: 10234, Contract: 'MAIN', Site: 'A1' }],
+      }),
+      request(
+        'req-2',
+        2,
+        'GET',
+        'AvExeTaskSet(TaskSeq=10234)/JtTaskResourceDemandArray',
+        undefined,
+        { value: [] }
+      ),
+      request(
+        'req-3',
+        3,
+        'POST',
+        'JtTaskSet',
+        { ParentTaskSeq: 10234, Site: 'A1', Contract: 'MAIN', Quantity: 3 },
+        { TaskSeq: 10301 }
+      ),
+    ]);
+
+    expect(graph.nodes.map((node) => node.requestId)).toEqual(['req-1', 'req-2', 'req-3']);
+    expect(graph.edges).toEqual([
+      {
+        value: 10234,
+        producerRequestId: 'req-1',
+        producerPath: 'response.value.Items(0).TaskSeq',
+        consumerRequestId: 'req-2',
+        consumerPath: 'request.url.TaskSeq',
+        matchedBy: 'fieldName',
+        origin: 'server',
+      },
+      {
+        value: 10234,
+        producerRequestId: 'req-1',
+        producerPath: 'response.value.Items(0).TaskSeq',
+        consumerRequestId: 'req-3',
+        consumerPath: 'request.body.ParentTaskSeq',
+        matchedBy: 'distinctiveValue',
+        origin: 'server',
+      },
+      {
+        value: 'A1',
+        producerRequestId: 'req-1',
+        producerPath: 'response.value.Items(0).Site',
+        consumerRequestId: 'req-3',
+        consumerPath: 'request.body.Site',
+        matchedBy: 'fieldName',
+        origin: 'server',
+      },
+      {
+        value: 'MAIN',
+        producerRequestId: 'req-1',
+        producerPath: 'response.value.Items(0).Contract',
+        consumerRequestId: 'req-3',
+        consumerPath: 'request.body.Contract',
+        matchedBy: 'fieldName',
+        origin: 'client',
+      },
+    ]);
+    expect(graph.variables).toEqual([
+      {
+        producerRequestId: 'req-1',
+        producerPath: 'response.value.Items(0).TaskSeq',
+        value: 10234,
+        consumerCount: 2,
+      },
+      {
+        producerRequestId: 'req-1',
+        producerPath: 'response.value.Items(0).Site',
+        value: 'A1',
+        consumerCount: 1,
+      },
+    ]);
+    expect(graph.hardCodedValues).toEqual([
+      { requestId: 'req-1', path: 'request.url.Contract', value: 'MAIN' },
+      { requestId: 'req-3', path: 'request.body.Quantity', value: 3 },
+    ]);
+  });
+
+  it('does not link short values sent under another property name', () => {
+    const graph = tracer.trace([
+      request('req-1', 1, 'GET', 'AvExeTaskSet', undefined, { value: [{ Priority: 3 }] }),
+      request('req-2', 2, 'PATCH', 'AvExeTaskSet(TaskSeq=7)', { Quantity: 3 }, {}),
+    ]);
+
+    expect(graph.edges).toEqual([]);
+    expect(graph.hardCodedValues).toEqual([
+      { requestId: 'req-2', path: 'request.url.TaskSeq', value: 7 },
+      { requestId: 'req-2', path: 'request.body.Quantity', value: 3 },
+    ]);
+  });
+
+  it('starts every trace from an empty value index', () => {
+    tracer.trace([request('req-1', 1, 'GET', 'AvExeTaskSet', undefined, { TaskSeq: 10234 })]);
+    const graph = tracer.trace([
+      request('req-2', 1, 'GET', 'AvExeTaskSet(TaskSeq=10234)', undefined, {}),
+    ]);
+
+    expect(graph.edges).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Data-flow tracing across captured requests.
+ * Finds response values that reappear in later request URLs or bodies.
+ */
+
+import type { CapturedRequest } from '../types.js';
+import type { DataFlowEdge, DataFlowGraph, DataFlowVariable, HardCodedValue } from './types.js';
+import { URL_LITERAL_PATTERN, ValueIndex } from './value-index.js';
+
+/**
+ * A literal sent by a request.
+ */
+interface ConsumedValue {
+  key: string;
+  path: string;
+  value: string | number;
+}
+
+/**
+ * Builds producer → consumer graphs from a capture timeline.
+ */
+export class DataFlowTracer {
+  private readonly values = new ValueIndex();
+
+  /**
+   * Trace value flow through requests (in timeline order).
+   */
+  trace(requests: CapturedRequest[]): DataFlowGraph {
+    this.values.clear();
+    // First request index that sent each value, to tell echoed test data from generated keys
+    const firstSent = new Map<string, number>();
+    const edges: DataFlowEdge[] = [];
+    const hardCodedValues: HardCodedValue[] = [];
+
+    requests.forEach((request, requestIndex) => {
+      for (const consumed of this.getConsumedValues(request)) {
+        const valueKey = this.values.keyOf(consumed.value);
+        const producer = this.values.resolve(consumed.value, consumed.key);
+        const producerRequest = producer ? requests[producer.index] : undefined;
+
+        if (producer && producerRequest) {
+          const sentAt = firstSent.get(valueKey);
+          edges.push({
+            value: consumed.value,
+            producerRequestId: producerRequest.id,
+            producerPath: `response.${producer.path}`,
+            consumerRequestId: request.id,
+            consumerPath: consumed.path,
+            matchedBy: producer.key === consumed.key ? 'fieldName' : 'distinctiveValue',
+            origin: sentAt !== undefined && sentAt <= producer.index ? 'client' : 'server',
+          });
+        } else {
+          hardCodedValues.push({ requestId: request.id, path: consumed.path, value: consumed.value });
+        }
+
+        if (!firstSent.has(valueKey)) {
+          firstSent.set(valueKey, requestIndex);
+        }
+      }
+
+      this.values.register(requestIndex, this.parseJson(request.response?.body));
+    });
+
+    return {
+      nodes: requests.map((r) => ({ requestId: r.id, sequence: r.sequence, method: r.method, url: r.url })),
+      edges,
+      variables: this.collectVariables(edges),
+      hardCodedValues,
+    };
+  }
+
+  /**
+   * Collect server-generated producer values, one per producing path.
+   */
+  private collectVariables(edges: DataFlowEdge[]): DataFlowVariable[] {
+    const variables = new Map<string, DataFlowVariable>();
+
+    for (const edge of edges) {
+      if (edge.origin !== 'server') {
+        continue;
+      }
+
+      const key = `${edge.producerRequestId}:${edge.producerPath}`;
+      const existing = variables.get(key);
+      if (existing) {
+        existing.consumerCount++;
+        continue;
+      }
+
+      variables.set(key, {
+        producerRequestId: edge.producerRequestId,
+        producerPath: edge.producerPath,
+        value: edge.value,
+        consumerCount: 1,
+      });
+    }
+
+    return Array.from(variables.values());
+  }
+
+  /**
+   * Collect literals from key predicates, $filter comparisons and JSON body leaves.
+   */
+  private getConsumedValues(request: CapturedRequest): ConsumedValue[] {
+    const consumed: ConsumedValue[] = [];
+
+    for (const match of this.toTarget(request.url).matchAll(URL_LITERAL_PATTERN)) {
+      const key = match[1] ?? '';
+      consumed.push({
+        key,
+        path: `request.url.${key}`,
+        value: this.values.parseUrlLiteral(match[3] ?? ''),
+      });
+    }
+
+    this.values.walkScalars(this.parseJson(request.body), '', (path, key, value) => {
+      if (value !== '') {
+        consumed.push({ key, path: `request.body.${path}`, value });
+      }
+    });
+
+    return consumed;
+  }
+
+  /**
+   * Decoded path and query of a URL.
+   */
+  private toTarget(url: string): string {
+    try {
+      const parsed = new URL(url);
+      return this.safeDecode(parsed.pathname + parsed.search.replace(/\+/g, ' '));
+    } catch {
+      return url;
+    }
+  }
+
+  private safeDecode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+
+  private parseJson(text: string | undefined): unknown {
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Data-flow tracing type definitions.
+ */
+
+/**
+ * Captured request taking part in the data flow.
+ */
+export interface DataFlowNode {
+  requestId: string;
+  sequence: number;
+  method: string;
+  url: string;
+}
+
+/**
+ * A value returned by one response and sent again by a later request.
+ */
+export interface DataFlowEdge {
+  value: string | number;
+  /** Request whose response returned the value */
+  producerRequestId: string;
+  /** Path of the value in the producing response (e.g. response.value.Items(0).FaultId) */
+  producerPath: string;
+  /** Request that sent the value again */
+  consumerRequestId: string;
+  /** Where the value was sent: request.url.<Property> or request.body.<path> */
+  consumerPath: string;
+  /** How the link was made: same property name, or a value too specific to be a coincidence */
+  matchedBy: 'fieldName' | 'distinctiveValue';
+  /**
+   * 'server' when the value first appeared in a response (generated key, must become a variable);
+   * 'client' when the client had already sent it (test data echoed back by the server)
+   */
+  origin: 'server' | 'client';
+}
+
+/**
+ * Response value consumed by later requests.
+ */
+export interface DataFlowVariable {
+  producerRequestId: string;
+  producerPath: string;
+  value: string | number;
+  consumerCount: number;
+}
+
+/**
+ * Literal sent by a request that no earlier response returned.
+ */
+export interface HardCodedValue {
+  requestId: string;
+  /** request.url.<Property> or request.body.<path> */
+  path: string;
+  value: string | number;
+}
+
+/**
+ * Producer/consumer graph for a capture timeline.
+ */
+export interface DataFlowGraph {
+  nodes: DataFlowNode[];
+  edges: DataFlowEdge[];
+  /** Server-generated values that should become TAR variables */
+  variables: DataFlowVariable[];
+  /** Values that are hard-coded test data */
+  hardCodedValues: HardCodedValue[];
+}
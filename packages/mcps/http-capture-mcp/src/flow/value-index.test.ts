@@ -0,0 +1,76 @@
+/**
+ * Value index tests.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { URL_LITERAL_PATTERN, ValueIndex } from './value-index.js';
+
+describe('ValueIndex', () => {
+  it('keeps the first response that returned a value as its producer', () => {
+    const index = new ValueIndex();
+    index.register(0, { value: [{ TaskSeq: 10234 }, { TaskSeq: 10235 }] });
+    index.register(1, { TaskSeq: 10234 });
+
+    expect(index.resolve(10234, 'TaskSeq')).toEqual({
+      index: 0,
+      path: 'value.Items(0).TaskSeq',
+      key: 'TaskSeq',
+    });
+    expect(index.resolve(10235, 'TaskSeq')?.path).toBe('value.Items(1).TaskSeq');
+    expect(index.resolve('10234', 'TaskSeq')).toBeNull();
+    expect(index.resolve(true, 'TaskSeq')).toBeNull();
+  });
+
+  it('links short values only when the property names agree', () => {
+    const index = new ValueIndex();
+    index.register(0, { Priority: 3, Site: 'A1', Description: 'Replace filter' });
+
+    expect(index.resolve(3, 'Priority')?.key).toBe('Priority');
+    expect(index.resolve(3, 'Quantity')).toBeNull();
+    expect(index.resolve('A1', 'Contract')).toBeNull();
+    expect(index.resolve('Replace filter', 'Note')?.key).toBe('Description');
+  });
+
+  it('treats long strings and large numbers as distinctive', () => {
+    const index = new ValueIndex();
+
+    expect(index.isDistinctive(100)).toBe(true);
+    expect(index.isDistinctive(-250)).toBe(true);
+    expect(index.isDistinctive(99)).toBe(false);
+    expect(index.isDistinctive('MAIN')).toBe(true);
+    expect(index.isDistinctive('A1')).toBe(false);
+    expect(index.isDistinctive('TRUE')).toBe(false);
+  });
+
+  it('walks addressable scalars down to a limited depth', () => {
+    const visited: string[] = [];
+    new ValueIndex().walkScalars(
+      {
+        '@odata.etag': 'W/"1"',
+        TaskSeq: 1,
+        Urgent: true,
+        Lines: [{ LineNo: 1, Deep: { a: { b: { c: 'too deep' } } } }],
+      },
+      '',
+      (path) => visited.push(path)
+    );
+
+    expect(visited).toEqual(['TaskSeq', 'Lines.Items(0).LineNo']);
+  });
+
+  it('parses URL literals matched in key predicates and filters', () => {
+    const index = new ValueIndex();
+    const url = "AvExeTaskSet(TaskSeq=10234,Site='O''Hara')?$filter=Contract eq 'MAIN'&$top=10";
+
+    const matches = Array.from(url.matchAll(URL_LITERAL_PATTERN), (match) => [
+      match[1],
+      index.parseUrlLiteral(match[3] ?? ''),
+    ]);
+
+    expect(matches).toEqual([
+      ['TaskSeq', 10234],
+      ['Site', "O'Hara"],
+      ['Contract', 'MAIN'],
+    ]);
+  });
+});
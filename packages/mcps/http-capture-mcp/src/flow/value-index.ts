@@ -0,0 +1,135 @@
+/**
+ * Value index for linking response values to later requests.
+ * Shared by TAR generation and data-flow tracing so both link values the same way.
+ */
+
+/**
+ * Matches literals in key predicates and $filter comparisons: Key=1, Key='A', Key eq 'A'.
+ * Groups: 1 = property name, 2 = operator, 3 = literal.
+ */
+export const URL_LITERAL_PATTERN = /(?<!\$)\b(\w+)(\s*=\s*|\s+eq\s+)('(?:[^']|'')*'|-?\d+(?:\.\d+)?)(?=[\s,)&]|$)/g;
+
+/**
+ * A scalar value found in a response.
+ */
+export interface ValueProducer {
+  /** Index of the producing call */
+  index: number;
+  /** TAR access path inside the response (e.g. value.Items(0).FaultId) */
+  path: string;
+  /** Property name holding the value */
+  key: string;
+}
+
+/**
+ * Indexes scalar response values by value so later calls can find where they came from.
+ */
+export class ValueIndex {
+  private producers = new Map<string, ValueProducer>();
+
+  /**
+   * Remove all registered values.
+   */
+  clear(): void {
+    this.producers = new Map();
+  }
+
+  /**
+   * Register the scalar values of a response.
+   */
+  register(index: number, data: unknown): void {
+    this.walkScalars(data, '', (path, key, value) => {
+      const valueKey = this.keyOf(value);
+      // The first response to return a value is its origin; later responses only echo it
+      if (this.producers.has(valueKey)) {
+        return;
+      }
+      this.producers.set(valueKey, { index, path, key });
+    });
+  }
+
+  /**
+   * Find the response a consumed value came from.
+   * Short or common values only link when the producing and consuming field names agree.
+   */
+  resolve(value: unknown, consumerKey: string): ValueProducer | null {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return null;
+    }
+
+    const producer = this.producers.get(this.keyOf(value));
+    if (!producer) {
+      return null;
+    }
+
+    if (producer.key !== consumerKey && !this.isDistinctive(value)) {
+      return null;
+    }
+
+    return producer;
+  }
+
+  /**
+   * Check whether a value is specific enough to link without a matching field name.
+   */
+  isDistinctive(value: string | number): boolean {
+    if (typeof value === 'number') {
+      return Math.abs(value) >= 100;
+    }
+    return value.length >= 4 && !/^(true|false|null)$/i.test(value);
+  }
+
+  /**
+   * Key identifying a value independent of where it was found.
+   */
+  keyOf(value: string | number): string {
+    return `${typeof value}:${String(value)}`;
+  }
+
+  /**
+   * Parse a literal matched by URL_LITERAL_PATTERN.
+   */
+  parseUrlLiteral(literal: string): string | number {
+    return literal.startsWith("'") ? literal.slice(1, -1).replace(/''/g, "'") : Number(literal);
+  }
+
+  /**
+   * Walk scalar leaves of a JSON value using TAR access paths.
+   */
+  walkScalars(
+    node: unknown,
+    path: string,
+    visit: (path: string, key: string, value: string | number) => void,
+    depth = 0
+  ): void {
+    if (depth > 4) {
+      return;
+    }
+
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => {
+        const itemPath = path ? `${path}.Items(${index})` : `Items(${index})`;
+        this.walkScalars(item, itemPath, visit, depth + 1);
+      });
+      return;
+    }
+
+    if (typeof node !== 'object' || node === null) {
+      return;
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      // Annotations and non-identifier keys cannot be addressed in TAR paths
+      if (!/^[A-Za-z_]\w*$/.test(key)) {
+        continue;
+      }
+
+      const childPath = path ? `${path}.${key}` : key;
+      if (typeof value === 'string' || typeof value === 'number') {
+        visit(childPath, key, value);
+      } else {
+        this.walkScalars(value, childPath, visit, depth + 1);
+      }
+    }
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * TAR assertion suggestions.
+ * Picks the stable business fields of a response and writes them as Assert statements.
+ */
+
+import type { SkippedAssertionField, SuggestedAssertion } from '../types.js';
+
+/**
+ * Field names whose values change between runs and make poor assertions.
+ */
+const VOLATILE_FIELD_PATTERN = /etag|objversion|objid|objkey|luname|keyref|timestamp|date|time/i;
+
+/**
+ * Numeric fields filled from a sequence when a record is created (TaskSeq, LineNo, FaultId).
+ */
+const GENERATED_KEY_FIELD_PATTERN = /(Seq|No|Id)$/;
+
+/**
+ * Field names preferred for assertions, in priority order.
+ */
+const PREFERRED_ASSERT_FIELDS = [/^Objstate$/, /State$/, /Status$/, /Code$/, /Type$/, /Name$/, /Description$/];
+
+/**
+ * Options for suggesting assertions.
+ */
+export interface AssertionSuggestionOptions {
+  /** Most assertions per asserted entity */
+  limit: number;
+  /** Collection items to assert on, starting at value.Items(0) (default: 1) */
+  itemCount?: number;
+  /** Values to leave out, such as keys generated by earlier calls */
+  isExcluded?: (value: string | number) => boolean;
+}
+
+/**
+ * Assertions suggested for a response.
+ */
+export interface AssertionSuggestions {
+  /** Asserted entities as variable paths (e.g. taskResponse.value.Items(0)) */
+  roots: string[];
+  /** Assertions in rank order per entity: state and status fields first */
+  assertions: SuggestedAssertion[];
+  skipped: SkippedAssertionField[];
+}
+
+/**
+ * Suggests TAR assertions for captured response data.
+ */
+export class AssertionSuggester {
+  /**
+   * Check whether a response has an entity to assert on.
+   */
+  hasAssertionRoot(data: unknown): boolean {
+    return this.getRoots(data, 1).length > 0;
+  }
+
+  /**
+   * Suggest assertions on the entity a response returned, or on the first items of a collection.
+   */
+  suggest(variable: string, data: unknown, options: AssertionSuggestionOptions): AssertionSuggestions {
+    const roots = this.getRoots(data, options.itemCount ?? 1);
+    const assertions: SuggestedAssertion[] = [];
+    const skipped: SkippedAssertionField[] = [];
+
+    for (const root of roots) {
+      const prefix = root.path ? `${variable}.${root.path}` : variable;
+      const candidates: Array<[string, string | number | boolean]> = [];
+
+      for (const [key, value] of Object.entries(root.data)) {
+        if (!/^[A-Za-z_]\w*$/.test(key) || !this.isScalar(value)) {
+          continue;
+        }
+
+        const path = root.path ? `${root.path}.${key}` : key;
+        const reason = this.getSkipReason(key, value, options);
+        if (reason) {
+          skipped.push({ path, reason });
+        } else {
+          candidates.push([key, value]);
+        }
+      }
+
+      const ranked = candidates
+        .sort(([a], [b]) => this.assertPriority(a) - this.assertPriority(b))
+        .slice(0, options.limit);
+
+      for (const [key, value] of ranked) {
+        const field = `${prefix}.${key}`;
+        assertions.push({
+          statement: `${typeof value === 'string' ? `Assert {%${field}}` : `Assert {$${field}}`} == ${JSON.stringify(value)}`,
+          path: root.path ? `${root.path}.${key}` : key,
+          root: prefix,
+          value,
+        });
+      }
+    }
+
+    return {
+      roots: roots.map((root) => (root.path ? `${variable}.${root.path}` : variable)),
+      assertions,
+      skipped,
+    };
+  }
+
+  /**
+   * Render assertions as script lines with the == operators aligned.
+   */
+  render(assertions: SuggestedAssertion[]): string[] {
+    const statements = assertions.map((a) => {
+      const index = a.statement.indexOf(' == ');
+      return { left: a.statement.slice(0, index), right: a.statement.slice(index + ' == '.length) };
+    });
+    const width = Math.max(...statements.map((s) => s.left.length));
+    return statements.map((s) => `${s.left.padEnd(width)} == ${s.right}`);
+  }
+
+  /**
+   * Render the assertions as one AssertJson per entity, listing the expected fields.
+   */
+  renderAssertJson(assertions: SuggestedAssertion[]): string[] {
+    const expected = new Map<string, Record<string, unknown>>();
+    for (const assertion of assertions) {
+      const fields = expected.get(assertion.root) ?? {};
+      fields[assertion.path.split('.').pop() ?? assertion.path] = assertion.value;
+      expected.set(assertion.root, fields);
+    }
+
+    return Array.from(expected.entries()).flatMap(([root, fields], index) => [
+      ...(index > 0 ? [''] : []),
+      `AssertJson ${root}`,
+      ...JSON.stringify(fields, null, 4).split('\n'),
+    ]);
+  }
+
+  /**
+   * Find the objects to assert on: the entity itself or the first collection items.
+   */
+  private getRoots(data: unknown, itemCount: number): Array<{ path: string; data: Record<string, unknown> }> {
+    if (!this.isPlainObject(data)) {
+      return [];
+    }
+
+    const collection = data['value'];
+    if (!Array.isArray(collection)) {
+      return [{ path: '', data }];
+    }
+
+    const roots: Array<{ path: string; data: Record<string, unknown> }> = [];
+    collection.slice(0, itemCount).forEach((item: unknown, index) => {
+      if (this.isPlainObject(item)) {
+        roots.push({ path: `value.Items(${index})`, data: item });
+      }
+    });
+    return roots;
+  }
+
+  private getSkipReason(
+    key: string,
+    value: string | number | boolean,
+    options: AssertionSuggestionOptions
+  ): SkippedAssertionField['reason'] | null {
+    if (VOLATILE_FIELD_PATTERN.test(key) || (typeof value === 'number' && GENERATED_KEY_FIELD_PATTERN.test(key))) {
+      return 'volatileField';
+    }
+    if (typeof value === 'string' && this.looksGenerated(value)) {
+      return 'generatedValue';
+    }
+    if (typeof value !== 'boolean' && options.isExcluded?.(value)) {
+      return 'excluded';
+    }
+    return null;
+  }
+
+  /**
+   * Lower numbers sort first; unknown fields sort last.
+   */
+  private assertPriority(key: string): number {
+    const index = PREFERRED_ASSERT_FIELDS.findIndex((pattern) => pattern.test(key));
+    return index === -1 ? PREFERRED_ASSERT_FIELDS.length : index;
+  }
+
+  /**
+   * Check whether a string looks like a generated key or timestamp.
+   */
+  private looksGenerated(value: string): boolean {
+    return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)
+      || /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)
+      || /^[0-9A-F]{32}$/.test(value);
+  }
+
+  /**
+   * Non-empty strings, numbers and booleans can be compared with ==.
+   */
+  private isScalar(value: unknown): value is string | number | boolean {
+    return (typeof value === 'string' && value.length > 0) || typeof value === 'number' || typeof value === 'boolean';
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * TAR generator tests.
+ * Generated documents are checked with the validators of the TAR validator MCP.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { TarParser } from '../../../tar-validator-mcp/src/parser/tar-parser.js';
+import { AaaValidator } from '../../../tar-validator-mcp/src/validators/aaa-validator.js';
+import { CommandValidator } from '../../../tar-validator-mcp/src/validators/command-validator.js';
+import { MetadataValidator } from '../../../tar-validator-mcp/src/validators/metadata-validator.js';
+import { NamingValidator } from '../../../tar-validator-mcp/src/validators/naming-validator.js';
+import { PatternValidator } from '../../../tar-validator-mcp/src/validators/pattern-validator.js';
+import type { CapturedRequest } from '../types.js';
+import { TarGenerator } from './tar-generator.js';
+
+const SERVICE_URL = 'https://erp.example.com/main/ifsapplications/projection/v1/FlmTaskDetailHandling.svc';
+
+function jsonCall(
+  sequence: number,
+  method: string,
+  path: string,
+  body: unknown,
+  responseBody: unknown
+): CapturedRequest {
+  return {
+    id: `req-${sequence}`,
+    method,
+    url: `${SERVICE_URL}/${path}`,
+    headers: {},
+    body: body === undefined ? undefined : JSON.stringify(body),
+    contentType: 'application/json',
+    timestamp: new Date(Date.UTC(2024, 0, 15, 10, 30, sequence)).toISOString(),
+    sequence,
+    state: 'completed',
+    response: {
+      status: method === 'POST' ? 201 : 200,
+      statusText: method === 'POST' ? 'Created' : 'OK',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(responseBody),
+      contentType: 'application/json',
+      responseTimeMs: 12,
+    },
+  };
+}
+
+const CAPTURE: CapturedRequest[] = [
+  jsonCall(
+    1,
+    'POST',
+    'AvExeTaskSet',
+    { Description: 'Replace filter' },
+    { TaskSeq: 1234567, ResourceId: 'RES-99', Objstate: 'PLANNED', Description: 'Replace filter' }
+  ),
+  jsonCall(
+    2,
+    'POST',
+    'TaskResourceSet',
+    { TaskSeq: 1234567, ResourceId: 'RES-99', Hours: 2 },
+    { TaskSeq: 1234567, ResourceSeq: 5, Hours: 2 }
+  ),
+  jsonCall(3, 'GET', 'AvExeTaskSet(TaskSeq=1234567)', undefined, {
+    TaskSeq: 1234567,
+    Objstate: 'PLANNED',
+  }),
+];
+
+describe('TarGenerator', () => {
+  it('substitutes linked numbers with {$} and linked strings with {%}', () => {
+    const { content } = new TarGenerator().generate(CAPTURE, { type: 'Test Case', owner: 'Maintenance' });
+
+    expect(content).toContain('"TaskSeq": {$taskSeq},');
+    expect(content).toContain('"ResourceId": {%resourceId},');
+    expect(content).toContain('AvExeTaskSet(TaskSeq={$taskSeq})');
+  });
+
+  it('generates a Test Case that passes the TAR validator', async () => {
+    const { content } = new TarGenerator().generate(CAPTURE, {
+      type: 'Test Case',
+      owner: 'Maintenance',
+      mode: 'Standalone',
+    });
+
+    const doc = await new TarParser().parse(content);
+    const issues = [
+      ...new MetadataValidator().validate(doc),
+      ...new AaaValidator().validate(doc),
+      ...new NamingValidator().validate(doc).issues,
+      ...new PatternValidator().validate(doc).issues,
+      ...new CommandValidator().validate(doc),
+    ];
+
+    expect(doc.fileType).toBe('Test Case');
+    expect(issues.filter((issue) => issue.severity === 'error')).toEqual([]);
+  });
+});
@@ -0,0 +1,541 @@
+/**
+ * TAR document generator.
+ * Converts captured OData traffic into .mkd Test Cases and Test Utils.
+ */
+
+import { URL_LITERAL_PATTERN, ValueIndex } from '../flow/value-index.js';
+import type { CapturedRequest, GeneratedTar, TarGenerationOptions } from '../types.js';
+import { AssertionSuggester } from './assertion-suggester.js';
+
+/**
+ * TAR server call commands keyed by HTTP method.
+ */
+const TAR_COMMANDS: Record<string, string> = {
+  GET: 'Get',
+  POST: 'Post',
+  PATCH: 'Patch',
+  PUT: 'Modify',
+  DELETE: 'Delete',
+};
+
+/**
+ * TAR commands for calls that send a file as the request body (e.g. a PUT to .../FileData).
+ */
+const TAR_BLOB_COMMANDS: Record<string, string> = {
+  PUT: 'ModifyBlob',
+  PATCH: 'PatchBlob',
+};
+
+/**
+ * Names that cannot be used as TAR variables (reserved or built-in).
+ */
+const RESERVED_VARIABLE_NAMES = new Set([
+  'test', 'result', 'response', 'request', 'error', 'data', 'input', 'header', 'globalconfig',
+]);
+
+/**
+ * Maximum number of generated Assert statements.
+ */
+const MAX_ASSERTIONS = 3;
+
+/**
+ * Marker used to splice substitution patterns into serialized JSON.
+ */
+const SUBSTITUTION_MARKER = '__TAR_SUBSTITUTION__';
+
+/**
+ * A single server call in the generated script.
+ */
+interface TarStep {
+  request: CapturedRequest;
+  command: string;
+  target: string;
+  intoVar: string;
+  responseData: unknown;
+  /** Lines emitted before the server call (RemoveJson/ApplyJson) */
+  preamble: string[];
+  /** Body lines emitted after the server call */
+  bodyLines: string[];
+  /** Values extracted from the response into variables */
+  evals: Array<{ path: string; variable: string }>;
+}
+
+/**
+ * Generates TAR documents from captured requests.
+ */
+export class TarGenerator {
+  private usedVariables = new Set<string>();
+  private readonly values = new ValueIndex();
+  private readonly assertionSuggester = new AssertionSuggester();
+  private linkedVariables = new Map<string, string>();
+  private linkedValueKeys = new Set<string>();
+  private linkedValues: GeneratedTar['linkedValues'] = [];
+
+  /**
+   * Generate a TAR document from captured requests (in timeline order).
+   */
+  generate(requests: CapturedRequest[], options: TarGenerationOptions): GeneratedTar {
+    this.usedVariables = new Set();
+    this.values.clear();
+    this.linkedVariables = new Map();
+    this.linkedValueKeys = new Set();
+    this.linkedValues = [];
+
+    const steps: TarStep[] = [];
+    const skippedRequestIds: string[] = [];
+
+    for (const request of requests) {
+      const command = this.commandFor(request);
+      if (!command) {
+        skippedRequestIds.push(request.id);
+        continue;
+      }
+
+      const step = this.buildStep(request, command, steps);
+      steps.push(step);
+      this.values.register(steps.length - 1, step.responseData);
+    }
+
+    if (steps.length === 0) {
+      throw new Error('None of the selected requests can be converted to TAR commands');
+    }
+
+    const content = options.type === 'Test Case'
+      ? this.renderTestCase(steps, options)
+      : this.renderTestUtil(steps, options);
+
+    return {
+      content,
+      variables: [...this.usedVariables],
+      serverCallCount: steps.length,
+      linkedValues: this.linkedValues,
+      skippedRequestIds,
+    };
+  }
+
+  /**
+   * Get the variable a generated script stores the response of a request in (before de-duplication).
+   */
+  getVariableName(request: CapturedRequest): string {
+    return this.variableBaseName(this.toTarget(request.url), request.method, this.parseJson(request.response?.body));
+  }
+
+  /**
+   * Build a step for a captured request, linking values from earlier steps.
+   */
+  private buildStep(request: CapturedRequest, command: string, previous: TarStep[]): TarStep {
+    const responseData = this.parseJson(request.response?.body);
+    const rawTarget = this.toTarget(request.url);
+    const intoVar = this.uniqueVariable(this.variableBaseName(rawTarget, request.method, responseData));
+
+    const step: TarStep = {
+      request,
+      command,
+      target: this.substituteUrl(rawTarget, previous),
+      intoVar,
+      responseData,
+      preamble: [],
+      bodyLines: [],
+      evals: [],
+    };
+
+    if (request.body && command !== 'Get' && command !== 'Delete') {
+      this.buildBody(step, request.body, previous);
+    }
+
+    const file = request.files?.[0];
+    if (file && this.isBlobCommand(command)) {
+      const size = file.size !== undefined ? `, ${file.size} bytes` : '';
+      step.preamble.push(`// Upload: ${file.filename ?? 'file'} (${file.mimeType}${size})`);
+    }
+
+    return step;
+  }
+
+  /**
+   * Pick the TAR command of a request: binary uploads use the Blob commands.
+   */
+  private commandFor(request: CapturedRequest): string | undefined {
+    const method = request.method.toUpperCase();
+    const isBinaryUpload = request.files?.length === 1 && request.files[0]?.fieldName === undefined;
+    return (isBinaryUpload ? TAR_BLOB_COMMANDS[method] : undefined) ?? TAR_COMMANDS[method];
+  }
+
+  private isBlobCommand(command: string): boolean {
+    return Object.values(TAR_BLOB_COMMANDS).includes(command);
+  }
+
+  /**
+   * Build the request body, reusing an earlier response via RemoveJson when possible.
+   */
+  private buildBody(step: TarStep, rawBody: string, previous: TarStep[]): void {
+    const payload = this.parseJson(rawBody);
+
+    if (!this.isPlainObject(payload)) {
+      step.bodyLines = payload === undefined ? rawBody.split('\n') : this.renderJson(payload, previous);
+      return;
+    }
+
+    const body = this.withoutAnnotations(payload);
+    const source = this.findPayloadSource(body, previous);
+
+    if (!source) {
+      step.bodyLines = this.renderJson(body, previous);
+      return;
+    }
+
+    const sourceData = source.responseData as Record<string, unknown>;
+    const removed = Object.keys(sourceData).filter((key) => !(key in body));
+    const changed: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(body)) {
+      if (JSON.stringify(sourceData[key]) !== JSON.stringify(value)) {
+        changed[key] = value;
+      }
+    }
+
+    const payloadVar = this.uniqueVariable(step.intoVar.replace(/(Array)?Response\d*$/, 'Payload'));
+    if (removed.length > 0) {
+      step.preamble.push(`RemoveJson ${removed.join(', ')} Using ${source.intoVar} Into ${payloadVar}`);
+    } else {
+      step.preamble.push(`CopyJson ${source.intoVar} Into ${payloadVar}`);
+    }
+
+    if (Object.keys(changed).length > 0) {
+      step.preamble.push(`ApplyJson Using ${payloadVar} Into ${payloadVar}`);
+      step.preamble.push(...this.renderJson(changed, previous));
+    }
+
+    step.bodyLines = [`{$${payloadVar}}`];
+  }
+
+  /**
+   * Find an earlier single-entity response that the payload was built from.
+   */
+  private findPayloadSource(body: Record<string, unknown>, previous: TarStep[]): TarStep | null {
+    const keys = Object.keys(body);
+    if (keys.length < 2) {
+      return null;
+    }
+
+    for (let i = previous.length - 1; i >= 0; i--) {
+      const candidate = previous[i];
+      if (!candidate || !this.isPlainObject(candidate.responseData) || 'value' in candidate.responseData) {
+        continue;
+      }
+
+      const data = candidate.responseData;
+      if (!keys.every((key) => key in data)) {
+        continue;
+      }
+
+      const unchanged = keys.filter((key) => JSON.stringify(data[key]) === JSON.stringify(body[key]));
+      if (unchanged.length * 2 >= keys.length) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a consumed value to a variable defined from an earlier response.
+   */
+  private resolveLink(value: unknown, consumerKey: string, previous: TarStep[]): string | null {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return null;
+    }
+
+    const producer = this.values.resolve(value, consumerKey);
+    const producerStep = producer ? previous[producer.index] : undefined;
+    if (!producer || !producerStep) {
+      return null;
+    }
+
+    this.linkedValueKeys.add(this.values.keyOf(value));
+    const linkKey = `${producer.index}:${producer.path}`;
+    const existing = this.linkedVariables.get(linkKey);
+    if (existing) {
+      return existing;
+    }
+
+    const variable = this.uniqueVariable(this.toCamelCase(producer.key));
+    producerStep.evals.push({ path: producer.path, variable });
+    this.linkedVariables.set(linkKey, variable);
+    this.linkedValues.push({
+      variable,
+      producerRequestId: producerStep.request.id,
+      path: `${producerStep.intoVar}.${producer.path}`,
+    });
+
+    return variable;
+  }
+
+  /**
+   * Replace literals in key predicates and $filter comparisons with substitutions.
+   */
+  private substituteUrl(target: string, previous: TarStep[]): string {
+    return target.replace(URL_LITERAL_PATTERN, (match, key: string, operator: string, literal: string) => {
+      const isString = literal.startsWith("'");
+      const value = this.values.parseUrlLiteral(literal);
+      const variable = this.resolveLink(value, key, previous);
+
+      if (!variable) {
+        return match;
+      }
+
+      return `${key}${operator}${isString ? `{#${variable}}` : `{$${variable}}`}`;
+    });
+  }
+
+  /**
+   * Render a JSON body, substituting linked string values with {%variable} and numbers with {$variable}.
+   */
+  private renderJson(value: unknown, previous: TarStep[]): string[] {
+    const substitutions: string[] = [];
+
+    const replaceLeaves = (node: unknown, key: string): unknown => {
+      if (Array.isArray(node)) {
+        return node.map((item) => replaceLeaves(item, key));
+      }
+      if (this.isPlainObject(node)) {
+        const result: Record<string, unknown> = {};
+        for (const [childKey, child] of Object.entries(node)) {
+          result[childKey] = replaceLeaves(child, childKey);
+        }
+        return result;
+      }
+
+      const variable = this.resolveLink(node, key, previous);
+      if (!variable) {
+        return node;
+      }
+      substitutions.push(typeof node === 'string' ? `{%${variable}}` : `{$${variable}}`);
+      return `${SUBSTITUTION_MARKER}${substitutions.length - 1}`;
+    };
+
+    const serialized = JSON.stringify(replaceLeaves(value, ''), null, 4).replace(
+      new RegExp(`"${SUBSTITUTION_MARKER}(\\d+)"`, 'g'),
+      (_match, index: string) => substitutions[Number(index)] ?? 'null'
+    );
+
+    return serialized.split('\n');
+  }
+
+  /**
+   * Render a Test Case with Arrange/Act/Assert sections.
+   */
+  private renderTestCase(steps: TarStep[], options: TarGenerationOptions): string {
+    // The last modifying call is the action under test; reads after it verify the result
+    let actIndex = -1;
+    steps.forEach((step, index) => {
+      if (step.command !== 'Get') {
+        actIndex = index;
+      }
+    });
+    if (actIndex === -1) {
+      actIndex = steps.length - 1;
+    }
+
+    const arrange = steps.slice(0, actIndex);
+    const act = steps.slice(actIndex, actIndex + 1);
+    const verify = steps.slice(actIndex + 1);
+
+    const lines = this.renderFrontmatter(options);
+    lines.push('## Description', options.description ?? this.defaultDescription(steps), '');
+
+    if (arrange.length > 0) {
+      lines.push('## Arrange', ...this.renderCodeBlock(arrange.flatMap((s) => this.renderStep(s))), '');
+    }
+
+    lines.push('## Act', ...this.renderCodeBlock(act.flatMap((s) => this.renderStep(s))), '');
+
+    const assertLines = verify.flatMap((s) => this.renderStep(s));
+    assertLines.push(...this.renderAssertions([...act, ...verify]));
+    lines.push('## Assert', ...this.renderCodeBlock(assertLines));
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Render a Test Util that outputs the last response.
+   */
+  private renderTestUtil(steps: TarStep[], options: TarGenerationOptions): string {
+    const lines = this.renderFrontmatter({ ...options, mode: undefined });
+    lines.push('## Description', options.description ?? this.defaultDescription(steps), '');
+
+    const codeLines = steps.flatMap((s) => this.renderStep(s));
+    const last = steps[steps.length - 1];
+    if (last) {
+      codeLines.push('', `Output ${last.intoVar}`);
+    }
+    lines.push(...this.renderCodeBlock(codeLines));
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Render YAML frontmatter.
+   */
+  private renderFrontmatter(options: TarGenerationOptions): string[] {
+    const lines = ['---', `type: ${options.type}`, `owner: ${options.owner}`];
+    if (options.type === 'Test Case') {
+      lines.push(`mode: ${options.mode ?? 'Standalone'}`);
+    }
+    lines.push('---', '');
+    return lines;
+  }
+
+  /**
+   * Render a single server call with its preamble, body and Evals.
+   */
+  private renderStep(step: TarStep): string[] {
+    const lines = ['', ...step.preamble];
+    lines.push(`${step.command} ${step.target} Into ${step.intoVar}`);
+    lines.push(...step.bodyLines);
+    for (const { path, variable } of step.evals) {
+      lines.push(`Eval ${step.intoVar}.${path} Into ${variable}`);
+    }
+    return lines;
+  }
+
+  /**
+   * Render Assert statements for stable fields of the last response with data.
+   */
+  private renderAssertions(steps: TarStep[]): string[] {
+    const target = [...steps].reverse().find((s) => this.assertionSuggester.hasAssertionRoot(s.responseData));
+    if (!target) {
+      return ['', '// No response data was captured for the Act step - add a Get to verify the result'];
+    }
+
+    // Values linked between calls are generated keys
+    const { roots, assertions } = this.assertionSuggester.suggest(target.intoVar, target.responseData, {
+      limit: MAX_ASSERTIONS,
+      isExcluded: (value) => this.isLinkedValue(value),
+    });
+
+    if (assertions.length === 0) {
+      return ['', `Assert {%${roots[0] ?? target.intoVar}} != null`];
+    }
+
+    return ['', ...this.assertionSuggester.render(assertions)];
+  }
+
+  /**
+   * Wrap lines in a cs code block, trimming leading/trailing blank lines.
+   */
+  private renderCodeBlock(lines: string[]): string[] {
+    const trimmed = [...lines];
+    while (trimmed[0] === '') trimmed.shift();
+    while (trimmed[trimmed.length - 1] === '') trimmed.pop();
+    return ['```cs', ...trimmed, '```'];
+  }
+
+  /**
+   * Default description listing the captured calls.
+   */
+  private defaultDescription(steps: TarStep[]): string {
+    const calls = steps.map((s) => `${s.request.method} ${this.toTarget(s.request.url).split('?')[0]}`);
+    return `Generated from ${steps.length} captured request(s): ${calls.join(', ')}.`;
+  }
+
+  /**
+   * Convert a captured URL to a TAR target relative to the projection service.
+   */
+  private toTarget(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return url;
+    }
+
+    const path = this.safeDecode(parsed.pathname);
+    const serviceMatch = path.match(/[^/]+\.svc(?:\/|$)/);
+    const relative = serviceMatch?.index !== undefined ? path.slice(serviceMatch.index) : path.replace(/^\//, '');
+    const query = parsed.search ? this.safeDecode(parsed.search.replace(/\+/g, ' ')) : '';
+
+    return relative + query;
+  }
+
+  /**
+   * Derive the 'Into' variable name from the entity set or action in a target.
+   */
+  private variableBaseName(target: string, method: string, responseData: unknown): string {
+    const path = target.split('?')[0] ?? '';
+    const segment = path.split('/').filter(Boolean).pop() ?? '';
+    let name = segment.replace(/\(.*$/, '').replace(/\.svc$/, 'Service').replace(/\W/g, '');
+
+    if (name.length > 3) {
+      name = name.replace(/Set$/, '').replace(/Array$/, '');
+    }
+    if (!name) {
+      name = 'call';
+    }
+
+    const isCollection = method.toUpperCase() === 'GET'
+      && this.isPlainObject(responseData)
+      && Array.isArray(responseData['value']);
+
+    return `${this.toCamelCase(name)}${isCollection ? 'ArrayResponse' : 'Response'}`;
+  }
+
+  /**
+   * Reserve a unique, non-reserved variable name.
+   */
+  private uniqueVariable(base: string): string {
+    let name = base;
+    if (RESERVED_VARIABLE_NAMES.has(name.toLowerCase())) {
+      name = `${name}Value`;
+    }
+
+    let candidate = name;
+    let counter = 2;
+    while (this.usedVariables.has(candidate)) {
+      candidate = `${name}${counter}`;
+      counter++;
+    }
+
+    this.usedVariables.add(candidate);
+    return candidate;
+  }
+
+  /**
+   * Check whether a value flowed between calls (generated keys make poor assertions).
+   */
+  private isLinkedValue(value: unknown): boolean {
+    return (typeof value === 'string' || typeof value === 'number') && this.linkedValueKeys.has(this.values.keyOf(value));
+  }
+
+  private withoutAnnotations(obj: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(obj).filter(([key]) => !key.startsWith('@odata.')));
+  }
+
+  private toCamelCase(name: string): string {
+    const joined = name.replace(/[_-]+(\w)/g, (_match, char: string) => char.toUpperCase());
+    // Lower-case a leading acronym as a whole: ID -> id, URLPath -> urlPath
+    return joined.replace(/^[A-Z]+(?=[A-Z][a-z]|$)|^[A-Z]/, (prefix) => prefix.toLowerCase());
+  }
+
+  private safeDecode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+
+  private parseJson(text: string | undefined): unknown {
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
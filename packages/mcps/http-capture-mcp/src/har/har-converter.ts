@@ -0,0 +1,198 @@
+/**
+ * HAR 1.2 conversion for capture sessions.
+ * Exports captured requests to HAR and loads HAR files back as captured requests.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { CapturedRequest, RequestCaptureConfig } from '../types.js';
+import type { HarDocument, HarEntry, HarNameValue } from './types.js';
+
+/**
+ * Redactors applied to imported HAR data.
+ */
+export type HarRedactors = Pick<RequestCaptureConfig, 'headerRedactor' | 'bodyRedactor'>;
+
+/**
+ * Converts between captured requests and HAR documents.
+ */
+export class HarConverter {
+  private readonly redactors: HarRedactors;
+
+  constructor(redactors: HarRedactors) {
+    this.redactors = redactors;
+  }
+
+  /**
+   * Convert captured requests to a HAR document.
+   * Requests are already redacted at capture time and cookies are never exported.
+   */
+  toHar(requests: CapturedRequest[], comment?: string): HarDocument {
+    return {
+      log: {
+        version: '1.2',
+        creator: {
+          name: 'http-capture-mcp',
+          version: '1.0.0',
+        },
+        comment,
+        entries: requests.map((request) => this.toEntry(request)),
+      },
+    };
+  }
+
+  /**
+   * Convert a HAR document to captured requests, redacting sensitive data.
+   */
+  fromHar(document: unknown): CapturedRequest[] {
+    const entries = this.getEntries(document);
+
+    const requests = entries.map((entry, index) => {
+      if (!entry?.request?.url || !entry.request.method) {
+        throw new Error(`Invalid HAR file: entry ${index} is missing request method or URL`);
+      }
+      return this.fromEntry(entry, index + 1);
+    });
+
+    return requests.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  /**
+   * Convert a captured request to a HAR entry.
+   */
+  private toEntry(request: CapturedRequest): HarEntry {
+    const response = request.response;
+    const responseTime = response?.responseTimeMs ?? 0;
+
+    return {
+      startedDateTime: request.timestamp,
+      time: responseTime,
+      request: {
+        method: request.method,
+        url: request.url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: this.toNameValues(request.headers),
+        queryString: this.toQueryString(request.url),
+        postData: request.body !== undefined ? {
+          mimeType: request.contentType ?? '',
+          text: request.body,
+        } : undefined,
+        headersSize: -1,
+        bodySize: request.body !== undefined ? Buffer.byteLength(request.body) : 0,
+      },
+      response: {
+        // Status 0 marks a request without a captured response
+        status: response?.status ?? 0,
+        statusText: response?.statusText ?? '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: this.toNameValues(response?.headers ?? {}),
+        content: {
+          size: response?.body !== undefined ? Buffer.byteLength(response.body) : 0,
+          mimeType: response?.contentType ?? '',
+          text: response?.body,
+        },
+        redirectURL: response?.headers['location'] ?? '',
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: {
+        send: 0,
+        wait: responseTime,
+        receive: 0,
+      },
+      _captureId: request.id,
+      _sequence: request.sequence,
+      _initiator: request.initiator,
+      _redirectedFromId: request.redirectedFromId,
+      _redirectedToId: request.redirectedToId,
+      _failure: request.failure,
+    };
+  }
+
+  /**
+   * Convert a HAR entry to a captured request.
+   * Entries without a sequence number keep their position in the file.
+   */
+  private fromEntry(entry: HarEntry, position: number): CapturedRequest {
+    const requestHeaders = this.redactHeaders(entry.request.headers);
+    const postText = entry.request.postData?.text;
+
+    const captured: CapturedRequest = {
+      id: entry._captureId ?? randomUUID(),
+      method: entry.request.method.toUpperCase(),
+      url: entry.request.url,
+      headers: requestHeaders,
+      body: postText !== undefined ? this.redactors.bodyRedactor.redact(postText).value : undefined,
+      contentType: entry.request.postData?.mimeType || requestHeaders['content-type'],
+      timestamp: entry.startedDateTime,
+      sequence: typeof entry._sequence === 'number' ? entry._sequence : position,
+      initiator: entry._initiator,
+      redirectedFromId: entry._redirectedFromId,
+      redirectedToId: entry._redirectedToId,
+      failure: entry._failure,
+    };
+
+    const response = entry.response;
+    if (response && response.status > 0) {
+      const responseText = response.content?.text;
+      captured.response = {
+        status: response.status,
+        statusText: response.statusText ?? '',
+        headers: this.redactHeaders(response.headers),
+        body: responseText !== undefined ? this.redactors.bodyRedactor.redact(responseText).value : undefined,
+        contentType: response.content?.mimeType,
+        responseTimeMs: Math.round(entry.time ?? 0),
+      };
+    }
+    captured.state = captured.failure ? 'failed' : captured.response ? 'completed' : 'pending';
+
+    return captured;
+  }
+
+  /**
+   * Validate the HAR root and return its entries.
+   */
+  private getEntries(document: unknown): HarEntry[] {
+    const log = (document as Partial<HarDocument> | null)?.log;
+    if (!log || !Array.isArray(log.entries)) {
+      throw new Error('Invalid HAR file: missing log.entries');
+    }
+    return log.entries;
+  }
+
+  /**
+   * Redact HAR headers. HAR cookie arrays are never read.
+   */
+  private redactHeaders(headers: HarNameValue[] | undefined): Record<string, string> {
+    const raw: Record<string, string> = {};
+    for (const { name, value } of headers ?? []) {
+      // HTTP/2 pseudo headers are not real headers
+      if (name.startsWith(':')) {
+        continue;
+      }
+      const key = name.toLowerCase();
+      raw[key] = raw[key] !== undefined ? `${raw[key]}, ${value}` : value;
+    }
+
+    const redacted = this.redactors.headerRedactor.redact(raw).value;
+    const result: Record<string, string> = {};
+    for (const [key, value] of Object.entries(redacted)) {
+      result[key] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    return result;
+  }
+
+  private toNameValues(headers: Record<string, string>): HarNameValue[] {
+    return Object.entries(headers).map(([name, value]) => ({ name, value }));
+  }
+
+  private toQueryString(url: string): HarNameValue[] {
+    try {
+      return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+    } catch {
+      return [];
+    }
+  }
+}
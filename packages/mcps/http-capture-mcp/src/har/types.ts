@@ -0,0 +1,94 @@
+/**
+ * HAR 1.2 type definitions.
+ * See http://www.softwareishard.com/blog/har-12-spec/
+ */
+
+import type { RequestFailure, RequestInitiator } from '../types.js';
+
+/**
+ * Name/value pair used for headers and query strings.
+ */
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * HAR request object.
+ */
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: {
+    mimeType: string;
+    text?: string;
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+/**
+ * HAR response object.
+ */
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+/**
+ * HAR entry (one request/response pair).
+ */
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: {
+    send: number;
+    wait: number;
+    receive: number;
+  };
+  /** Captured request ID (custom field) */
+  _captureId?: string;
+  /** Timeline sequence number (custom field) */
+  _sequence?: number;
+  /** Request initiator (custom field) */
+  _initiator?: RequestInitiator;
+  /** Captured ID of the request this one was redirected from (custom field) */
+  _redirectedFromId?: string;
+  /** Captured ID of the request this one was redirected to (custom field) */
+  _redirectedToId?: string;
+  /** Failure details for failed or aborted requests (custom field) */
+  _failure?: RequestFailure;
+}
+
+/**
+ * HAR document root.
+ */
+export interface HarDocument {
+  log: {
+    version: string;
+    creator: {
+      name: string;
+      version: string;
+    };
+    comment?: string;
+    entries: HarEntry[];
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * OData $batch decoder tests.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { CapturedRequest } from '../types.js';
+import { BatchDecoder } from './batch-decoder.js';
+
+const SERVICE_URL =
+  'https://erp.example.com/main/ifsapplications/projection/v1/FlmTaskDetailHandling.svc';
+
+const decoder = new BatchDecoder({
+  headerRedactor: {
+    redact: (headers) => ({
+      value: Object.fromEntries(
+        Object.entries(headers).map(([name, value]) => [
+          name,
+          name === 'authorization' ? '[REDACTED]' : value,
+        ])
+      ),
+    }),
+  },
+  bodyRedactor: {
+    redact: (body) => ({ value: body.replace(/"Password":"[^"]*"/g, '"Password":"[REDACTED]"') }),
+  },
+});
+
+function batchRequest(
+  body: string,
+  responseBody?: string,
+  url = `${SERVICE_URL}/$batch`
+): CapturedRequest {
+  return {
+    id: 'req-1',
+    method: 'POST',
+    url,
+    headers: {},
+    body,
+    contentType: 'multipart/mixed; boundary=batch_1',
+    timestamp: '2024-01-15T10:30:00.000Z',
+    sequence: 7,
+    state: 'completed',
+    response:
+      responseBody === undefined
+        ? undefined
+        : {
+            status: 200,
+            statusText: 'OK',
+            headers: {},
+            body: responseBody,
+            contentType: 'multipart/mixed; boundary=batchresponse_1',
+            responseTimeMs: 40,
+          },
+  };
+}
+
+const lines = (...parts: string[]): string => parts.join('\r\n');
+
+const GET_AND_CHANGESET = lines(
+  '--batch_1',
+  'Content-Type: application/http',
+  'Content-Transfer-Encoding: binary',
+  '',
+  'GET AvExeTaskSet?$top=1 HTTP/1.1',
+  'Accept: application/json',
+  '',
+  '--batch_1',
+  'Content-Type: multipart/mixed; boundary=changeset_1',
+  '',
+  '--changeset_1',
+  'Content-Type: application/http',
+  'Content-ID: 1',
+  '',
+  'POST AvExeTaskSet HTTP/1.1',
+  'Content-Type: application/json',
+  'Authorization: Bearer abc',
+  '',
+  '{"Description":"Replace filter","Password":"secret"}',
+  '--changeset_1',
+  'Content-Type: application/http',
+  'Content-ID: 2',
+  '',
+  'PATCH $1/TaskResources HTTP/1.1',
+  'Content-Type: application/json',
+  '',
+  '{"Hours":2}',
+  '--changeset_1--',
+  '--batch_1--'
+);
+
+describe('BatchDecoder', () => {
+  it('recognises $batch URLs, also percent-encoded', () => {
+    expect(decoder.isBatch(batchRequest(''))).toBe(true);
+    expect(decoder.isBatch(batchRequest('', undefined, `${SERVICE_URL}/%24batch`))).toBe(true);
+    expect(decoder.isBatch(batchRequest('', undefined, `${SERVICE_URL}/AvExeTaskSet`))).toBe(false);
+  });
+
+  it('splits top-level parts and changesets into sub-requests', () => {
+    const parts = decoder.decode(batchRequest(GET_AND_CHANGESET));
+
+    expect(parts?.map((part) => `${part.method} ${part.url}`)).toEqual([
+      `GET ${SERVICE_URL}/AvExeTaskSet?$top=1`,
+      `POST ${SERVICE_URL}/AvExeTaskSet`,
+      `PATCH ${SERVICE_URL}/AvExeTaskSet/TaskResources`,
+    ]);
+    expect(parts?.map((part) => part.batch)).toEqual([
+      { batchId: 'req-1', index: 1, contentId: undefined },
+      { batchId: 'req-1', index: 2, contentId: '1', changesetId: 'changeset_1' },
+      { batchId: 'req-1', index: 3, contentId: '2', changesetId: 'changeset_1' },
+    ]);
+    expect(parts?.every((part) => part.sequence === 7)).toBe(true);
+  });
+
+  it('redacts headers and bodies of sub-requests', () => {
+    const [, post] = decoder.decode(batchRequest(GET_AND_CHANGESET)) ?? [];
+
+    expect(post?.headers['authorization']).toBe('[REDACTED]');
+    expect(post?.body).toBe('{"Description":"Replace filter","Password":"[REDACTED]"}');
+    expect(post?.contentType).toBe('application/json');
+  });
+
+  it('pairs responses with their requests, in order', () => {
+    const response = lines(
+      '--batchresponse_1',
+      'Content-Type: application/http',
+      '',
+      'HTTP/1.1 200 OK',
+      'Content-Type: application/json',
+      '',
+      '{"value":[]}',
+      '--batchresponse_1',
+      'Content-Type: multipart/mixed; boundary=changesetresponse_1',
+      '',
+      '--changesetresponse_1',
+      'Content-Type: application/http',
+      '',
+      'HTTP/1.1 201 Created',
+      '',
+      '{"TaskSeq":1234567}',
+      '--changesetresponse_1',
+      'Content-Type: application/http',
+      '',
+      'HTTP/1.1 204 No Content',
+      '',
+      '',
+      '--changesetresponse_1--',
+      '--batchresponse_1--'
+    );
+
+    const parts = decoder.decode(batchRequest(GET_AND_CHANGESET, response)) ?? [];
+
+    expect(parts.map((part) => [part.response?.status, part.response?.statusText])).toEqual([
+      [200, 'OK'],
+      [201, 'Created'],
+      [204, 'No Content'],
+    ]);
+    expect(parts[1]?.response?.body).toBe('{"TaskSeq":1234567}');
+    expect(parts[2]?.response?.body).toBeUndefined();
+    expect(parts[0]?.response?.responseTimeMs).toBe(40);
+  });
+
+  it('answers every part of a failed changeset with its single error response', () => {
+    const response = lines(
+      '--batchresponse_1',
+      'Content-Type: application/http',
+      '',
+      'HTTP/1.1 200 OK',
+      '',
+      '{"value":[]}',
+      '--batchresponse_1',
+      'Content-Type: application/http',
+      '',
+      'HTTP/1.1 400 Bad Request',
+      'Content-Type: application/json',
+      '',
+      '{"error":{"code":"DATABASE_ERROR"}}',
+      '--batchresponse_1--'
+    );
+
+    const parts = decoder.decode(batchRequest(GET_AND_CHANGESET, response)) ?? [];
+
+    expect(parts.map((part) => part.response?.status)).toEqual([200, 400, 400]);
+  });
+
+  it('finds the boundary in the body when the content type has none', () => {
+    const request = { ...batchRequest(GET_AND_CHANGESET), contentType: 'multipart/mixed' };
+
+    expect(decoder.decode(request)).toHaveLength(3);
+  });
+
+  it('leaves requests that are not decodable batches unchanged when expanding', () => {
+    const plain = batchRequest('{}', undefined, `${SERVICE_URL}/AvExeTaskSet`);
+    const empty = batchRequest('not a multipart body');
+    const batch = batchRequest(GET_AND_CHANGESET);
+
+    const expanded = decoder.expand([plain, empty, batch]);
+
+    expect(decoder.decode(plain)).toBeNull();
+    expect(decoder.decode(empty)).toBeNull();
+    expect(expanded.map((request) => request.id)).toEqual([
+      'req-1',
+      'req-1',
+      'req-1-1',
+      'req-1-2',
+      'req-1-3',
+    ]);
+  });
+});
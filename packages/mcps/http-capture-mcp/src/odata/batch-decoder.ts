@@ -0,0 +1,311 @@
+/**
+ * OData $batch decoding.
+ * Splits multipart/mixed batch requests and responses into individual sub-requests.
+ */
+
+import type { CapturedRequest, CapturedResponse, RequestCaptureConfig } from '../types.js';
+
+/**
+ * Redactors applied to decoded sub-requests.
+ */
+export type BatchRedactors = Pick<RequestCaptureConfig, 'headerRedactor' | 'bodyRedactor'>;
+
+/**
+ * HTTP message embedded in a multipart part.
+ */
+interface HttpPart {
+  /** MIME headers of the part (Content-Type, Content-ID) */
+  mimeHeaders: Record<string, string>;
+  /** Request line or status line */
+  startLine: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Top-level batch item: a single request or a changeset of requests.
+ */
+type BatchItem =
+  | { kind: 'part'; part: HttpPart }
+  | { kind: 'changeset'; id: string; parts: HttpPart[] };
+
+/**
+ * Decodes OData $batch calls into sub-requests.
+ */
+export class BatchDecoder {
+  private readonly redactors: BatchRedactors;
+
+  constructor(redactors: BatchRedactors) {
+    this.redactors = redactors;
+  }
+
+  /**
+   * Replace each decodable $batch request with its sub-requests, keeping timeline order.
+   */
+  expand(requests: CapturedRequest[]): CapturedRequest[] {
+    return requests.flatMap((request) => {
+      const parts = this.decode(request);
+      return parts && parts.length > 0 ? parts : [request];
+    });
+  }
+
+  /**
+   * Check whether a request is an OData $batch call.
+   */
+  isBatch(request: CapturedRequest): boolean {
+    try {
+      return /\/(?:\$|%24)batch$/i.test(new URL(request.url).pathname);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Decode a $batch request and its response into sub-requests.
+   * Returns null when the request is not a batch or its body cannot be parsed.
+   */
+  decode(batch: CapturedRequest): CapturedRequest[] | null {
+    if (!this.isBatch(batch) || !batch.body) {
+      return null;
+    }
+
+    const requestItems = this.parseBatch(batch.body, batch.contentType);
+    if (requestItems.length === 0) {
+      return null;
+    }
+
+    const responseItems = batch.response?.body
+      ? this.parseBatch(batch.response.body, batch.response.contentType)
+      : [];
+
+    const serviceRoot = batch.url.replace(/[?#].*$/, '').replace(/(?:\$|%24)batch$/i, '');
+    const contentIdUrls = new Map<string, string>();
+    const result: CapturedRequest[] = [];
+
+    requestItems.forEach((item, itemIndex) => {
+      const responseItem = responseItems[itemIndex];
+      const parts = item.kind === 'part' ? [item.part] : item.parts;
+
+      parts.forEach((part, partIndex) => {
+        // A failed changeset is answered with a single response for all its parts
+        let responsePart: HttpPart | undefined;
+        if (responseItem?.kind === 'part') {
+          responsePart = responseItem.part;
+        } else if (responseItem?.kind === 'changeset') {
+          responsePart = responseItem.parts[partIndex];
+        }
+
+        const subRequest = this.toSubRequest(batch, part, result.length + 1, serviceRoot, contentIdUrls);
+        if (item.kind === 'changeset' && subRequest.batch) {
+          subRequest.batch.changesetId = item.id;
+        }
+        if (responsePart) {
+          subRequest.response = this.toSubResponse(responsePart, batch.response);
+        }
+        result.push(subRequest);
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Build a captured request from a batch part.
+   */
+  private toSubRequest(
+    batch: CapturedRequest,
+    part: HttpPart,
+    index: number,
+    serviceRoot: string,
+    contentIdUrls: Map<string, string>
+  ): CapturedRequest {
+    const [method = 'GET', target = ''] = part.startLine.split(/\s+/);
+    const url = this.resolveUrl(target, serviceRoot, contentIdUrls);
+    const contentId = part.mimeHeaders['content-id'];
+    if (contentId) {
+      contentIdUrls.set(contentId, url);
+    }
+
+    return {
+      id: `${batch.id}-${index}`,
+      method: method.toUpperCase(),
+      url,
+      headers: this.redactHeaders(part.headers),
+      body: part.body !== undefined ? this.redactors.bodyRedactor.redact(part.body).value : undefined,
+      contentType: part.headers['content-type'],
+      timestamp: batch.timestamp,
+      sequence: batch.sequence,
+      state: batch.state,
+      initiator: batch.initiator,
+      allowlist: batch.allowlist,
+      batch: {
+        batchId: batch.id,
+        index,
+        contentId,
+      },
+    };
+  }
+
+  /**
+   * Build a captured response from a batch response part.
+   */
+  private toSubResponse(part: HttpPart, batchResponse: CapturedResponse | undefined): CapturedResponse {
+    const match = part.startLine.match(/^HTTP\/[\d.]+\s+(\d{3})\s*(.*)$/);
+
+    return {
+      status: match ? Number(match[1]) : 0,
+      statusText: match?.[2] ?? '',
+      headers: this.redactHeaders(part.headers),
+      body: part.body !== undefined ? this.redactors.bodyRedactor.redact(part.body).value : undefined,
+      contentType: part.headers['content-type'],
+      responseTimeMs: batchResponse?.responseTimeMs ?? 0,
+    };
+  }
+
+  /**
+   * Resolve a sub-request target against the service root.
+   * $<Content-ID> references are replaced by the referenced request URL.
+   */
+  private resolveUrl(target: string, serviceRoot: string, contentIdUrls: Map<string, string>): string {
+    const reference = target.match(/^\$([^/?]+)(.*)$/);
+    const referencedUrl = reference ? contentIdUrls.get(reference[1] ?? '') : undefined;
+    if (reference && referencedUrl) {
+      return referencedUrl + (reference[2] ?? '');
+    }
+
+    try {
+      return new URL(target, serviceRoot).href;
+    } catch {
+      return target;
+    }
+  }
+
+  /**
+   * Parse a multipart/mixed batch body into top-level items.
+   */
+  private parseBatch(body: string, contentType: string | undefined): BatchItem[] {
+    const boundary = this.getBoundary(contentType) ?? this.detectBoundary(body);
+    if (!boundary) {
+      return [];
+    }
+
+    const items: BatchItem[] = [];
+    for (const section of this.splitMultipart(body, boundary)) {
+      const { headers, content } = this.splitHeaders(section);
+      const changesetBoundary = this.getBoundary(headers['content-type']);
+
+      if (changesetBoundary) {
+        const parts = this.splitMultipart(content, changesetBoundary)
+          .map((s) => this.parseHttpPart(s))
+          .filter((p): p is HttpPart => p !== null);
+        items.push({ kind: 'changeset', id: changesetBoundary, parts });
+        continue;
+      }
+
+      const part = this.parseHttpPart(section);
+      if (part) {
+        items.push({ kind: 'part', part });
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Parse an application/http part into its MIME headers and embedded HTTP message.
+   */
+  private parseHttpPart(section: string): HttpPart | null {
+    const mime = this.splitHeaders(section);
+    const lines = mime.content.split(/\r?\n/);
+    const startIndex = lines.findIndex((l) => l.trim() !== '');
+    const startLine = lines[startIndex]?.trim();
+    if (!startLine) {
+      return null;
+    }
+
+    // A blank line right after the start line means the message has no headers
+    const messageLines = lines.slice(startIndex + 1);
+    const message =
+      messageLines[0]?.trim() === ''
+        ? { headers: {}, content: messageLines.slice(1).join('\n') }
+        : this.splitHeaders(messageLines.join('\n'));
+    const body = message.content.replace(/\s+$/, '');
+
+    return {
+      mimeHeaders: mime.headers,
+      startLine,
+      headers: message.headers,
+      body: body ? body : undefined,
+    };
+  }
+
+  /**
+   * Split the sections between --boundary delimiter lines.
+   */
+  private splitMultipart(body: string, boundary: string): string[] {
+    const sections: string[] = [];
+    let current: string[] | null = null;
+
+    for (const line of body.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (trimmed === `--${boundary}` || trimmed === `--${boundary}--`) {
+        if (current) {
+          sections.push(current.join('\n'));
+        }
+        current = trimmed.endsWith(`${boundary}--`) ? null : [];
+        continue;
+      }
+      current?.push(line);
+    }
+
+    return sections;
+  }
+
+  /**
+   * Split a header block from the content following the first blank line.
+   */
+  private splitHeaders(text: string): { headers: Record<string, string>; content: string } {
+    const lines = text.replace(/^(\r?\n)+/, '').split(/\r?\n/);
+    const headers: Record<string, string> = {};
+    let index = 0;
+
+    for (; index < lines.length; index++) {
+      const line = lines[index] ?? '';
+      const colon = line.indexOf(':');
+      if (line.trim() === '' || colon === -1) {
+        break;
+      }
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+
+    // Skip the blank line separating headers from content
+    if (lines[index]?.trim() === '') {
+      index++;
+    }
+
+    return { headers, content: lines.slice(index).join('\n') };
+  }
+
+  private getBoundary(contentType: string | undefined): string | undefined {
+    if (!contentType?.toLowerCase().includes('multipart/')) {
+      return undefined;
+    }
+    return contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+  }
+
+  /**
+   * Use the first delimiter line when the content type has no boundary.
+   */
+  private detectBoundary(body: string): string | undefined {
+    return body.match(/^--([^\s-][^\r\n]*?)\s*$/m)?.[1];
+  }
+
+  private redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const redacted = this.redactors.headerRedactor.redact(headers).value;
+    const result: Record<string, string> = {};
+    for (const [key, value] of Object.entries(redacted)) {
+      result[key] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    return result;
+  }
+}
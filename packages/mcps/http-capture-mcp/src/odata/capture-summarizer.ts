@@ -0,0 +1,171 @@
+/**
+ * Capture summarization.
+ * Groups captured calls by projection service, entity set and operation.
+ */
+
+import type { CapturedRequest } from '../types.js';
+import { ODataParser } from './odata-parser.js';
+import type {
+  CaptureSummary,
+  EntitySetSummary,
+  ODataRequestInfo,
+  ServiceSummary,
+} from './types.js';
+
+/**
+ * Summarizes a capture timeline by OData service and entity set.
+ */
+export class CaptureSummarizer {
+  private readonly parser: ODataParser;
+
+  constructor(parser = new ODataParser()) {
+    this.parser = parser;
+  }
+
+  /**
+   * Group requests by service, entity set and action/function.
+   */
+  summarize(requests: CapturedRequest[]): CaptureSummary {
+    const services = new Map<string, ServiceSummary>();
+    let odataRequests = 0;
+
+    for (const request of requests) {
+      const info = this.parser.parse(request.url, request.method);
+      if (!info) {
+        continue;
+      }
+      odataRequests++;
+
+      let service = services.get(info.serviceName);
+      if (!service) {
+        service = {
+          serviceName: info.serviceName,
+          requestCount: 0,
+          errorCount: 0,
+          entitySets: [],
+          operations: [],
+          systemRequestCount: 0,
+        };
+        services.set(info.serviceName, service);
+      }
+
+      service.requestCount++;
+      if (request.state === 'failed' || (request.response?.status ?? 0) >= 400) {
+        service.errorCount++;
+      }
+
+      if (info.kind === 'metadata' || info.kind === 'batch' || info.kind === 'serviceDocument') {
+        service.systemRequestCount++;
+      }
+      if (info.operation) {
+        this.addOperation(service, info, request);
+      } else if (info.entitySet) {
+        this.addEntitySet(service, info, request);
+      }
+    }
+
+    const serviceList = Array.from(services.values());
+    return {
+      summary: this.describe(serviceList),
+      totalRequests: requests.length,
+      odataRequests,
+      otherRequests: requests.length - odataRequests,
+      services: serviceList,
+    };
+  }
+
+  private addEntitySet(service: ServiceSummary, info: ODataRequestInfo, request: CapturedRequest): void {
+    const name = info.entitySet ?? '';
+    let entitySet = service.entitySets.find((e) => e.name === name);
+    if (!entitySet) {
+      entitySet = {
+        name,
+        requestCount: 0,
+        methods: {},
+        navigations: [],
+        queryOptions: [],
+        requestIds: [],
+      };
+      service.entitySets.push(entitySet);
+    }
+
+    entitySet.requestCount++;
+    entitySet.methods[request.method] = (entitySet.methods[request.method] ?? 0) + 1;
+    entitySet.requestIds.push(request.id);
+
+    const navigation = info.navigation.map((n) => n.property).join('/');
+    if (navigation && !entitySet.navigations.includes(navigation)) {
+      entitySet.navigations.push(navigation);
+    }
+    this.addQueryOptions(entitySet, info);
+  }
+
+  private addOperation(service: ServiceSummary, info: ODataRequestInfo, request: CapturedRequest): void {
+    const operationInfo = info.operation;
+    if (!operationInfo) {
+      return;
+    }
+
+    let operation = service.operations.find(
+      (o) => o.name === operationInfo.name && o.entitySet === info.entitySet
+    );
+    if (!operation) {
+      operation = {
+        name: operationInfo.name,
+        kind: operationInfo.kind,
+        bound: operationInfo.bound,
+        entitySet: info.entitySet,
+        requestCount: 0,
+        requestIds: [],
+      };
+      service.operations.push(operation);
+    }
+
+    operation.requestCount++;
+    operation.requestIds.push(request.id);
+  }
+
+  private addQueryOptions(entitySet: EntitySetSummary, info: ODataRequestInfo): void {
+    const options = info.queryOptions;
+    const used = [
+      options.filter !== undefined && '$filter',
+      options.select && '$select',
+      options.expand && '$expand',
+      options.orderby && '$orderby',
+      options.top !== undefined && '$top',
+      options.skip !== undefined && '$skip',
+      options.count !== undefined && '$count',
+      options.search !== undefined && '$search',
+    ].filter((o): o is string => typeof o === 'string');
+
+    for (const option of used) {
+      if (!entitySet.queryOptions.includes(option)) {
+        entitySet.queryOptions.push(option);
+      }
+    }
+  }
+
+  /**
+   * Build the one-line overview.
+   */
+  private describe(services: ServiceSummary[]): string {
+    if (services.length === 0) {
+      return 'No OData calls captured';
+    }
+
+    const entitySets = services.reduce((sum, s) => sum + s.entitySets.length, 0);
+    const actions = services.reduce((sum, s) => sum + s.operations.filter((o) => o.kind === 'action').length, 0);
+    const functions = services.reduce((sum, s) => sum + s.operations.filter((o) => o.kind === 'function').length, 0);
+
+    const parts = [this.plural(entitySets, 'entity set'), this.plural(actions, 'action')];
+    if (functions > 0) {
+      parts.push(this.plural(functions, 'function'));
+    }
+
+    return `Touched ${parts.join(', ').replace(/, ([^,]*)$/, ' and $1')} across ${this.plural(services.length, 'service')}`;
+  }
+
+  private plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+  }
+}
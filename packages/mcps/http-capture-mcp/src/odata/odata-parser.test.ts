@@ -0,0 +1,118 @@
+/**
+ * OData parser tests.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ODataParser } from './odata-parser.js';
+
+const SERVICE_URL =
+  'https://erp.example.com/main/ifsapplications/projection/v1/FlmTaskDetailHandling.svc';
+
+const parser = new ODataParser();
+
+describe('ODataParser', () => {
+  it('returns null for URLs without a .svc segment', () => {
+    expect(parser.parse('https://erp.example.com/main/ifsapplications/web/')).toBeNull();
+    expect(parser.parse('not a url')).toBeNull();
+  });
+
+  it('parses the service document, $metadata and $batch', () => {
+    expect(parser.parse(SERVICE_URL)).toMatchObject({
+      serviceName: 'FlmTaskDetailHandling',
+      servicePath: '/main/ifsapplications/projection/v1/FlmTaskDetailHandling.svc',
+      resourcePath: '',
+      kind: 'serviceDocument',
+    });
+    expect(parser.parse(`${SERVICE_URL}/$metadata`)?.kind).toBe('metadata');
+    expect(parser.parse(`${SERVICE_URL}/$batch`, 'POST')?.kind).toBe('batch');
+  });
+
+  it('parses named, unnamed and typed key predicates', () => {
+    expect(
+      parser.parse(`${SERVICE_URL}/AvExeTaskSet(TaskSeq=1,Site='A1',Released=true,Note=null)`)
+    ).toMatchObject({
+      kind: 'entity',
+      entitySet: 'AvExeTaskSet',
+      keys: { TaskSeq: 1, Site: 'A1', Released: true, Note: null },
+    });
+    expect(parser.parse(`${SERVICE_URL}/AvExeTaskSet(42)`)?.keys).toEqual({ $key: 42 });
+    expect(
+      parser.parse(`${SERVICE_URL}/AvExeTaskSet(Id=3f2504e0-4f89-11d3-9a0c-0305e82c3301)`)?.keys
+    ).toEqual({ Id: '3f2504e0-4f89-11d3-9a0c-0305e82c3301' });
+  });
+
+  it('keeps commas, equals signs and doubled quotes inside quoted key values', () => {
+    const info = parser.parse(
+      `${SERVICE_URL}/AvExeTaskSet(Description='Filter, oil=5l',Owner='O''Brien')`
+    );
+
+    expect(info?.keys).toEqual({ Description: 'Filter, oil=5l', Owner: "O'Brien" });
+  });
+
+  it('decodes percent-encoded path segments', () => {
+    const info = parser.parse(`${SERVICE_URL}/AvExeTaskSet(Site='A%201',Code='X%2CY')`);
+
+    expect(info?.keys).toEqual({ Site: 'A 1', Code: 'X,Y' });
+    expect(info?.resourcePath).toBe("AvExeTaskSet(Site='A 1',Code='X,Y')");
+  });
+
+  it('parses navigation with keys and skips $count', () => {
+    expect(
+      parser.parse(`${SERVICE_URL}/AvExeTaskSet(TaskSeq=1)/JtTaskResourceDemandArray(DemandSeq=2)`)
+    ).toMatchObject({
+      kind: 'navigation',
+      keys: { TaskSeq: 1 },
+      navigation: [{ property: 'JtTaskResourceDemandArray', keys: { DemandSeq: 2 } }],
+    });
+    expect(
+      parser.parse(`${SERVICE_URL}/AvExeTaskSet(TaskSeq=1)/JtTaskResourceDemandArray/$count`)
+    ).toMatchObject({
+      kind: 'navigation',
+      navigation: [{ property: 'JtTaskResourceDemandArray' }],
+    });
+  });
+
+  it('parses bound actions and unbound functions', () => {
+    expect(
+      parser.parse(
+        `${SERVICE_URL}/AvExeTaskSet(TaskSeq=1)/IfsApp.FlmTaskDetailHandling.AvExeTask_Release`,
+        'post'
+      )?.operation
+    ).toEqual({
+      name: 'AvExeTask_Release',
+      qualifiedName: 'IfsApp.FlmTaskDetailHandling.AvExeTask_Release',
+      kind: 'action',
+      bound: true,
+    });
+    expect(parser.parse(`${SERVICE_URL}/GetDefaultSite(Contract='A1',Limit=5)`)).toMatchObject({
+      kind: 'function',
+      operation: {
+        name: 'GetDefaultSite',
+        kind: 'function',
+        bound: false,
+        parameters: { Contract: 'A1', Limit: 5 },
+      },
+    });
+    expect(parser.parse(`${SERVICE_URL}/Reference_AvExeTaskState`)?.kind).toBe('entitySet');
+  });
+
+  it('parses system query options, including percent-encoded names', () => {
+    const info = parser.parse(
+      `${SERVICE_URL}/AvExeTaskSet?%24filter=Site%20eq%20'A1'&%24select=TaskSeq,Description` +
+        '&$expand=TaskRef($select=Site,Contract),DemandArray&$orderby=TaskSeq desc' +
+        '&$top=25&$skip=50&%24count=true&$search=filter&$TOP=10&company=10'
+    );
+
+    expect(info?.queryOptions).toEqual({
+      filter: "Site eq 'A1'",
+      select: ['TaskSeq', 'Description'],
+      expand: ['TaskRef($select=Site,Contract)', 'DemandArray'],
+      orderby: ['TaskSeq desc'],
+      top: 10,
+      skip: 50,
+      count: true,
+      search: 'filter',
+      custom: { company: '10' },
+    });
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * OData URL parsing for captured Cloud ERP calls.
+ * Splits projection URLs into service, entity set, keys, navigation, operations and query options.
+ */
+
+import type {
+  ODataLiteral,
+  ODataNavigationSegment,
+  ODataOperation,
+  ODataQueryOptions,
+  ODataRequestInfo,
+} from './types.js';
+
+/**
+ * Parsed path segment: a name with an optional parenthesised predicate.
+ */
+interface PathSegment {
+  name: string;
+  predicate?: string;
+}
+
+/**
+ * Parses OData request URLs into structured fields.
+ */
+export class ODataParser {
+  /**
+   * Parse an OData URL. Returns null when the URL has no .svc service segment.
+   */
+  parse(url: string, method = 'GET'): ODataRequestInfo | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+
+    const rawSegments = parsed.pathname.split('/');
+    const serviceIndex = rawSegments.findIndex((s) => s.endsWith('.svc'));
+    if (serviceIndex === -1) {
+      return null;
+    }
+
+    const serviceSegment = rawSegments[serviceIndex] ?? '';
+    const resourceSegments = rawSegments
+      .slice(serviceIndex + 1)
+      .filter(Boolean)
+      .map((s) => this.parseSegment(this.safeDecode(s)));
+
+    const info: ODataRequestInfo = {
+      serviceName: this.safeDecode(serviceSegment).replace(/\.svc$/, ''),
+      servicePath: rawSegments.slice(0, serviceIndex + 1).join('/'),
+      resourcePath: resourceSegments.map((s) => this.formatSegment(s)).join('/'),
+      kind: 'serviceDocument',
+      navigation: [],
+      queryOptions: this.parseQueryOptions(parsed.searchParams),
+    };
+
+    this.parseResourcePath(info, resourceSegments, method.toUpperCase());
+    return info;
+  }
+
+  /**
+   * Fill entity set, keys, navigation, operation and kind from the resource path.
+   */
+  private parseResourcePath(info: ODataRequestInfo, segments: PathSegment[], method: string): void {
+    const [first, ...rest] = segments;
+    if (!first) {
+      return;
+    }
+
+    if (first.name === '$metadata' || first.name === '$batch') {
+      info.kind = first.name === '$metadata' ? 'metadata' : 'batch';
+      return;
+    }
+
+    if (this.isOperationName(first.name) || !this.isEntitySetName(first.name, first.predicate, method)) {
+      info.operation = this.toOperation(first, false, method);
+      info.kind = info.operation.kind;
+      return;
+    }
+
+    info.entitySet = first.name;
+    info.kind = 'entitySet';
+    if (first.predicate !== undefined) {
+      info.keys = this.parsePredicate(first.predicate);
+      info.kind = 'entity';
+    }
+
+    for (const segment of rest) {
+      // $count, $value and $ref only change the representation
+      if (segment.name.startsWith('$')) {
+        continue;
+      }
+
+      if (this.isOperationName(segment.name)) {
+        info.operation = this.toOperation(segment, true, method);
+        info.kind = info.operation.kind;
+        return;
+      }
+
+      const navigation: ODataNavigationSegment = { property: segment.name };
+      if (segment.predicate !== undefined) {
+        navigation.keys = this.parsePredicate(segment.predicate);
+      }
+      info.navigation.push(navigation);
+      info.kind = 'navigation';
+    }
+  }
+
+  /**
+   * Namespace-qualified segments (IfsApp.Projection.Action) are operations.
+   */
+  private isOperationName(name: string): boolean {
+    return name.includes('.');
+  }
+
+  /**
+   * Decide whether the first segment addresses an entity set.
+   * Projection entity sets end in "Set" or are Reference_ sets; other names are
+   * unbound operations when invoked with POST or called with () or named parameters.
+   */
+  private isEntitySetName(name: string, predicate: string | undefined, method: string): boolean {
+    if (/Set$/.test(name) || name.startsWith('Reference_')) {
+      return true;
+    }
+    if (method === 'POST') {
+      return false;
+    }
+    return predicate === undefined || (predicate !== '' && !predicate.includes('='));
+  }
+
+  /**
+   * Build an operation from a path segment.
+   */
+  private toOperation(segment: PathSegment, bound: boolean, method: string): ODataOperation {
+    const kind: ODataOperation['kind'] = method === 'POST' ? 'action' : 'function';
+    const operation: ODataOperation = {
+      name: segment.name.split('.').pop() ?? segment.name,
+      qualifiedName: segment.name,
+      kind,
+      bound,
+    };
+
+    if (segment.predicate) {
+      operation.parameters = this.parsePredicate(segment.predicate);
+    }
+    return operation;
+  }
+
+  /**
+   * Split a segment into its name and predicate, e.g. AvExeTaskSet(TaskSeq=1).
+   */
+  private parseSegment(segment: string): PathSegment {
+    const open = segment.indexOf('(');
+    if (open === -1 || !segment.endsWith(')')) {
+      return { name: segment };
+    }
+    return {
+      name: segment.slice(0, open),
+      predicate: segment.slice(open + 1, -1),
+    };
+  }
+
+  private formatSegment(segment: PathSegment): string {
+    return segment.predicate !== undefined ? `${segment.name}(${segment.predicate})` : segment.name;
+  }
+
+  /**
+   * Parse a key predicate or parameter list: (1), (TaskSeq=1,Site='A').
+   */
+  private parsePredicate(predicate: string): Record<string, ODataLiteral> {
+    const result: Record<string, ODataLiteral> = {};
+    for (const part of this.splitTopLevel(predicate)) {
+      const eq = this.indexOutsideQuotes(part, '=');
+      if (eq === -1) {
+        result['$key'] = this.parseLiteral(part);
+      } else {
+        result[part.slice(0, eq).trim()] = this.parseLiteral(part.slice(eq + 1));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Parse a URL literal. Strings lose their quotes; typed literals stay raw.
+   */
+  private parseLiteral(raw: string): ODataLiteral {
+    const text = raw.trim();
+    if (/^'.*'$/s.test(text)) {
+      return text.slice(1, -1).replace(/''/g, "'");
+    }
+    if (text === 'null') {
+      return null;
+    }
+    if (text === 'true' || text === 'false') {
+      return text === 'true';
+    }
+    if (/^-?\d+(\.\d+)?$/.test(text)) {
+      return Number(text);
+    }
+    return text;
+  }
+
+  /**
+   * Parse system query options. Non-system parameters are kept in custom.
+   */
+  private parseQueryOptions(params: URLSearchParams): ODataQueryOptions {
+    const options: ODataQueryOptions = { custom: {} };
+
+    for (const [name, value] of params.entries()) {
+      switch (name.toLowerCase()) {
+        case '$filter':
+          options.filter = value;
+          break;
+        case '$select':
+          options.select = this.splitTopLevel(value);
+          break;
+        case '$expand':
+          options.expand = this.splitTopLevel(value);
+          break;
+        case '$orderby':
+          options.orderby = this.splitTopLevel(value);
+          break;
+        case '$top':
+          options.top = Number(value);
+          break;
+        case '$skip':
+          options.skip = Number(value);
+          break;
+        case '$count':
+          options.count = value === 'true';
+          break;
+        case '$search':
+          options.search = value;
+          break;
+        default:
+          options.custom[name] = value;
+      }
+    }
+
+    return options;
+  }
+
+  /**
+   * Split on commas that are outside quotes and parentheses.
+   */
+  private splitTopLevel(value: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let inQuotes = false;
+    let current = '';
+
+    for (const char of value) {
+      if (char === "'") {
+        inQuotes = !inQuotes;
+      } else if (!inQuotes && char === '(') {
+        depth++;
+      } else if (!inQuotes && char === ')') {
+        depth--;
+      } else if (!inQuotes && depth === 0 && char === ',') {
+        parts.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+
+    if (current.trim()) {
+      parts.push(current.trim());
+    }
+    return parts;
+  }
+
+  private indexOutsideQuotes(value: string, search: string): number {
+    let inQuotes = false;
+    for (let i = 0; i < value.length; i++) {
+      const char = value[i];
+      if (char === "'") {
+        inQuotes = !inQuotes;
+      } else if (!inQuotes && char === search) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private safeDecode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+}
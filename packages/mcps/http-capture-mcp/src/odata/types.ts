@@ -0,0 +1,143 @@
+/**
+ * OData analysis type definitions.
+ */
+
+/**
+ * Literal value from a key predicate or function parameter.
+ * Typed literals (GUIDs, dates, enums) are kept as their raw text.
+ */
+export type ODataLiteral = string | number | boolean | null;
+
+/**
+ * What an OData request addresses.
+ */
+export type ODataResourceKind =
+  | 'serviceDocument'
+  | 'metadata'
+  | 'batch'
+  | 'entitySet'
+  | 'entity'
+  | 'navigation'
+  | 'action'
+  | 'function';
+
+/**
+ * Navigation property segment following an entity.
+ */
+export interface ODataNavigationSegment {
+  /** Navigation property name (e.g. JtTaskResourceDemandArray) */
+  property: string;
+  /** Key predicate on the navigation target, if any */
+  keys?: Record<string, ODataLiteral>;
+}
+
+/**
+ * Action or function call.
+ */
+export interface ODataOperation {
+  /** Short operation name (e.g. AvExeTask_Release) */
+  name: string;
+  /** Name as it appears in the URL, including any namespace */
+  qualifiedName: string;
+  /** Actions are invoked with POST, functions with GET */
+  kind: 'action' | 'function';
+  /** Whether the operation is bound to an entity or entity set */
+  bound: boolean;
+  /** Function parameters from the URL */
+  parameters?: Record<string, ODataLiteral>;
+}
+
+/**
+ * Parsed system query options.
+ */
+export interface ODataQueryOptions {
+  filter?: string;
+  select?: string[];
+  expand?: string[];
+  orderby?: string[];
+  top?: number;
+  skip?: number;
+  count?: boolean;
+  search?: string;
+  /** Non-system query parameters */
+  custom: Record<string, string>;
+}
+
+/**
+ * Structured view of an OData request URL.
+ */
+export interface ODataRequestInfo {
+  /** Projection/service name without the .svc suffix (e.g. FlmTaskDetailHandling) */
+  serviceName: string;
+  /** URL path up to and including the .svc segment */
+  servicePath: string;
+  /** Decoded path after the .svc segment */
+  resourcePath: string;
+  /** What the request addresses */
+  kind: ODataResourceKind;
+  /** Entity set the request starts from */
+  entitySet?: string;
+  /** Key predicate on the entity set. Unnamed single keys use the name '$key'. */
+  keys?: Record<string, ODataLiteral>;
+  /** Navigation path after the entity */
+  navigation: ODataNavigationSegment[];
+  /** Bound or unbound action/function */
+  operation?: ODataOperation;
+  /** System query options */
+  queryOptions: ODataQueryOptions;
+}
+
+/**
+ * Calls to one entity set within a capture summary.
+ */
+export interface EntitySetSummary {
+  name: string;
+  requestCount: number;
+  /** Request counts per HTTP method */
+  methods: Record<string, number>;
+  /** Navigation paths used below the entity set */
+  navigations: string[];
+  /** System query options used (e.g. $filter, $expand) */
+  queryOptions: string[];
+  requestIds: string[];
+}
+
+/**
+ * Calls to one action or function within a capture summary.
+ */
+export interface OperationSummary {
+  name: string;
+  kind: 'action' | 'function';
+  bound: boolean;
+  /** Entity set the operation was bound to */
+  entitySet?: string;
+  requestCount: number;
+  requestIds: string[];
+}
+
+/**
+ * Calls to one projection/service within a capture summary.
+ */
+export interface ServiceSummary {
+  serviceName: string;
+  requestCount: number;
+  /** Requests that failed or returned status 400 or above */
+  errorCount: number;
+  entitySets: EntitySetSummary[];
+  operations: OperationSummary[];
+  /** $batch and $metadata calls */
+  systemRequestCount: number;
+}
+
+/**
+ * Grouped overview of a capture session.
+ */
+export interface CaptureSummary {
+  /** One-line overview (e.g. "Touched 3 entity sets and 2 actions across 1 service") */
+  summary: string;
+  totalRequests: number;
+  odataRequests: number;
+  /** Requests that are not OData calls (static assets, non-projection APIs) */
+  otherRequests: number;
+  services: ServiceSummary[];
+}
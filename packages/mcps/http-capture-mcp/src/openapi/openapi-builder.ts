@@ -0,0 +1,459 @@
+/**
+ * OpenAPI generation from captured traffic.
+ * Builds an OpenAPI 3.1 document for projections that have no published spec.
+ */
+
+import { ODataParser } from '../odata/odata-parser.js';
+import type { ODataRequestInfo } from '../odata/types.js';
+import { SchemaInferrer } from '../schema/schema-inferrer.js';
+import type { CapturedRequest } from '../types.js';
+
+/**
+ * Typed query parameter schemas for OData system query options.
+ */
+const SYSTEM_QUERY_SCHEMAS: Record<string, Record<string, unknown>> = {
+  $top: { type: 'integer', minimum: 0 },
+  $skip: { type: 'integer', minimum: 0 },
+  $count: { type: 'boolean' },
+};
+
+/**
+ * Options for building an OpenAPI document.
+ */
+export interface OpenApiBuildOptions {
+  /** Only include calls to this projection service */
+  serviceName?: string;
+  /** info.title (default: derived from the service name) */
+  title?: string;
+  /** info.version */
+  version?: string;
+}
+
+/**
+ * Result of building an OpenAPI document.
+ */
+export interface OpenApiBuildResult {
+  document: Record<string, unknown>;
+  pathCount: number;
+  operationCount: number;
+  schemaNames: string[];
+  /** Requests that are not OData calls or belong to another service */
+  skippedRequestIds: string[];
+}
+
+/**
+ * Path parameter taken from a key predicate or function parameter.
+ */
+interface PathParameter {
+  name: string;
+  type: 'string' | 'integer' | 'number';
+}
+
+/**
+ * Captured calls grouped by method and path template.
+ */
+interface OperationGroup {
+  method: string;
+  template: string;
+  info: ODataRequestInfo;
+  pathParameters: PathParameter[];
+  queryParameters: Set<string>;
+  requestBodies: SchemaInferrer;
+  /** Inferred response schemas keyed by status code */
+  responses: Map<number, { description: string; inferrer: SchemaInferrer; contentType?: string }>;
+  /** Component schema the success response is stored in */
+  schemaName?: string;
+  collection: boolean;
+}
+
+/**
+ * Builds OpenAPI 3.1 documents from captured OData requests.
+ */
+export class OpenApiBuilder {
+  private readonly parser: ODataParser;
+
+  constructor(parser = new ODataParser()) {
+    this.parser = parser;
+  }
+
+  /**
+   * Build an OpenAPI document from captured requests.
+   * With one service, paths are relative to the service root; with several, they include the service path.
+   */
+  build(requests: CapturedRequest[], options: OpenApiBuildOptions = {}): OpenApiBuildResult {
+    const groups = new Map<string, OperationGroup>();
+    const components = new Map<string, { inferrer: SchemaInferrer; keys: Set<string> }>();
+    const services = new Map<string, string>();
+    const skippedRequestIds: string[] = [];
+
+    const parsed: Array<{ request: CapturedRequest; info: ODataRequestInfo }> = [];
+    for (const request of requests) {
+      const info = this.parser.parse(request.url, request.method);
+      const isDataCall = info && info.kind !== 'metadata' && info.kind !== 'batch' && info.kind !== 'serviceDocument';
+      if (!info || !isDataCall || (options.serviceName && info.serviceName !== options.serviceName)) {
+        skippedRequestIds.push(request.id);
+        continue;
+      }
+      parsed.push({ request, info });
+      services.set(info.serviceName, `${new URL(request.url).origin}${info.servicePath}`);
+    }
+
+    if (parsed.length === 0) {
+      throw new Error(options.serviceName
+        ? `No OData calls to ${options.serviceName} captured`
+        : 'No OData calls captured');
+    }
+
+    const singleService = services.size === 1;
+    for (const { request, info } of parsed) {
+      const { template: resourceTemplate, parameters } = this.toPathTemplate(info);
+      const template = singleService ? `/${resourceTemplate}` : `${info.servicePath}/${resourceTemplate}`;
+      const method = request.method.toLowerCase();
+      const groupKey = `${method} ${template}`;
+
+      let group = groups.get(groupKey);
+      if (!group) {
+        group = {
+          method,
+          template,
+          info,
+          pathParameters: parameters,
+          queryParameters: new Set(),
+          requestBodies: new SchemaInferrer(),
+          responses: new Map(),
+          collection: false,
+        };
+        groups.set(groupKey, group);
+      }
+
+      this.addSample(group, request, components);
+    }
+
+    const serviceList = Array.from(services.entries());
+    const firstService = serviceList[0];
+    const serverUrl = singleService && firstService ? firstService[1] : new URL(parsed[0]?.request.url ?? '').origin;
+
+    const paths: Record<string, Record<string, unknown>> = {};
+    const usedOperationIds = new Set<string>();
+    const tags = new Set<string>();
+    for (const group of groups.values()) {
+      const tag = group.info.entitySet ?? group.info.operation?.name ?? 'Service';
+      tags.add(tag);
+      paths[group.template] = paths[group.template] ?? {};
+      (paths[group.template] as Record<string, unknown>)[group.method] = this.toOperation(group, tag, usedOperationIds);
+    }
+
+    const schemas: Record<string, unknown> = {};
+    for (const [name, component] of components) {
+      const schema = component.inferrer.getSchema() ?? { type: 'object' };
+      schemas[name] = component.keys.size > 0 ? { ...schema, 'x-ifs-keys': [...component.keys] } : schema;
+    }
+
+    const title = options.title
+      ?? (singleService && firstService ? `${firstService[0]} (captured)` : 'Captured OData services');
+
+    const document = this.withoutUndefined({
+      openapi: '3.1.0',
+      info: {
+        title,
+        version: options.version ?? '1.0.0',
+        description: `Derived from ${parsed.length} captured request(s). Schemas are inferred from observed payloads and may be incomplete.`,
+      },
+      servers: [{ url: serverUrl }],
+      tags: [...tags].map((name) => ({ name })),
+      paths,
+      components: { schemas },
+    }) as Record<string, unknown>;
+
+    return {
+      document,
+      pathCount: Object.keys(paths).length,
+      operationCount: groups.size,
+      schemaNames: Object.keys(schemas),
+      skippedRequestIds,
+    };
+  }
+
+  /**
+   * Add a captured call to its operation group.
+   */
+  private addSample(
+    group: OperationGroup,
+    request: CapturedRequest,
+    components: Map<string, { inferrer: SchemaInferrer; keys: Set<string> }>
+  ): void {
+    for (const name of new URL(request.url).searchParams.keys()) {
+      group.queryParameters.add(name);
+    }
+
+    const requestBody = this.parseJson(request.body);
+    if (requestBody !== undefined) {
+      group.requestBodies.addSample(requestBody);
+    }
+
+    const response = request.response;
+    if (!response) {
+      return;
+    }
+
+    const responseBody = this.parseJson(response.body);
+    const entityName = this.entityName(group.info);
+
+    // Entity payloads of successful reads and writes become shared component schemas
+    if (entityName && response.status < 300 && this.isPlainObject(responseBody)) {
+      const items = Array.isArray(responseBody['value']) ? responseBody['value'] : null;
+      let component = components.get(entityName);
+      if (!component) {
+        component = { inferrer: new SchemaInferrer(), keys: new Set() };
+        components.set(entityName, component);
+      }
+
+      if (items) {
+        for (const item of items) {
+          component.inferrer.addSample(this.isPlainObject(item) ? this.withoutAnnotations(item) : item);
+        }
+        group.collection = true;
+      } else {
+        component.inferrer.addSample(this.withoutAnnotations(responseBody));
+      }
+
+      const keys = group.info.navigation.length > 0
+        ? group.info.navigation[group.info.navigation.length - 1]?.keys
+        : group.info.keys;
+      for (const key of Object.keys(keys ?? {})) {
+        if (key !== '$key') {
+          component.keys.add(key);
+        }
+      }
+
+      group.schemaName = entityName;
+    }
+
+    let entry = group.responses.get(response.status);
+    if (!entry) {
+      entry = {
+        description: response.statusText || `Status ${response.status}`,
+        inferrer: new SchemaInferrer(),
+        contentType: response.contentType?.split(';')[0]?.trim() || undefined,
+      };
+      group.responses.set(response.status, entry);
+    }
+    if (responseBody !== undefined) {
+      entry.inferrer.addSample(responseBody);
+    }
+  }
+
+  /**
+   * Build the OpenAPI operation object for a group.
+   */
+  private toOperation(group: OperationGroup, tag: string, usedOperationIds: Set<string>): Record<string, unknown> {
+    const parameters: Array<Record<string, unknown>> = group.pathParameters.map((p) => ({
+      name: p.name,
+      in: 'path',
+      required: true,
+      schema: { type: p.type },
+    }));
+
+    for (const name of group.queryParameters) {
+      parameters.push({
+        name,
+        in: 'query',
+        required: false,
+        schema: SYSTEM_QUERY_SCHEMAS[name] ?? { type: 'string' },
+      });
+    }
+
+    const responses: Record<string, unknown> = {};
+    for (const [status, entry] of [...group.responses.entries()].sort(([a], [b]) => a - b)) {
+      const schema = status < 300 && group.schemaName
+        ? this.entityResponseSchema(group.schemaName, group.collection)
+        : entry.inferrer.getSchema();
+
+      responses[String(status)] = {
+        description: entry.description,
+        content: schema ? { [entry.contentType ?? 'application/json']: { schema } } : undefined,
+      };
+    }
+    if (Object.keys(responses).length === 0) {
+      responses['default'] = { description: 'No response captured' };
+    }
+
+    const requestSchema = group.requestBodies.getSchema();
+
+    return {
+      operationId: this.operationId(group, usedOperationIds),
+      summary: `${group.method.toUpperCase()} ${group.template}`,
+      tags: [tag],
+      parameters: parameters.length > 0 ? parameters : undefined,
+      requestBody: requestSchema ? {
+        required: true,
+        content: { 'application/json': { schema: requestSchema } },
+      } : undefined,
+      responses,
+    };
+  }
+
+  /**
+   * Response schema referencing an entity component, wrapped in value[] for collections.
+   */
+  private entityResponseSchema(schemaName: string, collection: boolean): Record<string, unknown> {
+    const ref = { $ref: `#/components/schemas/${schemaName}` };
+    if (!collection) {
+      return ref;
+    }
+    return {
+      type: 'object',
+      properties: {
+        '@odata.context': { type: 'string' },
+        value: { type: 'array', items: ref },
+      },
+      required: ['value'],
+    };
+  }
+
+  /**
+   * Turn the resource path into a template: AvExeTaskSet(TaskSeq=1) -> AvExeTaskSet(TaskSeq={TaskSeq}).
+   * String keys keep their quotes: Site='{Site}'.
+   */
+  private toPathTemplate(info: ODataRequestInfo): { template: string; parameters: PathParameter[] } {
+    const parameters: PathParameter[] = [];
+    const used = new Set<string>();
+
+    const segments = this.splitSegments(info.resourcePath).map((segment) => {
+      const open = segment.indexOf('(');
+      if (open === -1 || !segment.endsWith(')')) {
+        return segment;
+      }
+
+      const name = segment.slice(0, open);
+      const predicate = segment.slice(open + 1, -1);
+      if (predicate === '') {
+        return segment;
+      }
+
+      const parts = this.splitPredicate(predicate).map((part) => {
+        const eq = part.indexOf('=');
+        const key = eq === -1 ? 'Key' : part.slice(0, eq).trim();
+        const literal = (eq === -1 ? part : part.slice(eq + 1)).trim();
+
+        // Path parameter names must be unique within a path
+        let paramName = key;
+        if (used.has(paramName)) {
+          paramName = `${name.split('.').pop() ?? name}_${key}`;
+        }
+        used.add(paramName);
+
+        const isString = literal.startsWith("'");
+        const type: PathParameter['type'] = isString || !/^-?\d+(\.\d+)?$/.test(literal)
+          ? 'string'
+          : literal.includes('.') ? 'number' : 'integer';
+        parameters.push({ name: paramName, type });
+
+        const value = isString ? `'{${paramName}}'` : `{${paramName}}`;
+        return eq === -1 ? value : `${key}=${value}`;
+      });
+
+      return `${name}(${parts.join(',')})`;
+    });
+
+    return { template: segments.join('/'), parameters };
+  }
+
+  /**
+   * Schema name for the entity a call returns: entity set or navigation property without Set/Array.
+   */
+  private entityName(info: ODataRequestInfo): string | null {
+    if (info.operation) {
+      return null;
+    }
+    const last = info.navigation[info.navigation.length - 1]?.property ?? info.entitySet;
+    if (!last) {
+      return null;
+    }
+    return last.length > 3 ? last.replace(/(Set|Array)$/, '') : last;
+  }
+
+  /**
+   * Unique operationId such as getAvExeTaskSetJtTaskResourceDemandArray.
+   */
+  private operationId(group: OperationGroup, used: Set<string>): string {
+    const names = [
+      group.info.entitySet,
+      ...group.info.navigation.map((n) => n.property),
+      group.info.operation?.name,
+    ].filter((n): n is string => Boolean(n));
+
+    const keyed = group.pathParameters.length > 0 && !group.info.operation ? 'ByKey' : '';
+    const base = `${group.method}${names.map((n) => n.replace(/\W/g, '')).join('')}${keyed}`;
+
+    let candidate = base;
+    let counter = 2;
+    while (used.has(candidate)) {
+      candidate = `${base}${counter}`;
+      counter++;
+    }
+    used.add(candidate);
+    return candidate;
+  }
+
+  /**
+   * Split a resource path on slashes outside quotes and parentheses.
+   */
+  private splitSegments(path: string): string[] {
+    return this.splitOutside(path, '/').filter(Boolean);
+  }
+
+  private splitPredicate(predicate: string): string[] {
+    return this.splitOutside(predicate, ',');
+  }
+
+  private splitOutside(value: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let inQuotes = false;
+    let current = '';
+
+    for (const char of value) {
+      if (char === "'") {
+        inQuotes = !inQuotes;
+      } else if (!inQuotes && char === '(') {
+        depth++;
+      } else if (!inQuotes && char === ')') {
+        depth--;
+      } else if (!inQuotes && depth === 0 && char === separator) {
+        parts.push(current);
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    parts.push(current);
+    return parts;
+  }
+
+  private withoutAnnotations(obj: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(obj).filter(([key]) => !key.startsWith('@odata.')));
+  }
+
+  /**
+   * Drop undefined values so the document validates and serializes cleanly.
+   */
+  private withoutUndefined(value: unknown): unknown {
+    return JSON.parse(JSON.stringify(value)) as unknown;
+  }
+
+  private parseJson(text: string | undefined): unknown {
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
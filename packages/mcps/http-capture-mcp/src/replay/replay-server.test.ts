@@ -0,0 +1,114 @@
+/**
+ * Replay server tests.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import type { CapturedRequest, CapturedResponse } from '../types.js';
+import { ReplayServer } from './replay-server.js';
+
+const SERVICE_URL =
+  'https://erp.example.com/main/ifsapplications/projection/v1/FlmTaskDetailHandling.svc';
+
+function recorded(id: string, path: string, response: Partial<CapturedResponse>): CapturedRequest {
+  return {
+    id,
+    method: 'GET',
+    url: `${SERVICE_URL}/${path}`,
+    headers: {},
+    timestamp: '2024-01-15T10:30:00.000Z',
+    sequence: 1,
+    state: 'completed',
+    response: {
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+      body: '{}',
+      responseTimeMs: 10,
+      ...response,
+    },
+  };
+}
+
+describe('ReplayServer', () => {
+  let server: ReplayServer | null = null;
+
+  async function serve(requests: CapturedRequest[]): Promise<string> {
+    server = new ReplayServer(requests, { strategy: 'exact', host: '127.0.0.1', port: 0 });
+    const { baseUrl } = await server.start();
+    return `${baseUrl}/main/ifsapplications/projection/v1/FlmTaskDetailHandling.svc`;
+  }
+
+  afterEach(async () => {
+    await server?.stop();
+    server = null;
+  });
+
+  it('serves recorded responses and reports unmatched requests', async () => {
+    const baseUrl = await serve([
+      recorded('req-1', 'AvExeTaskSet?$top=1', {
+        headers: {
+          'content-type': 'application/json',
+          'content-length': '999',
+          'x-secret': '[REDACTED]',
+        },
+        body: '{"value":[]}',
+      }),
+    ]);
+
+    const response = await fetch(`${baseUrl}/AvExeTaskSet?$top=1`);
+    const missing = await fetch(`${baseUrl}/AvExeTaskSet?$top=2`);
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('{"value":[]}');
+    expect(response.headers.get('x-replay-request-id')).toBe('req-1');
+    expect(response.headers.get('x-secret')).toBeNull();
+    expect(missing.status).toBe(404);
+    expect(server?.getStats()).toMatchObject({
+      recordedCount: 1,
+      servedCount: 1,
+      unmatched: [{ method: 'GET' }],
+    });
+  });
+
+  it('drops pseudo-headers and encodes header values outside Latin-1', async () => {
+    const baseUrl = await serve([
+      recorded('req-1', 'ReportSet', {
+        headers: {
+          ':status': '200',
+          'content-type': 'application/pdf',
+          'content-disposition': 'attachment; filename="报告.pdf"',
+        },
+      }),
+    ]);
+
+    const response = await fetch(`${baseUrl}/ReportSet`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/pdf');
+    expect(response.headers.get('content-disposition')).toBe(
+      `attachment; filename="${encodeURIComponent('报告')}.pdf"`
+    );
+  });
+
+  it('clamps statuses Node cannot write', async () => {
+    const baseUrl = await serve([recorded('req-1', 'TaskSet', { status: 1200 })]);
+
+    expect((await fetch(`${baseUrl}/TaskSet`)).status).toBe(999);
+  });
+
+  it('answers 500 instead of crashing when a recorded response cannot be written', async () => {
+    const baseUrl = await serve([
+      recorded('req-1', 'TaskSet', { statusText: 'OK\r\nx-injected: 1' }),
+      recorded('req-2', 'OtherSet', {}),
+    ]);
+
+    const failed = await fetch(`${baseUrl}/TaskSet`);
+    const next = await fetch(`${baseUrl}/OtherSet`);
+
+    expect(failed.status).toBe(500);
+    expect(await failed.json()).toMatchObject({ error: { code: 'REPLAY_INVALID_RESPONSE' } });
+    expect(failed.headers.get('x-injected')).toBeNull();
+    expect(next.status).toBe(200);
+    expect(server?.getStats().servedCount).toBe(1);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Local mock OData server.
+ * Serves recorded responses from a capture session or HAR file over local HTTP.
+ */
+
+import {
+  createServer,
+  validateHeaderName,
+  validateHeaderValue,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { CapturedRequest, ReplayServerConfig, ReplayStrategy } from '../types.js';
+
+/**
+ * Query parameters that only bust caches and never change the response.
+ */
+const VOLATILE_QUERY_PARAMS = new Set(['_', '_t', '_ts', 'timestamp', 'cachebuster', 'nocache', 'rnd', 'random']);
+
+/**
+ * GUID and ISO date/time literals that change between runs.
+ */
+const VOLATILE_LITERAL_PATTERN =
+  /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})?)?/gi;
+
+/**
+ * Response headers that are not replayed (the server sets its own framing).
+ */
+const SKIPPED_RESPONSE_HEADERS = new Set([
+  'content-length',
+  'content-encoding',
+  'transfer-encoding',
+  'connection',
+  'keep-alive',
+  'set-cookie',
+]);
+
+/**
+ * Request that had no recorded response.
+ */
+export interface UnmatchedReplayRequest {
+  method: string;
+  url: string;
+  timestamp: string;
+}
+
+/**
+ * Serves recorded responses for requests matching the capture.
+ */
+export class ReplayServer {
+  private readonly config: ReplayServerConfig;
+  private readonly recordings = new Map<string, CapturedRequest[]>();
+  private readonly cursors = new Map<string, number>();
+  private readonly unmatched: UnmatchedReplayRequest[] = [];
+  private server: Server | null = null;
+  private servedCount = 0;
+  private recordedCount = 0;
+
+  constructor(requests: CapturedRequest[], config: ReplayServerConfig) {
+    this.config = config;
+
+    for (const request of requests) {
+      // Failed or pending requests have nothing to replay
+      if (!request.response) {
+        continue;
+      }
+
+      const key = this.matchKey(request.method, request.url);
+      const entries = this.recordings.get(key) ?? [];
+      entries.push(request);
+      this.recordings.set(key, entries);
+      this.recordedCount++;
+    }
+  }
+
+  /**
+   * Start listening. Returns the base URL to point clients at.
+   */
+  async start(): Promise<{ baseUrl: string; port: number }> {
+    if (this.server) {
+      throw new Error('Replay server already started');
+    }
+
+    const server = createServer((req, res) => this.handleRequest(req, res));
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const { port } = server.address() as AddressInfo;
+    return { baseUrl: `http://${this.config.host}:${port}`, port };
+  }
+
+  /**
+   * Stop listening and drop open connections.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Get replay statistics.
+   */
+  getStats(): {
+    strategy: ReplayStrategy;
+    recordedCount: number;
+    servedCount: number;
+    unmatched: UnmatchedReplayRequest[];
+  } {
+    return {
+      strategy: this.config.strategy,
+      recordedCount: this.recordedCount,
+      servedCount: this.servedCount,
+      unmatched: [...this.unmatched],
+    };
+  }
+
+  /**
+   * Serve the recorded response for an incoming request.
+   */
+  private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+    // Request bodies are not used for matching
+    req.resume();
+
+    const method = (req.method ?? 'GET').toUpperCase();
+    const url = `http://${this.config.host}${req.url ?? '/'}`;
+    const recorded = this.findRecording(method, url);
+
+    if (!recorded?.response) {
+      this.unmatched.push({ method, url: req.url ?? '/', timestamp: new Date().toISOString() });
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({
+        error: {
+          code: 'REPLAY_NO_MATCH',
+          message: `No recorded response for ${method} ${req.url ?? '/'}`,
+        },
+      }));
+      return;
+    }
+
+    const headers = this.toResponseHeaders(recorded.response.headers);
+    headers['x-replay-request-id'] = recorded.id;
+
+    try {
+      res.writeHead(this.toStatus(recorded.response.status), recorded.response.statusText || undefined, headers);
+      res.end(recorded.response.body ?? '');
+      this.servedCount++;
+    } catch (error) {
+      // A recorded response Node refuses to write must not take the server down
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      // The failed writeHead may have kept the recorded status text, so it is replaced explicitly
+      res.writeHead(500, 'Internal Server Error', { 'content-type': 'application/json' });
+      res.end(JSON.stringify({
+        error: {
+          code: 'REPLAY_INVALID_RESPONSE',
+          message: `Recorded response ${recorded.id} cannot be replayed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      }));
+    }
+  }
+
+  /**
+   * Recorded headers that can be replayed. Pseudo-headers (:status) and other invalid names are dropped;
+   * characters outside Latin-1 (e.g. non-ASCII file names) are percent-encoded.
+   */
+  private toResponseHeaders(recorded: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(recorded)) {
+      // Redacted values were never recorded, so they are not replayed
+      if (SKIPPED_RESPONSE_HEADERS.has(name.toLowerCase()) || value === '[REDACTED]') {
+        continue;
+      }
+
+      try {
+        validateHeaderName(name);
+        const replayed = value.replace(/[^\t\x20-\x7e\x80-\xff]/gu, (char) => encodeURIComponent(char));
+        validateHeaderValue(name, replayed);
+        headers[name] = replayed;
+      } catch {
+        continue;
+      }
+    }
+
+    return headers;
+  }
+
+  /**
+   * Clamp a recorded status to the range Node accepts.
+   */
+  private toStatus(status: number): number {
+    return Number.isFinite(status) ? Math.min(999, Math.max(100, Math.trunc(status))) : 500;
+  }
+
+  /**
+   * Pick the recording for a request according to the strategy.
+   */
+  private findRecording(method: string, url: string): CapturedRequest | undefined {
+    const key = this.matchKey(method, url);
+    const entries = this.recordings.get(key);
+    if (!entries || entries.length === 0) {
+      return undefined;
+    }
+
+    if (this.config.strategy !== 'sequential') {
+      return entries[0];
+    }
+
+    // Repeated calls get the recorded responses in order; the last one repeats once exhausted
+    const cursor = this.cursors.get(key) ?? 0;
+    this.cursors.set(key, cursor + 1);
+    return entries[Math.min(cursor, entries.length - 1)];
+  }
+
+  /**
+   * Build the lookup key from method, path (with key predicates) and query options.
+   */
+  private matchKey(method: string, url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return `${method.toUpperCase()} ${url}`;
+    }
+
+    const ignoreVolatile = this.config.strategy !== 'exact';
+    let path = this.safeDecode(parsed.pathname);
+    if (ignoreVolatile) {
+      path = path.replace(VOLATILE_LITERAL_PATTERN, '*');
+    }
+
+    const params: string[] = [];
+    for (const [name, value] of parsed.searchParams.entries()) {
+      if (ignoreVolatile && VOLATILE_QUERY_PARAMS.has(name.toLowerCase())) {
+        continue;
+      }
+      params.push(`${name}=${ignoreVolatile ? value.replace(VOLATILE_LITERAL_PATTERN, '*') : value}`);
+    }
+
+    // Query option order does not change an OData request
+    params.sort();
+    return `${method.toUpperCase()} ${path}?${params.join('&')}`;
+  }
+
+  private safeDecode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+}
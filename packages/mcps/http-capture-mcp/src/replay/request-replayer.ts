@@ -0,0 +1,136 @@
+/**
+ * Re-issuing of captured requests.
+ * Sends a captured request again from the page, so the session's cookies and origin apply.
+ */
+
+import type { Page, Request } from 'playwright';
+import type { RequestOverrides } from '../types.js';
+
+/**
+ * Headers the browser sets itself; fetch() refuses or ignores them.
+ */
+const BROWSER_MANAGED_HEADERS = new Set([
+  'host',
+  'cookie',
+  'content-length',
+  'connection',
+  'keep-alive',
+  'origin',
+  'referer',
+  'user-agent',
+  'accept-encoding',
+  'transfer-encoding',
+  'te',
+  'trailer',
+  'upgrade',
+  'expect',
+]);
+
+/**
+ * Request ready to be sent, with unredacted headers and body.
+ */
+export interface PreparedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * Outcome of sending a prepared request from the page.
+ */
+export interface ReplayFetchResult {
+  status: number;
+  statusText: string;
+}
+
+/**
+ * Apply a JSON merge patch (RFC 7396): objects are merged recursively, null removes a member,
+ * any other value (including arrays) replaces the target.
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, unknown> =
+    typeof target === 'object' && target !== null && !Array.isArray(target)
+      ? { ...(target as Record<string, unknown>) }
+      : {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Re-issues browser requests with optional changes.
+ */
+export class RequestReplayer {
+  /**
+   * Build the request to send from the original browser request and the overrides.
+   */
+  async prepare(source: Request, overrides: RequestOverrides): Promise<PreparedRequest> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(await source.allHeaders())) {
+      const lower = name.toLowerCase();
+      // HTTP/2 pseudo-headers (:authority) and fetch metadata (sec-fetch-*) come from the browser
+      if (!BROWSER_MANAGED_HEADERS.has(lower) && !lower.startsWith(':') && !lower.startsWith('sec-')) {
+        headers[lower] = value;
+      }
+    }
+
+    for (const [name, value] of Object.entries(overrides.headers ?? {})) {
+      if (value === null) {
+        delete headers[name.toLowerCase()];
+      } else {
+        headers[name.toLowerCase()] = value;
+      }
+    }
+
+    let body = source.postData() ?? undefined;
+    if (overrides.bodyPatch !== undefined) {
+      let data: unknown;
+      try {
+        data = JSON.parse(body ?? '') as unknown;
+      } catch {
+        throw new Error('A body patch needs a request with a JSON body');
+      }
+      body = JSON.stringify(applyMergePatch(data, overrides.bodyPatch));
+      headers['content-type'] ??= 'application/json';
+    }
+
+    return {
+      method: source.method(),
+      url: overrides.url ? new URL(overrides.url, source.url()).href : source.url(),
+      headers,
+      body,
+    };
+  }
+
+  /**
+   * Send a prepared request with fetch() in the page. The browser adds the session cookies,
+   * and the request is captured like any other page request. The fetch is aborted after timeoutMs.
+   */
+  async send(page: Page, request: PreparedRequest, timeoutMs: number): Promise<ReplayFetchResult> {
+    // Script is passed as string to avoid TypeScript errors with browser globals
+    return page.evaluate<ReplayFetchResult>(`
+      (async () => {
+        const request = ${JSON.stringify(request)};
+        const response = await fetch(request.url, {
+          method: request.method,
+          headers: request.headers,
+          body: request.body,
+          credentials: 'include',
+          signal: AbortSignal.timeout(${Math.max(0, Math.round(timeoutMs))}),
+        });
+        return { status: response.status, statusText: response.statusText };
+      })()
+    `);
+  }
+}
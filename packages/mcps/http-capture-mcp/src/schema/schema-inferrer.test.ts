@@ -0,0 +1,157 @@
+/**
+ * Schema inferrer tests.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { SchemaInferrer } from './schema-inferrer.js';
+
+function infer(
+  samples: unknown[],
+  inferrer = new SchemaInferrer()
+): Record<string, unknown> | null {
+  for (const sample of samples) {
+    inferrer.addSample(sample);
+  }
+  return inferrer.getSchema();
+}
+
+describe('SchemaInferrer', () => {
+  it('returns null before any sample was added', () => {
+    const inferrer = new SchemaInferrer();
+
+    expect(inferrer.getSchema()).toBeNull();
+    expect(inferrer.getSampleCount()).toBe(0);
+  });
+
+  it('infers property types, presence and required properties', () => {
+    const schema = infer([
+      { TaskSeq: 1, Description: 'Replace filter', Hours: 2 },
+      { TaskSeq: 2, Description: null, Hours: 1.5, Urgent: true },
+    ]);
+
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        TaskSeq: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 2,
+          examples: [1, 2],
+          'x-presence': { present: 2, total: 2 },
+        },
+        Description: {
+          type: ['string', 'null'],
+          minLength: 14,
+          maxLength: 14,
+          examples: ['Replace filter'],
+          'x-presence': { present: 2, total: 2 },
+        },
+        Hours: {
+          type: 'number',
+          minimum: 1.5,
+          maximum: 2,
+          examples: [2, 1.5],
+          'x-presence': { present: 2, total: 2 },
+        },
+        Urgent: { type: 'boolean', examples: [true], 'x-presence': { present: 1, total: 2 } },
+      },
+      required: ['TaskSeq', 'Description', 'Hours'],
+    });
+  });
+
+  it('infers array items across all elements', () => {
+    const schema = infer([{ value: [{ ResourceId: 'A' }, { ResourceId: 'B', Hours: 2 }] }]);
+
+    expect(schema).toMatchObject({
+      properties: {
+        value: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              ResourceId: { 'x-presence': { present: 2, total: 2 } },
+              Hours: { 'x-presence': { present: 1, total: 2 } },
+            },
+            required: ['ResourceId'],
+          },
+        },
+      },
+    });
+  });
+
+  it('reports repeated low-cardinality strings as enums', () => {
+    const samples = ['PLANNED', 'RELEASED', 'PLANNED', 'RELEASED', null].map((Objstate) => ({
+      Objstate,
+    }));
+
+    expect(infer(samples)?.['properties']).toMatchObject({
+      Objstate: {
+        type: ['string', 'null'],
+        enum: ['PLANNED', 'RELEASED', null],
+        minLength: 7,
+        maxLength: 8,
+      },
+    });
+  });
+
+  it('does not report free text or too many distinct values as enums', () => {
+    const distinct = infer(
+      ['A', 'B', 'C', 'A', 'B', 'C'].map((Code) => ({ Code })),
+      new SchemaInferrer({ maxEnumValues: 2 })
+    );
+    const unique = infer(['A', 'B'].map((Code) => ({ Code })));
+
+    expect(distinct?.['properties']).toMatchObject({ Code: { examples: ['A', 'B', 'C'] } });
+    expect(distinct?.['properties']).not.toMatchObject({ Code: { enum: expect.anything() } });
+    expect(unique?.['properties']).not.toMatchObject({ Code: { enum: expect.anything() } });
+  });
+
+  it('detects string formats and drops the format when values disagree', () => {
+    const schema = infer([
+      {
+        Created: '2024-01-15T10:30:00Z',
+        Due: '2024-01-20',
+        Email: 'planner@example.com',
+        Link: 'https://erp.example.com',
+        Id: '3f2504e0-4f89-11d3-9a0c-0305e82c3301',
+        Mixed: '2024-01-20',
+      },
+      { Mixed: 'soon' },
+    ]);
+
+    expect(schema?.['properties']).toMatchObject({
+      Created: { type: 'string', format: 'date-time' },
+      Due: { type: 'string', format: 'date' },
+      Email: { type: 'string', format: 'email' },
+      Link: { type: 'string', format: 'uri' },
+      Id: { type: 'string', format: 'uuid' },
+      Mixed: { type: 'string', minLength: 4, maxLength: 10 },
+    });
+    expect(schema?.['properties']).not.toMatchObject({ Mixed: { format: expect.anything() } });
+  });
+
+  it('marks OData annotations read-only and leaves them out of required', () => {
+    const schema = infer([
+      { '@odata.etag': 'W/"1"', TaskSeq: 1, 'Picture@odata.mediaReadLink': 'Picture' },
+      { '@odata.etag': 'W/"2"', TaskSeq: 2, 'Picture@odata.mediaReadLink': 'Picture' },
+    ]);
+
+    expect(schema?.['properties']).toMatchObject({
+      '@odata.etag': { type: 'string', readOnly: true, 'x-presence': { present: 2, total: 2 } },
+      'Picture@odata.mediaReadLink': { type: 'string', readOnly: true },
+    });
+    expect(schema?.['properties']).not.toMatchObject({
+      '@odata.etag': { examples: expect.anything() },
+    });
+    expect(schema?.['required']).toEqual(['TaskSeq']);
+  });
+
+  it('keeps at most maxExamples distinct examples', () => {
+    const schema = infer(
+      [1, 2, 2, 3, 4].map((Hours) => ({ Hours })),
+      new SchemaInferrer({ maxExamples: 2 })
+    );
+
+    expect(schema?.['properties']).toMatchObject({ Hours: { examples: [1, 2] } });
+  });
+});
@@ -3,33 +3,79 @@
  * Builds schemas from captured response payloads.
  */
 
+/**
+ * Options for schema inference.
+ */
+export interface SchemaInferenceOptions {
+  /** Most distinct values a string field may have to be reported as an enum (default: 10) */
+  maxEnumValues?: number;
+  /** Example values kept per field (default: 3) */
+  maxExamples?: number;
+}
+
+/**
+ * JSON types in the order they are listed in a type array.
+ */
+const TYPE_ORDER = ['object', 'array', 'string', 'integer', 'number', 'boolean', 'null'];
+
+/**
+ * Longest string value that can be an enum member (codes and states, not free text).
+ */
+const MAX_ENUM_VALUE_LENGTH = 40;
+
+/**
+ * Statistics collected for one position in the sampled documents.
+ */
+interface FieldStats {
+  /** Values observed (including null) */
+  count: number;
+  types: Set<string>;
+  /** Format of every string value so far; null once they differ */
+  format: string | null | undefined;
+  /** Distinct string values with counts; null once there are too many for an enum */
+  stringValues: Map<string, number> | null;
+  stringCount: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  examples: Array<string | number | boolean>;
+  /** Objects observed, and how often each property appeared in them */
+  objectCount: number;
+  properties: Map<string, FieldStats>;
+  items: FieldStats | null;
+}
+
 /**
  * Infers JSON Schema from sample objects.
  */
 export class SchemaInferrer {
-  private schema: Record<string, unknown> | null = null;
+  private readonly maxEnumValues: number;
+  private readonly maxExamples: number;
+  private root: FieldStats | null = null;
   private sampleCount = 0;
 
+  constructor(options: SchemaInferenceOptions = {}) {
+    this.maxEnumValues = options.maxEnumValues ?? 10;
+    this.maxExamples = options.maxExamples ?? 3;
+  }
+
   /**
    * Add a sample object to infer schema from.
    */
   addSample(data: unknown): void {
-    const inferred = this.inferFromValue(data);
-    
-    if (!this.schema) {
-      this.schema = inferred;
-    } else {
-      this.schema = this.mergeSchemas(this.schema, inferred);
-    }
-    
+    this.root = this.root ?? this.createStats();
+    this.observe(this.root, data);
     this.sampleCount++;
   }
 
   /**
    * Get the inferred schema.
+   * Fields that were sometimes null get a type array (["string", "null"]); properties carry
+   * x-presence with the number of objects they appeared in.
    */
   getSchema(): Record<string, unknown> | null {
-    return this.schema;
+    return this.root ? this.toSchema(this.root, false) : null;
   }
 
   /**
@@ -39,178 +85,213 @@ export class SchemaInferrer {
     return this.sampleCount;
   }
 
+  private createStats(): FieldStats {
+    return {
+      count: 0,
+      types: new Set(),
+      format: undefined,
+      stringValues: new Map(),
+      stringCount: 0,
+      examples: [],
+      objectCount: 0,
+      properties: new Map(),
+      items: null,
+    };
+  }
+
   /**
-   * Infer schema from a value.
+   * Record a value in the statistics of its position.
    */
-  private inferFromValue(value: unknown): Record<string, unknown> {
-    if (value === null) {
-      return { type: 'null' };
-    }
+  private observe(stats: FieldStats, value: unknown): void {
+    stats.count++;
 
-    if (value === undefined) {
-      return { type: 'null' };
+    if (value === null || value === undefined) {
+      stats.types.add('null');
+      return;
     }
 
     if (Array.isArray(value)) {
-      return this.inferFromArray(value);
+      stats.types.add('array');
+      stats.items = stats.items ?? this.createStats();
+      for (const item of value) {
+        this.observe(stats.items, item);
+      }
+      return;
     }
 
     if (typeof value === 'object') {
-      return this.inferFromObject(value as Record<string, unknown>);
+      stats.types.add('object');
+      stats.objectCount++;
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        let property = stats.properties.get(key);
+        if (!property) {
+          property = this.createStats();
+          stats.properties.set(key, property);
+        }
+        this.observe(property, child);
+      }
+      return;
     }
 
     if (typeof value === 'string') {
-      return this.inferFromString(value);
+      this.observeString(stats, value);
+    } else if (typeof value === 'number') {
+      stats.types.add(Number.isInteger(value) ? 'integer' : 'number');
+      stats.minimum = Math.min(stats.minimum ?? value, value);
+      stats.maximum = Math.max(stats.maximum ?? value, value);
+    } else if (typeof value === 'boolean') {
+      stats.types.add('boolean');
+    } else {
+      stats.types.add('string');
+      return;
     }
 
-    if (typeof value === 'number') {
-      return Number.isInteger(value) ? { type: 'integer' } : { type: 'number' };
-    }
+    this.addExample(stats, value);
+  }
+
+  private observeString(stats: FieldStats, value: string): void {
+    stats.types.add('string');
+    stats.stringCount++;
+    stats.minLength = Math.min(stats.minLength ?? value.length, value.length);
+    stats.maxLength = Math.max(stats.maxLength ?? value.length, value.length);
+
+    const format = this.detectFormat(value) ?? null;
+    stats.format = stats.format === undefined || stats.format === format ? format : null;
 
-    if (typeof value === 'boolean') {
-      return { type: 'boolean' };
+    if (stats.stringValues) {
+      stats.stringValues.set(value, (stats.stringValues.get(value) ?? 0) + 1);
+      if (stats.stringValues.size > this.maxEnumValues || value.length > MAX_ENUM_VALUE_LENGTH) {
+        stats.stringValues = null;
+      }
     }
+  }
 
-    return { type: 'string' };
+  private addExample(stats: FieldStats, value: string | number | boolean): void {
+    if (stats.examples.length < this.maxExamples && !stats.examples.includes(value)) {
+      stats.examples.push(value);
+    }
   }
 
   /**
-   * Infer schema from an array.
+   * Build the schema of a position from its statistics.
+   * OData annotations (@odata.etag, @odata.context) are server-managed: marked read-only, without
+   * enums, ranges or examples.
    */
-  private inferFromArray(arr: unknown[]): Record<string, unknown> {
-    if (arr.length === 0) {
-      return {
-        type: 'array',
-        items: {},
-      };
+  private toSchema(stats: FieldStats, annotation: boolean): Record<string, unknown> {
+    // integer and number samples of the same field are numbers
+    const types = TYPE_ORDER.filter(
+      (type) => stats.types.has(type) && !(type === 'integer' && stats.types.has('number'))
+    );
+    if (types.length === 0) {
+      return {};
     }
 
-    // Merge schemas from all items
-    let itemSchema: Record<string, unknown> | null = null;
-    for (const item of arr) {
-      const inferred = this.inferFromValue(item);
-      if (!itemSchema) {
-        itemSchema = inferred;
-      } else {
-        itemSchema = this.mergeSchemas(itemSchema, inferred);
-      }
+    const schema: Record<string, unknown> = { type: types.length === 1 ? types[0] : types };
+    if (annotation) {
+      schema['readOnly'] = true;
     }
 
-    return {
-      type: 'array',
-      items: itemSchema,
-    };
+    if (stats.types.has('string')) {
+      this.addStringKeywords(schema, stats, annotation);
+    }
+
+    if (!annotation && (stats.minimum !== undefined || stats.maximum !== undefined)) {
+      schema['minimum'] = stats.minimum;
+      schema['maximum'] = stats.maximum;
+    }
+
+    if (stats.types.has('object')) {
+      this.addObjectKeywords(schema, stats);
+    }
+
+    if (stats.types.has('array')) {
+      schema['items'] = stats.items ? this.toSchema(stats.items, false) : {};
+    }
+
+    if (!annotation && stats.examples.length > 0 && schema['enum'] === undefined) {
+      schema['examples'] = stats.examples;
+    }
+
+    return schema;
+  }
+
+  private addStringKeywords(schema: Record<string, unknown>, stats: FieldStats, annotation: boolean): void {
+    if (stats.format) {
+      // Lengths of dates, GUIDs and URIs say nothing beyond the format
+      schema['format'] = stats.format;
+      return;
+    }
+    if (annotation) {
+      return;
+    }
+
+    // Low-cardinality values that repeat (Objstate, enumerations) rather than free text or keys
+    const values = stats.stringValues;
+    if (values && values.size > 0 && stats.stringCount >= values.size * 2) {
+      const members: Array<string | null> = [...values.keys()].sort();
+      schema['enum'] = stats.types.has('null') ? [...members, null] : members;
+    }
+
+    schema['minLength'] = stats.minLength;
+    schema['maxLength'] = stats.maxLength;
   }
 
   /**
-   * Infer schema from an object.
+   * Properties present in every object are required; each property records how often it was present.
    */
-  private inferFromObject(obj: Record<string, unknown>): Record<string, unknown> {
+  private addObjectKeywords(schema: Record<string, unknown>, stats: FieldStats): void {
     const properties: Record<string, unknown> = {};
     const required: string[] = [];
 
-    for (const [key, value] of Object.entries(obj)) {
-      properties[key] = this.inferFromValue(value);
-      if (value !== null && value !== undefined) {
+    for (const [key, property] of stats.properties) {
+      const annotation = this.isAnnotation(key);
+      properties[key] = {
+        ...this.toSchema(property, annotation),
+        'x-presence': { present: property.count, total: stats.objectCount },
+      };
+      if (!annotation && property.count === stats.objectCount) {
         required.push(key);
       }
     }
 
-    return {
-      type: 'object',
-      properties,
-      required: required.length > 0 ? required : undefined,
-    };
+    schema['properties'] = properties;
+    if (required.length > 0) {
+      schema['required'] = required;
+    }
+  }
+
+  /**
+   * OData control information: @odata.context, @odata.etag, Property@odata.type and similar.
+   */
+  private isAnnotation(key: string): boolean {
+    return key.startsWith('@') || key.includes('@odata.');
   }
 
   /**
-   * Infer schema from a string, detecting common formats.
+   * Detect common string formats.
    */
-  private inferFromString(value: string): Record<string, unknown> {
-    // Check for common formats
+  private detectFormat(value: string): string | undefined {
     if (this.isIsoDate(value)) {
-      return { type: 'string', format: 'date-time' };
+      return 'date-time';
     }
 
     if (this.isDate(value)) {
-      return { type: 'string', format: 'date' };
+      return 'date';
     }
 
     if (this.isEmail(value)) {
-      return { type: 'string', format: 'email' };
+      return 'email';
     }
 
     if (this.isUri(value)) {
-      return { type: 'string', format: 'uri' };
+      return 'uri';
     }
 
     if (this.isUuid(value)) {
-      return { type: 'string', format: 'uuid' };
-    }
-
-    return { type: 'string' };
-  }
-
-  /**
-   * Merge two schemas together.
-   */
-  private mergeSchemas(
-    schema1: Record<string, unknown>,
-    schema2: Record<string, unknown>
-  ): Record<string, unknown> {
-    const type1 = schema1['type'] as string;
-    const type2 = schema2['type'] as string;
-
-    // If types differ, create anyOf
-    if (type1 !== type2) {
-      return {
-        anyOf: [schema1, schema2],
-      };
-    }
-
-    // Merge object schemas
-    if (type1 === 'object') {
-      const props1 = (schema1['properties'] ?? {}) as Record<string, unknown>;
-      const props2 = (schema2['properties'] ?? {}) as Record<string, unknown>;
-      const required1 = new Set((schema1['required'] ?? []) as string[]);
-      const required2 = new Set((schema2['required'] ?? []) as string[]);
-
-      const mergedProps: Record<string, unknown> = { ...props1 };
-      
-      for (const [key, value] of Object.entries(props2)) {
-        if (mergedProps[key]) {
-          mergedProps[key] = this.mergeSchemas(
-            mergedProps[key] as Record<string, unknown>,
-            value as Record<string, unknown>
-          );
-        } else {
-          mergedProps[key] = value;
-        }
-      }
-
-      // Required only if required in both
-      const mergedRequired = [...required1].filter((r) => required2.has(r));
-
-      return {
-        type: 'object',
-        properties: mergedProps,
-        required: mergedRequired.length > 0 ? mergedRequired : undefined,
-      };
-    }
-
-    // Merge array schemas
-    if (type1 === 'array') {
-      const items1 = (schema1['items'] ?? {}) as Record<string, unknown>;
-      const items2 = (schema2['items'] ?? {}) as Record<string, unknown>;
-
-      return {
-        type: 'array',
-        items: this.mergeSchemas(items1, items2),
-      };
+      return 'uuid';
     }
 
-    // For primitive types, return first (or merge formats)
-    return schema1;
+    return undefined;
   }
 
   // Format detection helpers
@@ -0,0 +1,43 @@
+/**
+ * Security config file loading.
+ * Reads config/security.json once; the section readers turn its sections into settings.
+ */
+
+import { readFile } from 'node:fs/promises';
+
+/**
+ * Parsed security config file. Sections are validated by their readers.
+ */
+export type SecurityConfigFile = Record<string, unknown>;
+
+/**
+ * Read a security config file.
+ * Returns null when the file does not exist; throws when it cannot be read or is not a JSON object.
+ */
+export async function readSecurityConfig(configPath: string): Promise<SecurityConfigFile | null> {
+  let content: string;
+  try {
+    content = await readFile(configPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  const config = JSON.parse(content) as unknown;
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error('The security config must be a JSON object');
+  }
+  return config as SecurityConfigFile;
+}
+
+/**
+ * Get a section of the security config. Missing sections and sections that are not objects are empty.
+ */
+export function getConfigSection(config: SecurityConfigFile, name: string): Record<string, unknown> {
+  const section = config[name];
+  return typeof section === 'object' && section !== null && !Array.isArray(section)
+    ? (section as Record<string, unknown>)
+    : {};
+}
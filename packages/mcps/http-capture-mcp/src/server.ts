@@ -2,13 +2,117 @@
  * HTTP Capture MCP Server implementation.
  */
 
-import { BaseMcpServer, createSchema } from '@ifs/mcp-core';
+import { mkdir, mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { BaseMcpServer, createSchema, type McpTool, type ToolHandler } from '@ifs/mcp-core';
 import { createDomainAllowlist, createHeaderRedactor, createBodyRedactor } from '@ifs/security';
 import { createLogger, createAuditLogger, type AuditLogger } from '@ifs/logging';
+import type { Page } from 'playwright';
+import { AuthStateStore, type AuthStatePayload } from './auth/auth-state-store.js';
+import { DEFAULT_SESSION_ISOLATION, getSessionIsolation } from './auth/session-isolation.js';
 import { BrowserManager } from './browser/browser-manager.js';
-import { RequestCapture } from './capture/request-capture.js';
+import { PageRegistry } from './browser/page-registry.js';
+import { PageSnapshotter, type PageSnapshot, type PageSnapshotOptions } from './browser/page-snapshot.js';
+import { SessionReaper, type SessionExpiryReason } from './browser/session-reaper.js';
+import { ActionAttributor } from './capture/action-attributor.js';
+import { AllowlistInterceptor } from './capture/allowlist-interceptor.js';
+import { DEFAULT_ALLOWLIST_SETTINGS, getAllowlistSettings } from './capture/allowlist-settings.js';
+import { BinaryStore } from './capture/binary-store.js';
+import { BUILT_IN_CAPTURE_PROFILES, getCaptureProfile, parseCaptureRules } from './capture/capture-filter.js';
+import { ConsoleCollector } from './capture/console-collector.js';
+import { FAULT_ERROR_CODES, FaultInjector } from './capture/fault-injector.js';
+import { MAX_REPLAYABLE_REQUESTS, RequestCapture } from './capture/request-capture.js';
+import { DEFAULT_REQUEST_LIMITS, getRequestLimits } from './capture/request-limits.js';
+import { RequestMatcher, type MatchPhase } from './capture/request-matcher.js';
+import { CaptureDiffer, DEFAULT_VOLATILE_RULES, parseVolatileRules } from './diff/capture-differ.js';
+import type { CaptureDiff } from './diff/types.js';
+import { DataFlowTracer } from './flow/data-flow-tracer.js';
+import type { DataFlowGraph } from './flow/types.js';
+import { AssertionSuggester } from './generator/assertion-suggester.js';
+import { TarGenerator } from './generator/tar-generator.js';
+import { HarConverter } from './har/har-converter.js';
+import { BatchDecoder } from './odata/batch-decoder.js';
+import { CaptureSummarizer } from './odata/capture-summarizer.js';
+import { ODataParser } from './odata/odata-parser.js';
+import type { CaptureSummary, ODataRequestInfo } from './odata/types.js';
+import { OpenApiBuilder, type OpenApiBuildResult } from './openapi/openapi-builder.js';
+import { ReplayServer } from './replay/replay-server.js';
+import { RequestReplayer, type ReplayFetchResult } from './replay/request-replayer.js';
 import { SchemaInferrer } from './schema/schema-inferrer.js';
-import type { CapturedRequest, CaptureSession } from './types.js';
+import { readSecurityConfig } from './security-config.js';
+import { TraceRedactor } from './trace/trace-redactor.js';
+import type {
+  ActionWindow,
+  AllowlistSettings,
+  AuthRestoreResult,
+  BinaryCaptureMode,
+  CapturedRequest,
+  CaptureProfile,
+  CaptureSession,
+  ConsoleEntry,
+  FaultRule,
+  FaultType,
+  GeneratedTar,
+  GeneratedTarType,
+  OfflineSession,
+  PageTargetInfo,
+  RecordedWorkflow,
+  RequestLimits,
+  RequestMatchCriteria,
+  RequestOverrides,
+  ReplayStrategy,
+  SavedAuthInfo,
+  SessionIsolationConfig,
+  SkippedAssertionField,
+  StorageState,
+  SuggestedAssertion,
+  TriggeredRequest,
+  WorkflowActionType,
+  WorkflowReplayStepResult,
+  WorkflowStep,
+} from './types.js';
+import { parseWorkflow, REDACTED_INPUT, WorkflowRecorder } from './workflow/workflow-recorder.js';
+
+/**
+ * Pages an identity provider sends unauthenticated sessions to (Keycloak, OAuth authorize, login forms).
+ */
+const LOGIN_PAGE_PATTERN =
+  /\/protocol\/openid-connect\/auth\b|\/login-actions\/|\/oauth2?\/(?:v2\.0\/)?authorize\b|\/(?:login|sign-?in)(?:[/?#.]|$)/i;
+
+/**
+ * Tool arguments that name a capture session; calls with them count as session activity.
+ */
+const SESSION_ID_ARGUMENTS = ['sessionId', 'baselineSessionId', 'currentSessionId'];
+
+/**
+ * Selectors of inputs whose values are never written to a workflow file.
+ */
+const SENSITIVE_FIELD_PATTERN = /passw|pwd|secret|token/i;
+
+/**
+ * Stored upload/download copies per session (binaryCapture: store) when MAX_BINARY_STORE_MB is unset or invalid.
+ */
+const DEFAULT_MAX_BINARY_STORE_MB = 100;
+
+/**
+ * Age in hours after which saved login state expires when AUTH_STATE_MAX_AGE_HOURS is unset or invalid.
+ */
+const DEFAULT_AUTH_STATE_MAX_AGE_HOURS = 12;
+
+/**
+ * Workflow actions that wait for the page instead of acting on it.
+ */
+const WAIT_ACTIONS = new Set<WorkflowActionType>(['waitForSelector', 'waitForModal', 'waitForRequest', 'waitForResponse']);
+
+/**
+ * Maximum age of saved login state from AUTH_STATE_MAX_AGE_HOURS, in milliseconds.
+ * Without a positive number every state would be expired at once, or fail to save (NaN expiry date).
+ */
+function getAuthStateMaxAgeMs(): number {
+  const hours = parseFloat(process.env['AUTH_STATE_MAX_AGE_HOURS'] ?? '');
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_AUTH_STATE_MAX_AGE_HOURS) * 60 * 60 * 1000;
+}
 
 /**
  * HTTP Capture MCP Server.
@@ -17,12 +121,51 @@ import type { CapturedRequest, CaptureSession } from './types.js';
 export class HttpCaptureMcpServer extends BaseMcpServer {
   private readonly logger = createLogger({ name: 'http-capture-mcp' });
   private readonly auditLogger: AuditLogger;
-  private readonly domainAllowlist = createDomainAllowlist();
   private readonly headerRedactor = createHeaderRedactor();
   private readonly bodyRedactor = createBodyRedactor();
+  private readonly tarGenerator = new TarGenerator();
+  private readonly assertionSuggester = new AssertionSuggester();
+  private readonly dataFlowTracer = new DataFlowTracer();
+  private readonly odataParser = new ODataParser();
+  private readonly actionAttributor = new ActionAttributor();
+  private readonly requestReplayer = new RequestReplayer();
+  private readonly pageSnapshotter = new PageSnapshotter();
+  private readonly batchDecoder = new BatchDecoder({
+    headerRedactor: this.headerRedactor,
+    bodyRedactor: this.bodyRedactor,
+  });
+  private readonly captureSummarizer = new CaptureSummarizer(this.odataParser);
+  private readonly captureDiffer = new CaptureDiffer(this.odataParser);
+  private readonly openApiBuilder = new OpenApiBuilder(this.odataParser);
+  private readonly harConverter = new HarConverter({
+    headerRedactor: this.headerRedactor,
+    bodyRedactor: this.bodyRedactor,
+  });
+  private readonly traceRedactor = new TraceRedactor({
+    headerRedactor: this.headerRedactor,
+    bodyRedactor: this.bodyRedactor,
+  });
+  private readonly authStateStore = new AuthStateStore({
+    directory: process.env['AUTH_STATE_DIR'] ?? './.auth-state',
+    passphrase: process.env['AUTH_STATE_KEY'],
+    maxAgeMs: getAuthStateMaxAgeMs(),
+  });
   
   private browserManager: BrowserManager | null = null;
   private sessions = new Map<string, CaptureSession>();
+  private offlineSessions = new Map<string, OfflineSession>();
+  private replayServers = new Map<string, ReplayServer>();
+  private sessionIsolation: SessionIsolationConfig = DEFAULT_SESSION_ISOLATION;
+  private allowlistSettings: AllowlistSettings = DEFAULT_ALLOWLIST_SETTINGS;
+  private requestLimits: RequestLimits = DEFAULT_REQUEST_LIMITS;
+  private domainAllowlist = createDomainAllowlist();
+  private readonly sessionReaper = new SessionReaper({
+    idleTimeoutMs: parseFloat(process.env['SESSION_IDLE_TIMEOUT_MINUTES'] ?? '30') * 60 * 1000,
+    maxAgeMs: parseFloat(process.env['SESSION_MAX_AGE_MINUTES'] ?? '240') * 60 * 1000,
+    intervalMs: 60 * 1000,
+    getSessions: () => this.sessions.values(),
+    closeSession: (sessionId, reason) => this.expireSession(sessionId, reason),
+  });
 
   constructor() {
     super({
@@ -38,6 +181,20 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
     });
   }
 
+  /**
+   * Register a tool. Calls that name a session keep it from being closed as idle.
+   */
+  protected override registerTool(tool: McpTool, handler: ToolHandler): void {
+    super.registerTool(tool, async (args) => {
+      this.touchSessions(args);
+      try {
+        return await handler(args);
+      } finally {
+        this.touchSessions(args);
+      }
+    });
+  }
+
   protected registerTools(): void {
     // Tool: openUrl
     this.registerTool(
@@ -50,6 +207,14 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
           .boolean('waitForNetworkIdle', 'Wait for network to be idle before returning', { default: true })
           .string('httpUsername', 'Username for HTTP Basic/NTLM authentication (optional, can also use HTTP_USERNAME env var)')
           .string('httpPassword', 'Password for HTTP Basic/NTLM authentication (optional, can also use HTTP_PASSWORD env var)')
+          .string('authProfile', 'Start from the login state saved under this profile with saveAuthState (requires persistent storage to be allowed in the security config)')
+          .string('captureProfile', 'Which requests to capture (default: CAPTURE_PROFILE env var or "all")', {
+            enum: Object.keys(BUILT_IN_CAPTURE_PROFILES),
+          })
+          .boolean('trace', 'Record a Playwright trace of the session (actions, DOM snapshots, screenshots, network) for exportTrace', { default: false })
+          .string('binaryCapture', 'How file uploads and downloads are captured: metadata (size, hash, name, type) or store (also keep a copy in a session temp directory; requires binary content to be allowed in the security config). Default: BINARY_CAPTURE env var or metadata', {
+            enum: ['metadata', 'store'],
+          })
           .build(),
       },
       async (args) => this.handleOpenUrl(args as { 
@@ -58,6 +223,10 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
         waitForNetworkIdle?: boolean;
         httpUsername?: string;
         httpPassword?: string;
+        authProfile?: string;
+        captureProfile?: string;
+        trace?: boolean;
+        binaryCapture?: BinaryCaptureMode;
       })
     );
 
@@ -65,19 +234,35 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
     this.registerTool(
       {
         name: 'captureRequests',
-        description: 'Returns all captured HTTP requests from a session with redacted sensitive headers',
+        description: 'Returns the captured HTTP request timeline from a session (or offline HAR session) in order, with redacted sensitive headers. Repeated calls to the same URL are kept as separate entries.',
         inputSchema: createSchema()
           .string('sessionId', 'The session ID returned by openUrl', { required: true })
           .string('filterMethod', 'Filter by HTTP method (GET, POST, etc.)')
           .string('filterPathPattern', 'Filter by URL path regex pattern')
+          .integer('sinceSequence', 'Only return requests with a sequence number greater than this')
+          .boolean('includeFailed', 'Include failed and aborted requests', { default: true })
           .boolean('includeResponses', 'Include response data', { default: true })
+          .boolean('expandBatches', 'Return OData $batch calls as their individual sub-requests', { default: true })
+          .boolean('allowlistViolationsOnly', 'Only return requests to hosts outside the domain allowlist (blocked or flagged)', { default: false })
+          .string('filterPageId', 'Only return requests issued by this page (see listPages)')
+          .string('filterFrameId', 'Only return requests issued by this iframe (see listPages)')
+          .boolean('faultInjectedOnly', 'Only return requests a fault rule was applied to (see injectFault)', { default: false })
+          .boolean('fileTransfersOnly', 'Only return file uploads and downloads', { default: false })
           .build(),
       },
       async (args) => this.handleCaptureRequests(args as { 
         sessionId: string; 
         filterMethod?: string; 
         filterPathPattern?: string;
+        sinceSequence?: number;
+        includeFailed?: boolean;
         includeResponses?: boolean;
+        expandBatches?: boolean;
+        allowlistViolationsOnly?: boolean;
+        filterPageId?: string;
+        filterFrameId?: string;
+        faultInjectedOnly?: boolean;
+        fileTransfersOnly?: boolean;
       })
     );
 
@@ -85,7 +270,7 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
     this.registerTool(
       {
         name: 'getResponseSchema',
-        description: 'Infers JSON Schema from captured response payloads',
+        description: 'Infers JSON Schema from captured response payloads (works with offline HAR sessions)',
         inputSchema: createSchema()
           .string('sessionId', 'The session ID', { required: true })
           .string('requestUrl', 'URL of the request to get schema for', { required: true })
@@ -99,11 +284,65 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
       })
     );
 
+    // Tool: summarizeCapture
+    this.registerTool(
+      {
+        name: 'summarizeCapture',
+        description: 'Groups the OData calls of a session (or offline HAR session) by projection service, entity set and action/function. Optionally returns each call parsed into service, entity set, keys, navigation, operation and query options.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .boolean('includeCalls', 'Include the parsed OData fields of every call', { default: false })
+          .build(),
+      },
+      async (args) => this.handleSummarizeCapture(args as {
+        sessionId: string;
+        includeCalls?: boolean;
+      })
+    );
+
+    // Tool: traceDataFlow
+    this.registerTool(
+      {
+        name: 'traceDataFlow',
+        description: 'Finds values returned by earlier responses that reappear in later request URLs or bodies. Returns producer → consumer edges with JSON paths, the server-generated values that should become TAR variables, and the hard-coded test data.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .array('requestIds', 'IDs of the captured requests to trace (default: whole timeline)', { type: 'string' })
+          .boolean('includeHardCoded', 'Include literals that no earlier response returned', { default: true })
+          .build(),
+      },
+      async (args) => this.handleTraceDataFlow(args as {
+        sessionId: string;
+        requestIds?: string[];
+        includeHardCoded?: boolean;
+      })
+    );
+
+    // Tool: diffCaptures
+    this.registerTool(
+      {
+        name: 'diffCaptures',
+        description: 'Compares the OData calls of two captures (sessions, HAR files, or two parts of one session) by normalized operation, e.g. before and after an ERP upgrade. Reports added and removed calls, changed status codes, request payload field differences and response schema differences. Row versions, ETags, GUIDs and timestamps are ignored by default.',
+        inputSchema: createSchema()
+          .string('baselineSessionId', 'Session ID (browser or offline) of the baseline capture')
+          .string('baselineHarFilePath', 'HAR file of the baseline capture, instead of a session')
+          .integer('baselineUntilSequence', 'Only use baseline requests up to this sequence number')
+          .string('currentSessionId', 'Session ID (browser or offline) of the capture to compare')
+          .string('currentHarFilePath', 'HAR file of the capture to compare, instead of a session')
+          .integer('currentSinceSequence', 'Only use current requests after this sequence number')
+          .string('ignoreJson', 'JSON object of extra volatile values to ignore: {"fields":["ChangedBy"],"valuePatterns":["^[0-9]{13}$"]}')
+          .boolean('useDefaultIgnores', 'Ignore row versions (Objversion, @odata.etag), GUIDs and timestamps', { default: true })
+          .boolean('includeNonOData', 'Also compare calls that are not OData requests, by method and path', { default: false })
+          .build(),
+      },
+      async (args) => this.handleDiffCaptures(args as Parameters<typeof this.handleDiffCaptures>[0])
+    );
+
     // Tool: closeBrowser
     this.registerTool(
       {
         name: 'closeBrowser',
-        description: 'Closes a browser session and clears captured data',
+        description: 'Closes a browser session (or offline HAR session) and clears captured data',
         inputSchema: createSchema()
           .string('sessionId', 'The session ID to close', { required: true })
           .build(),
@@ -111,16 +350,53 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
       async (args) => this.handleCloseBrowser(args as { sessionId: string })
     );
 
+    // Tool: keepAlive
+    this.registerTool(
+      {
+        name: 'keepAlive',
+        description: 'Marks a browser session as active so it is not closed for being idle. Every tool call on a session does the same; the maximum session age still applies.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .build(),
+      },
+      async (args) => this.handleKeepAlive(args as { sessionId: string })
+    );
+
     // Tool: listSessions
     this.registerTool(
       {
         name: 'listSessions',
-        description: 'Lists all active capture sessions',
+        description: 'Lists all active capture sessions, including offline HAR sessions, with their last activity, when they expire and the memory their captured requests use',
         inputSchema: createSchema().build(),
       },
       async () => this.handleListSessions()
     );
 
+    // Tool: saveAuthState
+    this.registerTool(
+      {
+        name: 'saveAuthState',
+        description: 'Saves the cookies and localStorage of a session (after logging in) to an encrypted local file, so later openUrl calls can start from it via authProfile. Never returns cookie or storage values.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('profile', 'Name to save the state under (letters, digits, ".", "_" and "-")', { default: 'default' })
+          .build(),
+      },
+      async (args) => this.handleSaveAuthState(args as { sessionId: string; profile?: string })
+    );
+
+    // Tool: clearSavedAuth
+    this.registerTool(
+      {
+        name: 'clearSavedAuth',
+        description: 'Deletes saved authentication state for one profile, or for all profiles when none is given',
+        inputSchema: createSchema()
+          .string('profile', 'Profile to delete (all profiles if omitted)')
+          .build(),
+      },
+      async (args) => this.handleClearSavedAuth(args as { profile?: string })
+    );
+
     // Tool: click
     this.registerTool(
       {
@@ -128,7 +404,8 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
         description: 'Clicks an element on the page. Captures any API calls triggered by the click.',
         inputSchema: createSchema()
           .string('sessionId', 'The session ID', { required: true })
-          .string('selector', 'CSS selector or text selector for the element to click', { required: true })
+          .string('selector', 'CSS selector or text selector for the element to click (or use ref)')
+          .string('ref', 'Element reference from snapshotPage (e.g. e12), instead of selector')
           .integer('timeoutMs', 'Timeout for finding the element', { default: 5000 })
           .boolean('waitForNavigation', 'Wait for navigation after click', { default: false })
           .boolean('waitForNetworkIdle', 'Wait for network to be idle after click', { default: true })
@@ -136,7 +413,8 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
       },
       async (args) => this.handleClick(args as {
         sessionId: string;
-        selector: string;
+        selector?: string;
+        ref?: string;
         timeoutMs?: number;
         waitForNavigation?: boolean;
         waitForNetworkIdle?: boolean;
@@ -150,11 +428,12 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
         description: 'Fills an input field with text',
         inputSchema: createSchema()
           .string('sessionId', 'The session ID', { required: true })
-          .string('selector', 'CSS selector for the input field', { required: true })
+          .string('selector', 'CSS selector for the input field (or use ref)')
+          .string('ref', 'Element reference from snapshotPage (e.g. e12), instead of selector')
           .string('value', 'The value to fill', { required: true })
           .build(),
       },
-      async (args) => this.handleFill(args as { sessionId: string; selector: string; value: string })
+      async (args) => this.handleFill(args as { sessionId: string; selector?: string; ref?: string; value: string })
     );
 
     // Tool: waitForSelector
@@ -177,6 +456,46 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
       })
     );
 
+    // Tool: waitForRequest
+    this.registerTool(
+      {
+        name: 'waitForRequest',
+        description: 'Waits until the page sends a request matching all given criteria and returns the captured request. Requests sent since the last UI action count, so call it after the action.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('method', 'HTTP method')
+          .string('urlPattern', 'Regex tested against the full URL')
+          .string('entitySet', 'OData entity set (e.g. AvFaultSet)')
+          .string('operation', 'OData action or function name (e.g. CreateFault)')
+          .string('bodyJson', 'JSON the request body must contain (objects match by subset)')
+          .integer('sinceSequence', 'Only match requests after this sequence number (default: from the last UI action)')
+          .integer('timeoutMs', 'Maximum time to wait', { default: 30000 })
+          .build(),
+      },
+      async (args) => this.handleWaitForRequest(args as Parameters<typeof this.handleWaitForRequest>[0])
+    );
+
+    // Tool: waitForResponse
+    this.registerTool(
+      {
+        name: 'waitForResponse',
+        description: 'Waits until a request matching all given criteria has received its response and returns the captured request with the response. Requests sent since the last UI action count, so call it after the action.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('method', 'HTTP method')
+          .string('urlPattern', 'Regex tested against the full URL')
+          .string('entitySet', 'OData entity set (e.g. AvFaultSet)')
+          .string('operation', 'OData action or function name (e.g. CreateFault)')
+          .integer('statusMin', 'Lowest accepted status code (e.g. 200)')
+          .integer('statusMax', 'Highest accepted status code (e.g. 299)')
+          .string('bodyJson', 'JSON the response body must contain (objects match by subset)')
+          .integer('sinceSequence', 'Only match requests after this sequence number (default: from the last UI action)')
+          .integer('timeoutMs', 'Maximum time to wait', { default: 30000 })
+          .build(),
+      },
+      async (args) => this.handleWaitForResponse(args as Parameters<typeof this.handleWaitForResponse>[0])
+    );
+
     // Tool: screenshot
     this.registerTool(
       {
@@ -215,6 +534,81 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
       async (args) => this.handleGetPageInfo(args as { sessionId: string })
     );
 
+    // Tool: snapshotPage
+    this.registerTool(
+      {
+        name: 'snapshotPage',
+        description: 'Returns a compact accessibility-tree view of the active page, or of the topmost open modal, listing roles, names, states and values. Interactive elements get references (e.g. [ref=e12]) that click, fill and selectOption accept instead of a selector.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('scope', 'auto snapshots the topmost open modal if there is one, otherwise the whole page', {
+            enum: ['auto', 'page', 'modal'],
+            default: 'auto',
+          })
+          .string('rootSelector', 'Only snapshot this element and its descendants')
+          .boolean('includeText', 'Include static text such as messages and labels (default: true for modals, false for pages)')
+          .integer('maxNodes', 'Most lines in the snapshot', { default: 300 })
+          .build(),
+      },
+      async (args) => this.handleSnapshotPage(args as Parameters<typeof this.handleSnapshotPage>[0])
+    );
+
+    // Tool: listPages
+    this.registerTool(
+      {
+        name: 'listPages',
+        description: 'Lists the open pages of a session (the opened page, popups and new tabs) with their iframes, and marks the active target that UI actions run in',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .build(),
+      },
+      async (args) => this.handleListPages(args as { sessionId: string })
+    );
+
+    // Tool: switchTarget
+    this.registerTool(
+      {
+        name: 'switchTarget',
+        description: 'Switches the page or iframe that click, fill, getPageInfo and the other UI actions run in. Give a pageId, a frameId, or a frameSelector for an iframe of the current target. A pageId alone switches to the main frame of that page.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('pageId', 'Page to switch to (from listPages)')
+          .string('frameId', 'Iframe to switch to (from listPages)')
+          .string('frameSelector', 'Selector of an iframe element in the current target (e.g. iframe#reportFrame)')
+          .integer('timeoutMs', 'How long to wait for the frameSelector element', { default: 10000 })
+          .build(),
+      },
+      async (args) => this.handleSwitchTarget(args as Parameters<typeof this.handleSwitchTarget>[0])
+    );
+
+    // Tool: closePage
+    this.registerTool(
+      {
+        name: 'closePage',
+        description: 'Closes a page (popup or tab) of a session. Closing the active page makes the page that opened it active again. The last page can only be closed with closeBrowser.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('pageId', 'Page to close (from listPages)', { required: true })
+          .build(),
+      },
+      async (args) => this.handleClosePage(args as { sessionId: string; pageId: string })
+    );
+
+    // Tool: getConsoleLogs
+    this.registerTool(
+      {
+        name: 'getConsoleLogs',
+        description: 'Gets the browser console messages and uncaught page errors of a session, redacted. Useful to find the client-side cause of a failed UI action.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .array('types', 'Entry types to return, e.g. ["error", "warning", "pageError"] (default: all)', { type: 'string' })
+          .integer('sinceSequence', 'Only return entries after this console sequence number')
+          .integer('limit', 'Most entries to return, newest kept', { default: 100 })
+          .build(),
+      },
+      async (args) => this.handleGetConsoleLogs(args as Parameters<typeof this.handleGetConsoleLogs>[0])
+    );
+
     // Tool: clearCapturedRequests
     this.registerTool(
       {
@@ -227,6 +621,77 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
       async (args) => this.handleClearCapturedRequests(args as { sessionId: string })
     );
 
+    // Tool: setCaptureFilter
+    this.registerTool(
+      {
+        name: 'setCaptureFilter',
+        description: 'Switches the capture profile of a session to drop static assets, telemetry or other noise. Use a built-in profile, custom include/exclude rules, or both (rules are added to the profile).',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('profile', 'Built-in profile', { enum: Object.keys(BUILT_IN_CAPTURE_PROFILES) })
+          .string('includeJson', 'JSON array of include rules: [{ "resourceTypes": [...], "urlGlobs": [...], "hosts": [...], "contentTypes": [...] }]')
+          .string('excludeJson', 'JSON array of exclude rules (same format as includeJson)')
+          .boolean('applyToCaptured', 'Also remove already captured requests the new filter would drop', { default: false })
+          .build(),
+      },
+      async (args) => this.handleSetCaptureFilter(args as {
+        sessionId: string;
+        profile?: string;
+        includeJson?: string;
+        excludeJson?: string;
+        applyToCaptured?: boolean;
+      })
+    );
+
+    // Tool: injectFault
+    this.registerTool(
+      {
+        name: 'injectFault',
+        description: 'Adds a fault rule to a session: matching requests are delayed, answered with a synthetic response, aborted or throttled. Affected requests carry the fault in the capture. Rules are checked in the order added; the first match applies.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('type', 'Fault to inject', { required: true, enum: ['delay', 'respond', 'abort', 'throttle'] })
+          .string('method', 'HTTP method')
+          .string('urlPattern', 'Regex tested against the full URL')
+          .string('entitySet', 'OData entity set (e.g. AvFaultSet)')
+          .string('operation', 'OData action or function name (e.g. CreateFault)')
+          .integer('delayMs', 'Latency added before the fault takes effect (required for delay)')
+          .integer('status', 'Status of the synthetic response (respond)')
+          .string('body', 'Body of the synthetic response (respond)')
+          .string('contentType', 'Content type of the synthetic response (respond)')
+          .string('errorCode', 'Network error of aborted requests (abort)', { enum: FAULT_ERROR_CODES, default: 'failed' })
+          .integer('bytesPerSecond', 'Response bandwidth (throttle)')
+          .integer('times', 'Only apply to this many matching requests (default: unlimited)')
+          .build(),
+      },
+      async (args) => this.handleInjectFault(args as Parameters<typeof this.handleInjectFault>[0])
+    );
+
+    // Tool: listFaults
+    this.registerTool(
+      {
+        name: 'listFaults',
+        description: 'Lists the fault rules of a session with the number of requests each was applied to.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .build(),
+      },
+      async (args) => this.handleListFaults(args as { sessionId: string })
+    );
+
+    // Tool: clearFaults
+    this.registerTool(
+      {
+        name: 'clearFaults',
+        description: 'Removes one fault rule, or all fault rules of a session. Traffic is no longer intercepted once no rules are left.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('ruleId', 'Rule to remove (default: all rules)')
+          .build(),
+      },
+      async (args) => this.handleClearFaults(args as { sessionId: string; ruleId?: string })
+    );
+
     // Tool: selectOption (for dropdowns)
     this.registerTool(
       {
@@ -234,7 +699,8 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
         description: 'Selects an option from a dropdown/select element. Can select by value, label, or index.',
         inputSchema: createSchema()
           .string('sessionId', 'The session ID', { required: true })
-          .string('selector', 'CSS selector for the select element', { required: true })
+          .string('selector', 'CSS selector for the select element (or use ref)')
+          .string('ref', 'Element reference from snapshotPage (e.g. e12), instead of selector')
           .string('value', 'Option value to select')
           .string('label', 'Option label/text to select')
           .integer('index', 'Option index to select (0-based)')
@@ -242,13 +708,30 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
       },
       async (args) => this.handleSelectOption(args as {
         sessionId: string;
-        selector: string;
+        selector?: string;
+        ref?: string;
         value?: string;
         label?: string;
         index?: number;
       })
     );
 
+    // Tool: uploadFile
+    this.registerTool(
+      {
+        name: 'uploadFile',
+        description: 'Uploads local files through a file input, or through the file chooser a button opens. The upload requests are captured with the file size, hash, name and type.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('selector', 'CSS selector for the file input or the button that opens the file chooser (or use ref)')
+          .string('ref', 'Element reference from snapshotPage (e.g. e12), instead of selector')
+          .array('filePaths', 'Paths of the local files to upload', { type: 'string' }, { required: true })
+          .integer('timeoutMs', 'Maximum time to wait for the element and the file chooser', { default: 30000 })
+          .build(),
+      },
+      async (args) => this.handleUploadFile(args as Parameters<typeof this.handleUploadFile>[0])
+    );
+
     // Tool: check (for checkboxes/radio buttons)
     this.registerTool(
       {
@@ -375,85 +858,402 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
         timeoutMs?: number;
       })
     );
-  }
 
-  protected async onInitialize(): Promise<void> {
-    this.browserManager = new BrowserManager({
-      headless: process.env['BROWSER_HEADLESS'] !== 'false',
-      maxConcurrentContexts: parseInt(process.env['MAX_SESSIONS'] ?? '5', 10),
-    });
-    await this.browserManager.initialize();
-    this.logger.info('HTTP Capture MCP server initialized');
-  }
+    // Tool: exportHar
+    this.registerTool(
+      {
+        name: 'exportHar',
+        description: 'Exports the redacted captured requests of a session as a HAR 1.2 file. Cookies are never exported.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('filePath', 'Path of the .har file to write', { required: true })
+          .build(),
+      },
+      async (args) => this.handleExportHar(args as { sessionId: string; filePath: string })
+    );
 
-  protected async onShutdown(): Promise<void> {
-    // Close all sessions
-    for (const sessionId of this.sessions.keys()) {
-      await this.closeSession(sessionId);
-    }
-    
-    if (this.browserManager) {
-      await this.browserManager.close();
-    }
-    
-    await this.auditLogger.close();
-    this.logger.info('HTTP Capture MCP server shutdown complete');
-  }
+    // Tool: exportTrace
+    this.registerTool(
+      {
+        name: 'exportTrace',
+        description: 'Exports the Playwright trace recorded since the session opened (or since the previous export) as a redacted trace zip for the Playwright trace viewer. The session must be opened with trace: true.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('filePath', 'Path of the .zip file to write', { required: true })
+          .build(),
+      },
+      async (args) => this.handleExportTrace(args as { sessionId: string; filePath: string })
+    );
 
-  private async handleOpenUrl(args: { 
-    url: string; 
-    timeoutMs?: number; 
-    waitForNetworkIdle?: boolean;
-    httpUsername?: string;
-    httpPassword?: string;
-  }): Promise<{ sessionId: string; status: string; capturedCount: number; pageUrl: string }> {
-    const correlationId = this.logger.newCorrelationId();
-    
-    // Validate URL against allowlist
-    const validation = this.domainAllowlist.validate(args.url);
-    if (!validation.allowed) {
-      await this.auditLogger.logUrlAccess(correlationId, args.url, false, validation.reason);
-      throw new Error(`URL not allowed: ${validation.reason}`);
-    }
+    // Tool: importHar
+    this.registerTool(
+      {
+        name: 'importHar',
+        description: 'Loads a HAR file as a read-only offline session. The returned session ID works with captureRequests, getResponseSchema, summarizeCapture, traceDataFlow and generateTarFromCapture without a browser.',
+        inputSchema: createSchema()
+          .string('filePath', 'Path of the .har file to load', { required: true })
+          .build(),
+      },
+      async (args) => this.handleImportHar(args as { filePath: string })
+    );
 
-    await this.auditLogger.logUrlAccess(correlationId, args.url, true);
+    // Tool: exportWorkflow
+    this.registerTool(
+      {
+        name: 'exportWorkflow',
+        description: 'Writes the UI actions recorded in a session (click, fill, selectOption, submitForm, ...) to a JSON workflow file with their selectors, inputs and the captured request IDs they triggered. Password and secret inputs are written as [REDACTED].',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('filePath', 'Path of the workflow file to write', { required: true })
+          .build(),
+      },
+      async (args) => this.handleExportWorkflow(args as { sessionId: string; filePath: string })
+    );
 
-    if (!this.browserManager) {
-      throw new Error('Browser manager not initialized');
-    }
+    // Tool: replayWorkflow
+    this.registerTool(
+      {
+        name: 'replayWorkflow',
+        description: 'Replays a workflow file in a new capture session: opens its start URL and performs the recorded UI actions in order. Returns the new session ID so the fresh traffic can be read with captureRequests or exportHar.',
+        inputSchema: createSchema()
+          .string('filePath', 'Path of the workflow file written by exportWorkflow', { required: true })
+          .string('authProfile', 'Start from the login state saved under this profile with saveAuthState')
+          .array('secrets', 'Values for the [REDACTED] inputs of the workflow, in step order', { type: 'string' })
+          .boolean('stopOnError', 'Stop at the first failing step', { default: true })
+          .integer('timeoutMs', 'Navigation timeout for the start URL in milliseconds', { default: 30000 })
+          .build(),
+      },
+      async (args) => this.handleReplayWorkflow(args as {
+        filePath: string;
+        authProfile?: string;
+        secrets?: string[];
+        stopOnError?: boolean;
+        timeoutMs?: number;
+      })
+    );
 
-    // Get HTTP credentials from args or environment variables
-    const httpUsername = args.httpUsername ?? process.env['HTTP_USERNAME'];
-    const httpPassword = args.httpPassword ?? process.env['HTTP_PASSWORD'];
-    
-    // Create session with optional HTTP credentials
-    const contextOptions = httpUsername && httpPassword ? {
-      httpCredentials: {
-        username: httpUsername,
-        password: httpPassword,
-      }
-    } : undefined;
+    // Tool: captureToOpenApi
+    this.registerTool(
+      {
+        name: 'captureToOpenApi',
+        description: 'Builds an OpenAPI 3.1 document from the OData calls of a session (or offline HAR session). Concrete URLs become path templates such as /AvExeTaskSet(TaskSeq={TaskSeq}), and request/response schemas are inferred from captured payloads. Write it to a .json file to load it with openapi-mcp loadSpec.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('serviceName', 'Only include calls to this projection service (e.g. FlmTaskDetailHandling)')
+          .string('title', 'info.title of the document')
+          .string('version', 'info.version of the document', { default: '1.0.0' })
+          .string('filePath', 'Path of the .json file to write (the document is returned inline when omitted)')
+          .build(),
+      },
+      async (args) => this.handleCaptureToOpenApi(args as {
+        sessionId: string;
+        serviceName?: string;
+        title?: string;
+        version?: string;
+        filePath?: string;
+      })
+    );
+
+    // Tool: startReplayServer
+    this.registerTool(
+      {
+        name: 'startReplayServer',
+        description: 'Starts a local mock OData server on 127.0.0.1 that replays the recorded responses of a capture session or HAR file. Requests are matched on method, path, key predicates and query options. Point TAR runs or browser sessions at the returned baseUrl.',
+        inputSchema: createSchema()
+          .string('sessionId', 'Session ID (browser or offline) to replay')
+          .string('harFilePath', 'HAR file to replay instead of a session')
+          .string('strategy', 'Matching strategy', {
+            enum: ['exact', 'ignore-volatile-params', 'sequential'],
+            default: 'exact',
+          })
+          .integer('port', 'Port to listen on (0 picks a free port)', { default: 0 })
+          .build(),
+      },
+      async (args) => this.handleStartReplayServer(args as {
+        sessionId?: string;
+        harFilePath?: string;
+        strategy?: ReplayStrategy;
+        port?: number;
+      })
+    );
+
+    // Tool: stopReplayServer
+    this.registerTool(
+      {
+        name: 'stopReplayServer',
+        description: 'Stops a replay server and returns how many requests were served and which had no recorded response',
+        inputSchema: createSchema()
+          .string('replayServerId', 'The replay server ID returned by startReplayServer', { required: true })
+          .build(),
+      },
+      async (args) => this.handleStopReplayServer(args as { replayServerId: string })
+    );
+
+    // Tool: replayRequest
+    this.registerTool(
+      {
+        name: 'replayRequest',
+        description: 'Re-issues a captured request from the page of its session, so the session cookies and CSRF tokens still apply. URL, headers and JSON body can be changed first. The new request is captured like any other and linked to the original with replayOfId.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('requestId', 'ID of the captured request to re-issue', { required: true })
+          .string('url', 'Replacement URL (relative URLs resolve against the original)')
+          .string('headersJson', 'JSON object of headers to add or replace, e.g. {"If-Match":"*"}; a null value removes the header')
+          .string('bodyPatchJson', 'JSON merge patch (RFC 7396) applied to the JSON request body, e.g. {"Description":"Changed","Notes":null}')
+          .integer('timeoutMs', 'Maximum time to wait for the response in milliseconds', { default: 30000 })
+          .build(),
+      },
+      async (args) => this.handleReplayRequest(args as Parameters<typeof this.handleReplayRequest>[0])
+    );
+
+    // Tool: generateTarFromCapture
+    this.registerTool(
+      {
+        name: 'generateTarFromCapture',
+        description: 'Generates a TAR .mkd Test Case or Test Util from selected captured requests. Values returned by earlier responses are linked into later requests as variables.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .array('requestIds', 'IDs of the captured requests to include (in any order; timeline order is used)', { type: 'string' }, { required: true })
+          .string('owner', 'Owner team/component for the frontmatter', { required: true })
+          .string('type', 'TAR file type to generate', { enum: ['Test Case', 'Test Util'], default: 'Test Case' })
+          .string('mode', 'Test Case mode', { enum: ['Standalone', 'Dependent'], default: 'Standalone' })
+          .string('description', 'Description for the Description section')
+          .build(),
+      },
+      async (args) => this.handleGenerateTarFromCapture(args as {
+        sessionId: string;
+        requestIds: string[];
+        owner: string;
+        type?: GeneratedTarType;
+        mode?: 'Standalone' | 'Dependent';
+        description?: string;
+      })
+    );
+
+    // Tool: suggestAssertions
+    this.registerTool(
+      {
+        name: 'suggestAssertions',
+        description: 'Suggests TAR Assert and AssertJson statements for the response of a captured request, using the real response values and .Items(n) paths. Versions, ETags, timestamps and generated keys are skipped; state, status and code fields come first.',
+        inputSchema: createSchema()
+          .string('sessionId', 'The session ID', { required: true })
+          .string('requestId', 'ID of the captured request whose response to assert on', { required: true })
+          .string('variable', 'Variable the response is stored in with Into (default: derived from the entity set, e.g. taskResponse)')
+          .integer('itemCount', 'Collection items to assert on, from value.Items(0)', { default: 1 })
+          .integer('maxAssertions', 'Most assertions per entity', { default: 5 })
+          .build(),
+      },
+      async (args) => this.handleSuggestAssertions(args as Parameters<typeof this.handleSuggestAssertions>[0])
+    );
+  }
+
+  protected async onInitialize(): Promise<void> {
+    const securityConfigPath = process.env['SECURITY_CONFIG_PATH'] ?? './config/security.json';
+    try {
+      // Without a config file every section gets its defaults
+      const securityConfig = (await readSecurityConfig(securityConfigPath)) ?? {};
+      this.sessionIsolation = getSessionIsolation(securityConfig);
+      this.allowlistSettings = getAllowlistSettings(securityConfig);
+      this.requestLimits = getRequestLimits(securityConfig);
+      this.domainAllowlist = createDomainAllowlist({
+        domains: this.allowlistSettings.domains,
+        strictMode: this.allowlistSettings.strictMode,
+        blockOnMismatch: this.allowlistSettings.mode === 'block',
+      });
+    } catch (error) {
+      this.logger.warn('Security config could not be read, using default security settings', {
+        path: securityConfigPath,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
 
-    const context = await this.browserManager.createContext(contextOptions);
-    const requestCapture = new RequestCapture(context, {
-      headerRedactor: this.headerRedactor,
-      bodyRedactor: this.bodyRedactor,
-      maxBodySize: parseInt(process.env['MAX_CAPTURE_SIZE_MB'] ?? '10', 10) * 1024 * 1024,
+    this.browserManager = new BrowserManager({
+      headless: process.env['BROWSER_HEADLESS'] !== 'false',
+      maxConcurrentContexts: parseInt(process.env['MAX_SESSIONS'] ?? '5', 10),
     });
+    await this.browserManager.initialize();
+    this.sessionReaper.start();
+    this.logger.info('HTTP Capture MCP server initialized');
+  }
 
-    // Start capture and navigate
-    await requestCapture.startCapture();
-    const page = await context.newPage();
+  protected async onShutdown(): Promise<void> {
+    this.sessionReaper.stop();
 
-    const sessionId = correlationId;
-    this.sessions.set(sessionId, {
-      id: sessionId,
-      context,
-      page,
-      requestCapture,
-      createdAt: new Date(),
-      url: args.url,
+    // Close all sessions
+    for (const sessionId of this.sessions.keys()) {
+      await this.closeSession(sessionId);
+    }
+    this.offlineSessions.clear();
+
+    for (const replayServer of this.replayServers.values()) {
+      await replayServer.stop();
+    }
+    this.replayServers.clear();
+    
+    if (this.browserManager) {
+      await this.browserManager.close();
+    }
+    
+    await this.auditLogger.close();
+    this.logger.info('HTTP Capture MCP server shutdown complete');
+  }
+
+  private async handleOpenUrl(args: { 
+    url: string; 
+    timeoutMs?: number; 
+    waitForNetworkIdle?: boolean;
+    httpUsername?: string;
+    httpPassword?: string;
+    authProfile?: string;
+    captureProfile?: string;
+    trace?: boolean;
+    binaryCapture?: BinaryCaptureMode;
+  }): Promise<{
+    sessionId: string;
+    status: string;
+    capturedCount: number;
+    pageUrl: string;
+    captureProfile: string;
+    tracing: boolean;
+    binaryCapture: BinaryCaptureMode;
+    auth?: AuthRestoreResult;
+  }> {
+    const correlationId = this.logger.newCorrelationId();
+    const captureProfile = getCaptureProfile(args.captureProfile ?? process.env['CAPTURE_PROFILE'] ?? 'all');
+
+    const binaryCapture = args.binaryCapture ?? process.env['BINARY_CAPTURE'] ?? 'metadata';
+    if (binaryCapture !== 'metadata' && binaryCapture !== 'store') {
+      throw new Error(`Unknown binaryCapture mode: ${binaryCapture} (use metadata or store)`);
+    }
+    if (binaryCapture === 'store' && this.requestLimits.blockBinaryContent) {
+      throw new Error('Storing binary content is disabled by requestLimits.blockBinaryContent in the security config');
+    }
+    
+    // Validate URL against allowlist (flag mode only rejects it in strict mode)
+    const { mode, strictMode } = this.allowlistSettings;
+    const validation = mode === 'allow' ? { allowed: true } : this.domainAllowlist.validate(args.url);
+    if (!validation.allowed && (mode === 'block' || strictMode)) {
+      await this.auditLogger.logUrlAccess(correlationId, args.url, false, validation.reason);
+      throw new Error(`URL not allowed: ${validation.reason}`);
+    }
+
+    await this.auditLogger.logUrlAccess(correlationId, args.url, true);
+
+    if (!this.browserManager) {
+      throw new Error('Browser manager not initialized');
+    }
+
+    // Expired sessions give their browser context back before the limit is checked
+    await this.sessionReaper.reap();
+
+    // Get HTTP credentials from args or environment variables
+    const httpUsername = args.httpUsername ?? process.env['HTTP_USERNAME'];
+    const httpPassword = args.httpPassword ?? process.env['HTTP_PASSWORD'];
+    
+    let auth: AuthRestoreResult | undefined;
+    let storageState: StorageState | undefined;
+    if (args.authProfile) {
+      ({ auth, storageState } = await this.loadAuthState(args.authProfile, correlationId));
+    }
+
+    // Create session with optional HTTP credentials and saved login state
+    const context = await this.browserManager.createContext({
+      httpCredentials: httpUsername && httpPassword ? {
+        username: httpUsername,
+        password: httpPassword,
+      } : undefined,
+      storageState,
     });
+
+    // A failed setup closes the context again, so it does not keep one of the MAX_SESSIONS slots
+    let binaryStore: BinaryStore | undefined;
+    let requestCapture: RequestCapture;
+    let page: Page;
+    const sessionId = correlationId;
+    const tracing = args.trace ?? false;
+    try {
+      // Every request of the context goes through the allowlist, not just the start URL
+      const allowlistInterceptor = new AllowlistInterceptor({
+        allowlist: this.domainAllowlist,
+        mode,
+        onViolation: (url, violation) => {
+          this.logger.warn('Request outside domain allowlist', {
+            sessionId: correlationId,
+            hostname: violation.hostname,
+            action: violation.action,
+          });
+          void this.auditLogger.logUrlAccess(correlationId, url, violation.action === 'flagged', violation.reason);
+        },
+      });
+      await allowlistInterceptor.attach(context);
+
+      // Popups, new tabs and iframes get IDs that captured requests are tagged with
+      const pages = new PageRegistry(context);
+      pages.start();
+
+      // Uploaded and downloaded files are copied to a temp directory removed with the session
+      const maxBodySize = parseInt(process.env['MAX_CAPTURE_SIZE_MB'] ?? '10', 10) * 1024 * 1024;
+      // Without a valid number the store would have no limit (no size is greater than NaN)
+      const maxStoredMb = parseFloat(process.env['MAX_BINARY_STORE_MB'] ?? '');
+      const maxStoredBytes =
+        (Number.isFinite(maxStoredMb) && maxStoredMb >= 0 ? maxStoredMb : DEFAULT_MAX_BINARY_STORE_MB) * 1024 * 1024;
+      binaryStore = binaryCapture === 'store' ? new BinaryStore({ maxBytes: maxStoredBytes }) : undefined;
+
+      // Fault rules intercept ahead of the allowlist once added (later routes run first)
+      const faultInjector = new FaultInjector(context, {
+        odataParser: this.odataParser,
+        allowlist: allowlistInterceptor,
+      });
+
+      requestCapture = new RequestCapture(context, {
+        headerRedactor: this.headerRedactor,
+        bodyRedactor: this.bodyRedactor,
+        maxBodySize,
+        // Only a stored copy needs downloads larger than a captured body
+        maxFileSize: binaryStore ? Math.max(maxBodySize, maxStoredBytes) : maxBodySize,
+        allowlist: allowlistInterceptor,
+        faults: faultInjector,
+        binaryStore,
+        captureProfile,
+        targets: pages,
+      });
+
+      const consoleCollector = new ConsoleCollector(context, {
+        bodyRedactor: this.bodyRedactor,
+        maxEntries: parseInt(process.env['MAX_CONSOLE_ENTRIES'] ?? '1000', 10),
+      });
+
+      // Tracing runs in chunks so each exportTrace writes what happened since the previous one
+      if (tracing) {
+        await context.tracing.start({ screenshots: true, snapshots: true, title: args.url });
+        await context.tracing.startChunk();
+      }
+
+      // Start capture and navigate
+      await requestCapture.startCapture();
+      consoleCollector.start();
+      page = await context.newPage();
+
+      this.sessions.set(sessionId, {
+        id: sessionId,
+        context,
+        pages,
+        requestCapture,
+        createdAt: new Date(),
+        url: args.url,
+        lastActivityAt: new Date(),
+        workflow: new WorkflowRecorder(args.url),
+        lastActionSequence: 0,
+        consoleCollector,
+        tracing,
+        faultInjector,
+        binaryStore,
+      });
+    } catch (error) {
+      await context.close().catch(() => undefined);
+      await binaryStore?.dispose().catch(() => undefined);
+      throw error;
+    }
     
     try {
       await page.goto(args.url, {
@@ -467,12 +1267,23 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
 
     const capturedCount = requestCapture.getCapturedCount();
     const pageUrl = page.url();
+
+    // The server no longer accepts the saved session if it sends us to log in again
+    if (auth?.status === 'restored' && LOGIN_PAGE_PATTERN.test(pageUrl)) {
+      await this.authStateStore.remove(auth.profile);
+      auth = {
+        profile: auth.profile,
+        status: 'expired',
+        reason: 'The server redirected to a login page; the saved session is no longer valid and was removed',
+      };
+    }
     
     this.logger.info('URL opened and capture started', {
       sessionId,
       url: args.url,
       pageUrl,
       capturedCount,
+      authStatus: auth?.status,
     });
 
     return {
@@ -480,6 +1291,10 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
       status: 'capturing',
       capturedCount,
       pageUrl,
+      captureProfile: captureProfile.name,
+      tracing,
+      binaryCapture,
+      auth,
     };
   }
 
@@ -487,20 +1302,52 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
     sessionId: string;
     filterMethod?: string;
     filterPathPattern?: string;
+    sinceSequence?: number;
+    includeFailed?: boolean;
     includeResponses?: boolean;
+    expandBatches?: boolean;
+    allowlistViolationsOnly?: boolean;
+    filterPageId?: string;
+    filterFrameId?: string;
+    faultInjectedOnly?: boolean;
+    fileTransfersOnly?: boolean;
   }): Promise<{ requests: CapturedRequest[]; totalCount: number }> {
-    const session = this.sessions.get(args.sessionId);
-    if (!session) {
-      throw new Error(`Session not found: ${args.sessionId}`);
+    let requests = this.getSessionRequests(args.sessionId, args.expandBatches !== false);
+
+    // Apply filters
+    if (args.sinceSequence !== undefined) {
+      const since = args.sinceSequence;
+      requests = requests.filter((r) => r.sequence > since);
     }
 
-    let requests = session.requestCapture.getCapturedRequests();
+    if (args.includeFailed === false) {
+      requests = requests.filter((r) => r.state !== 'failed');
+    }
+
+    if (args.allowlistViolationsOnly) {
+      requests = requests.filter((r) => r.allowlist !== undefined);
+    }
+
+    if (args.faultInjectedOnly) {
+      requests = requests.filter((r) => r.fault !== undefined);
+    }
+
+    if (args.fileTransfersOnly) {
+      requests = requests.filter((r) => r.files !== undefined || r.response?.file !== undefined);
+    }
 
-    // Apply filters
     if (args.filterMethod) {
       requests = requests.filter((r) => r.method === args.filterMethod?.toUpperCase());
     }
 
+    if (args.filterPageId) {
+      requests = requests.filter((r) => r.initiator?.pageId === args.filterPageId);
+    }
+
+    if (args.filterFrameId) {
+      requests = requests.filter((r) => r.initiator?.frameId === args.filterFrameId);
+    }
+
     if (args.filterPathPattern) {
       const regex = new RegExp(args.filterPathPattern);
       requests = requests.filter((r) => regex.test(new URL(r.url).pathname));
@@ -522,12 +1369,7 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
     requestUrl: string;
     mergeMultiple?: boolean;
   }): Promise<{ schema: Record<string, unknown> | null; matchedRequests: number }> {
-    const session = this.sessions.get(args.sessionId);
-    if (!session) {
-      throw new Error(`Session not found: ${args.sessionId}`);
-    }
-
-    const requests = session.requestCapture.getCapturedRequests()
+    const requests = this.getSessionRequests(args.sessionId)
       .filter((r) => r.url.includes(args.requestUrl) && r.response?.body);
 
     if (requests.length === 0) {
@@ -572,132 +1414,527 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
     return { success };
   }
 
-  private async handleListSessions(): Promise<{ 
-    sessions: Array<{ id: string; url: string; createdAt: string; capturedCount: number }>;
+  private handleKeepAlive(args: { sessionId: string }): Promise<{
+    sessionId: string;
+    lastActivityAt: string;
+    idleExpiresAt?: string;
+    maxAgeExpiresAt?: string;
   }> {
-    const sessions = Array.from(this.sessions.values()).map((s) => ({
-      id: s.id,
-      url: s.url,
-      createdAt: s.createdAt.toISOString(),
-      capturedCount: s.requestCapture.getCapturedCount(),
-    }));
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
 
-    return { sessions };
+    session.lastActivityAt = new Date();
+    const { idleExpiresAt, maxAgeExpiresAt } = this.sessionReaper.getExpiry(session);
+
+    return Promise.resolve({
+      sessionId: session.id,
+      lastActivityAt: session.lastActivityAt.toISOString(),
+      idleExpiresAt: idleExpiresAt?.toISOString(),
+      maxAgeExpiresAt: maxAgeExpiresAt?.toISOString(),
+    });
   }
 
-  private async closeSession(sessionId: string): Promise<boolean> {
-    const session = this.sessions.get(sessionId);
-    if (!session) {
-      return false;
+  /**
+   * Record activity on the sessions named in tool arguments.
+   */
+  private touchSessions(args: Record<string, unknown>): void {
+    for (const name of SESSION_ID_ARGUMENTS) {
+      const sessionId = args[name];
+      const session = typeof sessionId === 'string' ? this.sessions.get(sessionId) : undefined;
+      if (session) {
+        session.lastActivityAt = new Date();
+      }
     }
+  }
 
-    await session.requestCapture.stopCapture();
-    await session.context.close();
-    this.sessions.delete(sessionId);
-    
-    this.logger.info('Session closed', { sessionId });
-    return true;
+  /**
+   * Close a session the reaper found idle for too long or past its maximum age.
+   */
+  private async expireSession(sessionId: string, reason: SessionExpiryReason): Promise<void> {
+    this.logger.info('Closing expired session', { sessionId, reason });
+    await this.closeSession(sessionId);
   }
 
-  private async handleClick(args: {
+  /**
+   * Approximate memory held by captured requests: URLs, headers and bodies.
+   */
+  private estimateCapturedBytes(requests: CapturedRequest[]): number {
+    const size = (text: string | undefined): number => (text ? Buffer.byteLength(text) : 0);
+    const headerSize = (headers: Record<string, string>): number =>
+      Object.entries(headers).reduce((total, [name, value]) => total + size(name) + size(value), 0);
+
+    return requests.reduce(
+      (total, r) =>
+        total +
+        size(r.url) +
+        size(r.body) +
+        headerSize(r.headers) +
+        (r.response ? size(r.response.body) + headerSize(r.response.headers) : 0),
+      0
+    );
+  }
+
+  private handleSummarizeCapture(args: {
     sessionId: string;
-    selector: string;
-    timeoutMs?: number;
-    waitForNavigation?: boolean;
-    waitForNetworkIdle?: boolean;
-  }): Promise<{ success: boolean; capturedCount: number; newRequests: number }> {
-    const session = this.sessions.get(args.sessionId);
-    if (!session) {
-      throw new Error(`Session not found: ${args.sessionId}`);
-    }
+    includeCalls?: boolean;
+  }): Promise<CaptureSummary & {
+    calls?: Array<{
+      requestId: string;
+      sequence: number;
+      method: string;
+      status?: number;
+      odata: ODataRequestInfo;
+    }>;
+  }> {
+    const requests = this.getSessionRequests(args.sessionId);
+    const summary = this.captureSummarizer.summarize(requests);
 
-    const beforeCount = session.requestCapture.getCapturedCount();
-    const timeout = args.timeoutMs ?? 5000;
+    if (!args.includeCalls) {
+      return Promise.resolve(summary);
+    }
 
-    try {
-      // Try to find element by selector
-      let element = session.page.locator(args.selector);
-      
-      // If selector looks like text, try text selector
-      if (!args.selector.startsWith('.') && !args.selector.startsWith('#') && !args.selector.includes('[')) {
-        const textLocator = session.page.getByText(args.selector, { exact: false });
-        const count = await textLocator.count();
-        if (count > 0) {
-          element = textLocator.first();
-        }
+    const calls = [];
+    for (const request of requests) {
+      const odata = this.odataParser.parse(request.url, request.method);
+      if (odata) {
+        calls.push({
+          requestId: request.id,
+          sequence: request.sequence,
+          method: request.method,
+          status: request.response?.status,
+          odata,
+        });
       }
+    }
 
-      await element.waitFor({ state: 'visible', timeout });
+    return Promise.resolve({ ...summary, calls });
+  }
 
-      if (args.waitForNavigation) {
-        await Promise.all([
-          session.page.waitForNavigation({ waitUntil: 'load', timeout: 30000 }).catch(() => {}),
-          element.click(),
-        ]);
-      } else {
-        await element.click();
+  private handleTraceDataFlow(args: {
+    sessionId: string;
+    requestIds?: string[];
+    includeHardCoded?: boolean;
+  }): Promise<DataFlowGraph> {
+    let requests = this.getSessionRequests(args.sessionId);
+
+    if (args.requestIds && args.requestIds.length > 0) {
+      const selectedIds = new Set(args.requestIds);
+      const missing = args.requestIds.filter((id) => !requests.some((r) => r.id === id));
+      if (missing.length > 0) {
+        throw new Error(`Captured requests not found: ${missing.join(', ')}`);
       }
+      requests = requests.filter((r) => selectedIds.has(r.id));
+    }
 
-      // Wait for network idle if requested
-      if (args.waitForNetworkIdle) {
-        await session.page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {});
-      }
+    const graph = this.dataFlowTracer.trace(requests);
 
-      const afterCount = session.requestCapture.getCapturedCount();
+    if (args.includeHardCoded === false) {
+      graph.hardCodedValues = [];
+    }
 
-      this.logger.info('Click performed', {
-        sessionId: args.sessionId,
-        selector: args.selector,
-        newRequests: afterCount - beforeCount,
-      });
+    return Promise.resolve(graph);
+  }
 
-      return {
-        success: true,
-        capturedCount: afterCount,
-        newRequests: afterCount - beforeCount,
-      };
-    } catch (error) {
-      this.logger.error('Click failed', { error, selector: args.selector });
-      throw new Error(`Failed to click element: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  private async handleDiffCaptures(args: {
+    baselineSessionId?: string;
+    baselineHarFilePath?: string;
+    baselineUntilSequence?: number;
+    currentSessionId?: string;
+    currentHarFilePath?: string;
+    currentSinceSequence?: number;
+    ignoreJson?: string;
+    useDefaultIgnores?: boolean;
+    includeNonOData?: boolean;
+  }): Promise<CaptureDiff> {
+    const correlationId = this.logger.newCorrelationId();
+    const extraRules = args.ignoreJson ? parseVolatileRules(args.ignoreJson, 'ignoreJson') : {};
+    const defaultRules = args.useDefaultIgnores === false ? { fields: [], valuePatterns: [] } : DEFAULT_VOLATILE_RULES;
+
+    let baseline = await this.getDiffRequests('baseline', args.baselineSessionId, args.baselineHarFilePath, correlationId);
+    let current = await this.getDiffRequests('current', args.currentSessionId, args.currentHarFilePath, correlationId);
+
+    if (args.baselineUntilSequence !== undefined) {
+      const until = args.baselineUntilSequence;
+      baseline = baseline.filter((r) => r.sequence <= until);
+    }
+    if (args.currentSinceSequence !== undefined) {
+      const since = args.currentSinceSequence;
+      current = current.filter((r) => r.sequence > since);
     }
+
+    return this.captureDiffer.diff(baseline, current, {
+      volatile: {
+        fields: [...defaultRules.fields, ...(extraRules.fields ?? [])],
+        valuePatterns: [...defaultRules.valuePatterns, ...(extraRules.valuePatterns ?? [])],
+      },
+      includeNonOData: args.includeNonOData,
+    });
   }
 
-  private async handleFill(args: {
-    sessionId: string;
-    selector: string;
-    value: string;
-  }): Promise<{ success: boolean }> {
-    const session = this.sessions.get(args.sessionId);
-    if (!session) {
-      throw new Error(`Session not found: ${args.sessionId}`);
+  /**
+   * Get one side of a capture diff, with $batch calls decoded.
+   */
+  private async getDiffRequests(
+    side: 'baseline' | 'current',
+    sessionId: string | undefined,
+    harFilePath: string | undefined,
+    correlationId: string
+  ): Promise<CapturedRequest[]> {
+    if (!sessionId === !harFilePath) {
+      throw new Error(`Provide either ${side}SessionId or ${side}HarFilePath`);
     }
 
-    try {
-      await session.page.fill(args.selector, args.value);
-      return { success: true };
-    } catch (error) {
-      throw new Error(`Failed to fill input: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (sessionId) {
+      return this.getSessionRequests(sessionId);
     }
+    return this.batchDecoder.expand(await this.readHarFile(resolve(harFilePath ?? ''), correlationId));
   }
 
-  private async handleWaitForSelector(args: {
-    sessionId: string;
-    selector: string;
-    timeoutMs?: number;
-    state?: 'visible' | 'hidden' | 'attached' | 'detached';
-  }): Promise<{ found: boolean; timeElapsedMs: number }> {
-    const session = this.sessions.get(args.sessionId);
+  private async handleListSessions(): Promise<{ 
+    sessions: Array<{
+      id: string;
+      url: string;
+      createdAt: string;
+      capturedCount: number;
+      offline: boolean;
+      captureProfile?: string;
+      lastActivityAt?: string;
+      idleExpiresAt?: string;
+      maxAgeExpiresAt?: string;
+      capturedBytes: number;
+      storedFileBytes?: number;
+    }>;
+  }> {
+    const sessions: Awaited<ReturnType<typeof this.handleListSessions>>['sessions'] = Array.from(
+      this.sessions.values()
+    ).map((s) => {
+      const { idleExpiresAt, maxAgeExpiresAt } = this.sessionReaper.getExpiry(s);
+      return {
+        id: s.id,
+        url: s.url,
+        createdAt: s.createdAt.toISOString(),
+        capturedCount: s.requestCapture.getCapturedCount(),
+        offline: false,
+        captureProfile: s.requestCapture.getCaptureProfile()?.name,
+        lastActivityAt: s.lastActivityAt.toISOString(),
+        idleExpiresAt: idleExpiresAt?.toISOString(),
+        maxAgeExpiresAt: maxAgeExpiresAt?.toISOString(),
+        capturedBytes: this.estimateCapturedBytes(s.requestCapture.getCapturedRequests()),
+        storedFileBytes: s.binaryStore?.getStoredBytes(),
+      };
+    });
+
+    for (const s of this.offlineSessions.values()) {
+      sessions.push({
+        id: s.id,
+        url: s.url,
+        createdAt: s.createdAt.toISOString(),
+        capturedCount: s.requests.length,
+        offline: true,
+        capturedBytes: this.estimateCapturedBytes(s.requests),
+      });
+    }
+
+    return { sessions };
+  }
+
+  private async handleSaveAuthState(args: { sessionId: string; profile?: string }): Promise<SavedAuthInfo> {
+    this.assertPersistentStorageAllowed();
+
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    const correlationId = this.logger.newCorrelationId();
+    const profile = args.profile ?? 'default';
+    const filePath = this.authStateStore.getFilePath(profile);
+
+    try {
+      const info = await this.authStateStore.save(profile, await session.context.storageState());
+      await this.auditLogger.logFileAccess(correlationId, filePath, 'write', 'success');
+
+      this.logger.info('Auth state saved', {
+        sessionId: args.sessionId,
+        profile,
+        cookieCount: info.cookieCount,
+        expiresAt: info.expiresAt,
+      });
+
+      return info;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.auditLogger.logFileAccess(correlationId, filePath, 'write', 'failure', message);
+      throw new Error(`Failed to save auth state: ${message}`);
+    }
+  }
+
+  private async handleClearSavedAuth(args: { profile?: string }): Promise<{ cleared: string[] }> {
+    const correlationId = this.logger.newCorrelationId();
+
+    if (args.profile) {
+      const filePath = this.authStateStore.getFilePath(args.profile);
+      let removed: boolean;
+      try {
+        removed = await this.authStateStore.remove(args.profile);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        await this.auditLogger.logFileAccess(correlationId, filePath, 'write', 'failure', message);
+        throw new Error(`Failed to clear saved auth: ${message}`);
+      }
+
+      if (!removed) {
+        await this.auditLogger.logFileAccess(correlationId, filePath, 'write', 'failure', 'No saved auth state');
+        throw new Error(`No saved auth state for profile: ${args.profile}`);
+      }
+
+      await this.auditLogger.logFileAccess(correlationId, filePath, 'write', 'success', 'Auth state deleted');
+      this.logger.info('Saved auth state cleared', { cleared: [args.profile] });
+      return { cleared: [args.profile] };
+    }
+
+    const cleared = await this.authStateStore.clear();
+    for (const profile of cleared) {
+      await this.auditLogger.logFileAccess(
+        correlationId,
+        this.authStateStore.getFilePath(profile),
+        'write',
+        'success',
+        'Auth state deleted'
+      );
+    }
+
+    if (cleared.length > 0) {
+      this.logger.info('Saved auth state cleared', { cleared });
+    } else {
+      this.logger.info('No saved auth state to clear');
+    }
+    return { cleared };
+  }
+
+  /**
+   * Load the saved login state for a new session. Expired states are removed.
+   */
+  private async loadAuthState(
+    profile: string,
+    correlationId: string
+  ): Promise<{ auth: AuthRestoreResult; storageState?: StorageState }> {
+    this.assertPersistentStorageAllowed();
+
+    const filePath = this.authStateStore.getFilePath(profile);
+    let saved: AuthStatePayload | null;
+    try {
+      saved = await this.authStateStore.load(profile);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.auditLogger.logFileAccess(correlationId, filePath, 'read', 'failure', message);
+      throw new Error(`Failed to load auth state: ${message}`);
+    }
+
+    if (!saved) {
+      return { auth: { profile, status: 'missing' } };
+    }
+
+    await this.auditLogger.logFileAccess(correlationId, filePath, 'read', 'success');
+
+    if (this.authStateStore.isExpired(saved.info)) {
+      await this.authStateStore.remove(profile);
+      return {
+        auth: {
+          profile,
+          status: 'expired',
+          expiresAt: saved.info.expiresAt,
+          reason: 'The saved state expired and was removed',
+        },
+      };
+    }
+
+    return {
+      auth: { profile, status: 'restored', expiresAt: saved.info.expiresAt },
+      storageState: saved.state,
+    };
+  }
+
+  /**
+   * Saved browser state is only allowed when session isolation permits persistent storage.
+   */
+  private assertPersistentStorageAllowed(): void {
+    if (this.sessionIsolation.enabled && this.sessionIsolation.noPersistentStorage) {
+      throw new Error(
+        'Saved authentication state is disabled by sessionIsolation.noPersistentStorage in the security config'
+      );
+    }
+  }
+
+  /**
+   * Get captured requests from a browser session or an offline HAR session.
+   */
+  private getSessionRequests(sessionId: string, expandBatches = true): CapturedRequest[] {
+    const requests = this.sessions.get(sessionId)?.requestCapture.getCapturedRequests()
+      ?? this.offlineSessions.get(sessionId)?.requests;
+
+    if (!requests) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    // $batch calls are decoded into sub-requests so they can be used like normal calls
+    return expandBatches ? this.batchDecoder.expand(requests) : requests;
+  }
+
+  private async closeSession(sessionId: string): Promise<boolean> {
+    if (this.offlineSessions.delete(sessionId)) {
+      this.logger.info('Offline session closed', { sessionId });
+      return true;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    await session.requestCapture.stopCapture();
+    session.consoleCollector.stop();
+    session.pages.stop();
+    await session.context.close();
+    await session.binaryStore?.dispose();
+    this.sessions.delete(sessionId);
+    
+    this.logger.info('Session closed', { sessionId });
+    return true;
+  }
+
+  private async handleClick(args: {
+    sessionId: string;
+    selector?: string;
+    ref?: string;
+    timeoutMs?: number;
+    waitForNavigation?: boolean;
+    waitForNetworkIdle?: boolean;
+  }): Promise<{
+    success: boolean;
+    capturedCount: number;
+    newRequests: number;
+    triggeredRequests: TriggeredRequest[];
+    warning?: string;
+  }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    const target = session.pages.getActiveTarget();
+    const action = this.startAction(session);
+    const timeout = args.timeoutMs ?? 5000;
+
+    try {
+      const { selector, recordedSelector, warning } = await this.resolveElementSelector(session, args);
+
+      // Try to find element by selector
+      let element = target.locator(selector);
+      
+      // If selector looks like text, try text selector
+      if (!selector.startsWith('.') && !selector.startsWith('#') && !selector.includes('[')) {
+        const textLocator = target.getByText(selector, { exact: false });
+        const count = await textLocator.count();
+        if (count > 0) {
+          element = textLocator.first();
+        }
+      }
+
+      await element.waitFor({ state: 'visible', timeout });
+
+      if (args.waitForNavigation) {
+        await Promise.all([
+          target.waitForNavigation({ waitUntil: 'load', timeout: 30000 }).catch(() => {}),
+          element.click(),
+        ]);
+      } else {
+        await element.click();
+      }
+
+      // Wait for network idle if requested
+      if (args.waitForNetworkIdle) {
+        await target.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {});
+      }
+
+      const triggeredRequests = await this.completeAction(session, 'click', action, {
+        selector: recordedSelector,
+        timeoutMs: args.timeoutMs,
+        waitForNavigation: args.waitForNavigation,
+        waitForNetworkIdle: args.waitForNetworkIdle,
+      }, recordedSelector, warning);
+
+      this.logger.info('Click performed', {
+        sessionId: args.sessionId,
+        selector: recordedSelector,
+        newRequests: triggeredRequests.length,
+      });
+
+      return {
+        success: true,
+        capturedCount: session.requestCapture.getCapturedCount(),
+        newRequests: triggeredRequests.length,
+        triggeredRequests,
+        warning,
+      };
+    } catch (error) {
+      this.logger.error('Click failed', { error, selector: args.selector, ref: args.ref });
+      throw new Error(`Failed to click element: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleFill(args: {
+    sessionId: string;
+    selector?: string;
+    ref?: string;
+    value: string;
+  }): Promise<{ success: boolean; triggeredRequests: TriggeredRequest[]; warning?: string }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    const action = this.startAction(session);
+
+    try {
+      const { selector, recordedSelector, warning } = await this.resolveElementSelector(session, args);
+      await session.pages.getActiveTarget().fill(selector, args.value);
+      const triggeredRequests = await this.completeAction(session, 'fill', action, {
+        selector: recordedSelector,
+        value: await this.maskSensitiveInput(session, selector, args.value),
+      }, recordedSelector, warning);
+      return { success: true, triggeredRequests, warning };
+    } catch (error) {
+      throw new Error(`Failed to fill input: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleWaitForSelector(args: {
+    sessionId: string;
+    selector: string;
+    timeoutMs?: number;
+    state?: 'visible' | 'hidden' | 'attached' | 'detached';
+  }): Promise<{ found: boolean; timeElapsedMs: number }> {
+    const session = this.sessions.get(args.sessionId);
     if (!session) {
       throw new Error(`Session not found: ${args.sessionId}`);
     }
 
     const startTime = Date.now();
+    const action = this.startAction(session);
     
     try {
-      await session.page.locator(args.selector).waitFor({
+      await session.pages.getActiveTarget().locator(args.selector).waitFor({
         state: args.state ?? 'visible',
         timeout: args.timeoutMs ?? 30000,
       });
+      await this.completeAction(session, 'waitForSelector', action, {
+        selector: args.selector,
+        timeoutMs: args.timeoutMs,
+        state: args.state,
+      }, args.selector);
       return {
         found: true,
         timeElapsedMs: Date.now() - startTime,
@@ -719,7 +1956,7 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
       throw new Error(`Session not found: ${args.sessionId}`);
     }
 
-    const buffer = await session.page.screenshot({
+    const buffer = await session.pages.getActivePage().screenshot({
       fullPage: args.fullPage ?? false,
       type: 'png',
     });
@@ -740,7 +1977,7 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
     }
 
     try {
-      const result = await session.page.evaluate(args.script);
+      const result = await session.pages.getActiveTarget().evaluate(args.script);
       return { result };
     } catch (error) {
       throw new Error(`Script evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -759,11 +1996,12 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
       throw new Error(`Session not found: ${args.sessionId}`);
     }
 
-    const url = session.page.url();
-    const title = await session.page.title();
+    const target = session.pages.getActiveTarget();
+    const url = target.url();
+    const title = await target.title();
 
     // Get buttons using evaluate with string script
-    const buttons = await session.page.evaluate(`
+    const buttons = await target.evaluate<Array<{ text: string; selector: string }>>(`
       (() => {
         const btns = [];
         document.querySelectorAll('button, [role="button"], input[type="button"], input[type="submit"]').forEach((el, index) => {
@@ -777,10 +2015,10 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
         });
         return btns.slice(0, 20);
       })()
-    `) as Array<{ text: string; selector: string }>;
+    `);
 
     // Get inputs
-    const inputs = await session.page.evaluate(`
+    const inputs = await target.evaluate<Array<{ name: string; type: string; selector: string }>>(`
       (() => {
         const inp = [];
         document.querySelectorAll('input, textarea, select').forEach((el) => {
@@ -794,10 +2032,10 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
         });
         return inp.slice(0, 20);
       })()
-    `) as Array<{ name: string; type: string; selector: string }>;
+    `);
 
     // Get links
-    const links = await session.page.evaluate(`
+    const links = await target.evaluate<Array<{ text: string; href: string }>>(`
       (() => {
         const lnk = [];
         document.querySelectorAll('a[href]').forEach((el) => {
@@ -811,154 +2049,635 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
         });
         return lnk.slice(0, 20);
       })()
-    `) as Array<{ text: string; href: string }>;
+    `);
 
     return { url, title, buttons, inputs, links };
   }
 
-  private async handleClearCapturedRequests(args: { sessionId: string }): Promise<{ success: boolean }> {
-    const session = this.sessions.get(args.sessionId);
-    if (!session) {
-      throw new Error(`Session not found: ${args.sessionId}`);
-    }
-
-    session.requestCapture.clearCaptures();
-    this.logger.info('Captured requests cleared', { sessionId: args.sessionId });
-    return { success: true };
-  }
-
-  private async handleSelectOption(args: {
+  private async handleSnapshotPage(args: {
     sessionId: string;
-    selector: string;
-    value?: string;
-    label?: string;
-    index?: number;
-  }): Promise<{ success: boolean; selectedValue: string }> {
+    scope?: PageSnapshotOptions['scope'];
+    rootSelector?: string;
+    includeText?: boolean;
+    maxNodes?: number;
+  }): Promise<{
+    pageId: string;
+    frameId?: string;
+    url: string;
+    title: string;
+    scope: PageSnapshot['scope'];
+    snapshot: string;
+    refCount: number;
+    truncated: boolean;
+  }> {
     const session = this.sessions.get(args.sessionId);
     if (!session) {
       throw new Error(`Session not found: ${args.sessionId}`);
     }
 
+    const target = session.pages.getActiveTarget();
+
     try {
-      let selectedValues: string[];
-      
-      if (args.value !== undefined) {
-        selectedValues = await session.page.selectOption(args.selector, { value: args.value });
-      } else if (args.label !== undefined) {
-        selectedValues = await session.page.selectOption(args.selector, { label: args.label });
-      } else if (args.index !== undefined) {
-        selectedValues = await session.page.selectOption(args.selector, { index: args.index });
-      } else {
-        throw new Error('Must provide value, label, or index to select');
-      }
+      const result = await this.pageSnapshotter.snapshot(target, {
+        scope: args.scope ?? 'auto',
+        rootSelector: args.rootSelector,
+        includeText: args.includeText,
+        maxNodes: args.maxNodes ?? 300,
+      });
 
       return {
-        success: true,
-        selectedValue: selectedValues[0] ?? '',
+        pageId: session.pages.getPageId(session.pages.getActivePage()),
+        frameId: session.pages.getActiveFrameId(),
+        url: target.url(),
+        title: result.title,
+        scope: result.scope,
+        snapshot: result.snapshot,
+        refCount: result.refs.length,
+        truncated: result.truncated,
       };
     } catch (error) {
-      throw new Error(`Failed to select option: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to snapshot page: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleListPages(args: { sessionId: string }): Promise<{ pages: PageTargetInfo[] }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
     }
+
+    return { pages: await session.pages.describe() };
   }
 
-  private async handleCheck(args: { sessionId: string; selector: string }): Promise<{ success: boolean }> {
+  private async handleSwitchTarget(args: {
+    sessionId: string;
+    pageId?: string;
+    frameId?: string;
+    frameSelector?: string;
+    timeoutMs?: number;
+  }): Promise<{ pageId: string; frameId?: string; url: string }> {
     const session = this.sessions.get(args.sessionId);
     if (!session) {
       throw new Error(`Session not found: ${args.sessionId}`);
     }
 
+    if (!args.pageId && !args.frameId && !args.frameSelector) {
+      throw new Error('Provide pageId, frameId or frameSelector');
+    }
+    if (args.frameId && args.frameSelector) {
+      throw new Error('Provide either frameId or frameSelector, not both');
+    }
+
     try {
-      await session.page.check(args.selector);
-      return { success: true };
+      session.pages.switchTo(args.pageId, args.frameId);
+      if (args.frameSelector) {
+        await session.pages.switchToFrameElement(args.frameSelector, args.timeoutMs ?? 10000);
+      }
     } catch (error) {
-      throw new Error(`Failed to check element: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to switch target: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    const page = session.pages.getActivePage();
+    const frameId = session.pages.getActiveFrameId();
+
+    // Page and frame IDs follow the order pages open, so a replay reaches the same targets
+    session.workflow.record({
+      action: 'switchTarget',
+      selector: args.frameSelector,
+      inputs: { pageId: args.pageId, frameId: args.frameId, frameSelector: args.frameSelector, timeoutMs: args.timeoutMs },
+      pageUrl: page.url(),
+      requestIds: [],
+    });
+
+    return { pageId: session.pages.getPageId(page), frameId, url: session.pages.getActiveTarget().url() };
   }
 
-  private async handleUncheck(args: { sessionId: string; selector: string }): Promise<{ success: boolean }> {
+  private async handleClosePage(args: {
+    sessionId: string;
+    pageId: string;
+  }): Promise<{ success: boolean; activePageId: string }> {
     const session = this.sessions.get(args.sessionId);
     if (!session) {
       throw new Error(`Session not found: ${args.sessionId}`);
     }
 
     try {
-      await session.page.uncheck(args.selector);
-      return { success: true };
+      await session.pages.closePage(args.pageId);
     } catch (error) {
-      throw new Error(`Failed to uncheck element: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to close page: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+
+    const page = session.pages.getActivePage();
+    session.workflow.record({
+      action: 'closePage',
+      inputs: { pageId: args.pageId },
+      pageUrl: page.url(),
+      requestIds: [],
+    });
+
+    return { success: true, activePageId: session.pages.getPageId(page) };
   }
 
-  private async handleWaitForModal(args: {
+  private handleGetConsoleLogs(args: {
     sessionId: string;
-    modalSelector?: string;
-    timeoutMs?: number;
-  }): Promise<{ found: boolean; modalInfo: { selector: string; title?: string } | null }> {
+    types?: string[];
+    sinceSequence?: number;
+    limit?: number;
+  }): Promise<{ entries: ConsoleEntry[]; totalCount: number; droppedCount: number }> {
     const session = this.sessions.get(args.sessionId);
     if (!session) {
       throw new Error(`Session not found: ${args.sessionId}`);
     }
 
-    const selector = args.modalSelector ?? '[role="dialog"], .modal, .dialog, [class*="modal"]';
-    const timeout = args.timeoutMs ?? 10000;
+    let entries = session.consoleCollector.getEntries();
 
-    try {
-      await session.page.locator(selector).first().waitFor({ state: 'visible', timeout });
-      
-      // Try to get modal title
-      const title = await session.page.evaluate(`
-        (() => {
-          const modal = document.querySelector('${selector.replace(/'/g, "\\'")}');
-          if (!modal) return null;
-          const titleEl = modal.querySelector('h1, h2, h3, .modal-title, [class*="title"]');
-          return titleEl ? titleEl.innerText.trim() : null;
-        })()
-      `) as string | null;
+    if (args.sinceSequence !== undefined) {
+      const since = args.sinceSequence;
+      entries = entries.filter((e) => e.sequence > since);
+    }
 
-      return {
-        found: true,
-        modalInfo: {
-          selector,
-          title: title ?? undefined,
-        },
-      };
-    } catch {
-      return {
-        found: false,
-        modalInfo: null,
-      };
+    if (args.types && args.types.length > 0) {
+      const types = new Set(args.types);
+      entries = entries.filter((e) => types.has(e.type));
     }
+
+    const totalCount = entries.length;
+    const limit = args.limit ?? 100;
+
+    return Promise.resolve({
+      entries: limit > 0 ? entries.slice(-limit) : [],
+      totalCount,
+      droppedCount: session.consoleCollector.getDroppedCount(),
+    });
   }
 
-  private async handleFillForm(args: {
-    sessionId: string;
-    fields: Array<{ selector: string; value: string; type?: 'text' | 'select' | 'checkbox' }>;
-  }): Promise<{ success: boolean; filledCount: number; errors: string[] }> {
+  private async handleClearCapturedRequests(args: { sessionId: string }): Promise<{ success: boolean }> {
     const session = this.sessions.get(args.sessionId);
     if (!session) {
       throw new Error(`Session not found: ${args.sessionId}`);
     }
 
-    const errors: string[] = [];
-    let filledCount = 0;
-
-    for (const field of args.fields) {
+    session.requestCapture.clearCaptures();
+    this.logger.info('Captured requests cleared', { sessionId: args.sessionId });
+    return { success: true };
+  }
+
+  private handleSetCaptureFilter(args: {
+    sessionId: string;
+    profile?: string;
+    includeJson?: string;
+    excludeJson?: string;
+    applyToCaptured?: boolean;
+  }): Promise<{ profile: CaptureProfile; removedCount: number; capturedCount: number }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    if (!args.profile && !args.includeJson && !args.excludeJson) {
+      throw new Error('Provide a profile, includeJson or excludeJson');
+    }
+
+    const base = args.profile ? getCaptureProfile(args.profile) : undefined;
+    const include = args.includeJson ? parseCaptureRules(args.includeJson, 'includeJson') : [];
+    const exclude = args.excludeJson ? parseCaptureRules(args.excludeJson, 'excludeJson') : [];
+
+    const profile: CaptureProfile =
+      base && include.length === 0 && exclude.length === 0
+        ? base
+        : {
+            name: base ? `${base.name}+custom` : 'custom',
+            include: [...(base?.include ?? []), ...include],
+            exclude: [...(base?.exclude ?? []), ...exclude],
+          };
+
+    const removedCount = session.requestCapture.setCaptureProfile(profile, args.applyToCaptured === true);
+
+    this.logger.info('Capture filter set', {
+      sessionId: args.sessionId,
+      profile: profile.name,
+      removedCount,
+    });
+
+    return Promise.resolve({
+      profile,
+      removedCount,
+      capturedCount: session.requestCapture.getCapturedCount(),
+    });
+  }
+
+  private async handleInjectFault(args: {
+    sessionId: string;
+    type: FaultType;
+    method?: string;
+    urlPattern?: string;
+    entitySet?: string;
+    operation?: string;
+    delayMs?: number;
+    status?: number;
+    body?: string;
+    contentType?: string;
+    errorCode?: string;
+    bytesPerSecond?: number;
+    times?: number;
+  }): Promise<{ rule: FaultRule; ruleCount: number }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    const { sessionId, method, urlPattern, entitySet, operation, times, ...fault } = args;
+    const rule = await session.faultInjector.addRule({ method, urlPattern, entitySet, operation }, fault, times);
+
+    this.logger.info('Fault rule added', {
+      sessionId,
+      ruleId: rule.id,
+      type: rule.fault.type,
+    });
+
+    return {
+      rule,
+      ruleCount: session.faultInjector.getRules().length,
+    };
+  }
+
+  private handleListFaults(args: { sessionId: string }): Promise<{ rules: FaultRule[] }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    return Promise.resolve({ rules: session.faultInjector.getRules() });
+  }
+
+  private async handleClearFaults(args: {
+    sessionId: string;
+    ruleId?: string;
+  }): Promise<{ removedCount: number; ruleCount: number }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    const removedCount = await session.faultInjector.removeRules(args.ruleId);
+
+    this.logger.info('Fault rules removed', {
+      sessionId: args.sessionId,
+      removedCount,
+    });
+
+    return {
+      removedCount,
+      ruleCount: session.faultInjector.getRules().length,
+    };
+  }
+
+  private async handleWaitForRequest(args: {
+    sessionId: string;
+    method?: string;
+    urlPattern?: string;
+    entitySet?: string;
+    operation?: string;
+    bodyJson?: string;
+    sinceSequence?: number;
+    timeoutMs?: number;
+  }): Promise<{ found: boolean; timeElapsedMs: number; request: CapturedRequest | null }> {
+    return this.waitForMatchingRequest(args, 'request');
+  }
+
+  private async handleWaitForResponse(args: {
+    sessionId: string;
+    method?: string;
+    urlPattern?: string;
+    entitySet?: string;
+    operation?: string;
+    statusMin?: number;
+    statusMax?: number;
+    bodyJson?: string;
+    sinceSequence?: number;
+    timeoutMs?: number;
+  }): Promise<{ found: boolean; timeElapsedMs: number; request: CapturedRequest | null }> {
+    return this.waitForMatchingRequest(args, 'response');
+  }
+
+  /**
+   * Poll the session timeline (with $batch calls expanded) for a request matching the criteria.
+   */
+  private async waitForMatchingRequest(
+    args: Omit<RequestMatchCriteria, 'body'> & {
+      sessionId: string;
+      bodyJson?: string;
+      sinceSequence?: number;
+      timeoutMs?: number;
+    },
+    phase: MatchPhase
+  ): Promise<{ found: boolean; timeElapsedMs: number; request: CapturedRequest | null }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    let body: unknown;
+    if (args.bodyJson) {
+      try {
+        body = JSON.parse(args.bodyJson) as unknown;
+      } catch {
+        throw new Error('bodyJson is not valid JSON');
+      }
+    }
+
+    const { sessionId, bodyJson, sinceSequence, timeoutMs, ...criteria } = args;
+    const matcher = new RequestMatcher({ ...criteria, body }, this.odataParser);
+    const since = sinceSequence ?? session.lastActionSequence;
+    const startTime = Date.now();
+
+    const request = await matcher.waitFor(
+      () => this.batchDecoder.expand(session.requestCapture.getRequestsAfter(since)),
+      phase,
+      timeoutMs ?? 30000
+    );
+    if (!request) {
+      this.logger.warn('No matching request before timeout', {
+        sessionId,
+        phase,
+        criteria: matcher.describe(),
+      });
+      return { found: false, timeElapsedMs: Date.now() - startTime, request: null };
+    }
+
+    // Sequence numbers differ between sessions, so replays wait from their own last action
+    session.workflow.record({
+      action: phase === 'request' ? 'waitForRequest' : 'waitForResponse',
+      inputs: { ...criteria, bodyJson, timeoutMs },
+      pageUrl: session.pages.getActivePage().url(),
+      requestIds: [request.batch?.batchId ?? request.id],
+    });
+    return { found: true, timeElapsedMs: Date.now() - startTime, request };
+  }
+
+  private async handleSelectOption(args: {
+    sessionId: string;
+    selector?: string;
+    ref?: string;
+    value?: string;
+    label?: string;
+    index?: number;
+  }): Promise<{
+    success: boolean;
+    selectedValue: string;
+    triggeredRequests: TriggeredRequest[];
+    warning?: string;
+  }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    const target = session.pages.getActiveTarget();
+    const action = this.startAction(session);
+
+    try {
+      const { selector, recordedSelector, warning } = await this.resolveElementSelector(session, args);
+      let selectedValues: string[];
+      
+      if (args.value !== undefined) {
+        selectedValues = await target.selectOption(selector, { value: args.value });
+      } else if (args.label !== undefined) {
+        selectedValues = await target.selectOption(selector, { label: args.label });
+      } else if (args.index !== undefined) {
+        selectedValues = await target.selectOption(selector, { index: args.index });
+      } else {
+        throw new Error('Must provide value, label, or index to select');
+      }
+
+      const triggeredRequests = await this.completeAction(session, 'selectOption', action, {
+        selector: recordedSelector,
+        value: args.value,
+        label: args.label,
+        index: args.index,
+      }, recordedSelector, warning);
+
+      return {
+        success: true,
+        selectedValue: selectedValues[0] ?? '',
+        triggeredRequests,
+        warning,
+      };
+    } catch (error) {
+      throw new Error(`Failed to select option: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleUploadFile(args: {
+    sessionId: string;
+    selector?: string;
+    ref?: string;
+    filePaths: string[];
+    timeoutMs?: number;
+  }): Promise<{
+    success: boolean;
+    fileCount: number;
+    triggeredRequests: TriggeredRequest[];
+    warning?: string;
+  }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    const correlationId = this.logger.newCorrelationId();
+    const target = session.pages.getActiveTarget();
+    const timeout = args.timeoutMs ?? 30000;
+    const action = this.startAction(session);
+    const filePaths = args.filePaths.map((filePath) => resolve(filePath));
+    let filesRead = false;
+
+    try {
+      if (filePaths.length === 0) {
+        throw new Error('Provide at least one file path');
+      }
+      for (const filePath of filePaths) {
+        const info = await stat(filePath).catch(() => null);
+        if (!info?.isFile()) {
+          throw new Error(`File not found: ${filePath}`);
+        }
+      }
+
+      const { selector, recordedSelector, warning } = await this.resolveElementSelector(session, args);
+      const element = target.locator(selector).first();
+
+      // Hidden inputs are set directly; other elements (upload buttons) open a file chooser
+      const inputType = await element.getAttribute('type', { timeout });
+      if (inputType?.toLowerCase() === 'file') {
+        await element.setInputFiles(filePaths, { timeout });
+      } else {
+        const [fileChooser] = await Promise.all([
+          session.pages.getActivePage().waitForEvent('filechooser', { timeout }),
+          element.click({ timeout }),
+        ]);
+        await fileChooser.setFiles(filePaths, { timeout });
+      }
+
+      // The browser has read the files by now
+      filesRead = true;
+      for (const filePath of filePaths) {
+        await this.auditLogger.logFileAccess(correlationId, filePath, 'read', 'success');
+      }
+
+      const triggeredRequests = await this.completeAction(session, 'uploadFile', action, {
+        selector: recordedSelector,
+        filePaths,
+        timeoutMs: args.timeoutMs,
+      }, recordedSelector, warning);
+
+      return { success: true, fileCount: filePaths.length, triggeredRequests, warning };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (!filesRead) {
+        for (const filePath of filePaths) {
+          await this.auditLogger.logFileAccess(correlationId, filePath, 'read', 'failure', message);
+        }
+      }
+      throw new Error(`Failed to upload file: ${message}`);
+    }
+  }
+
+  private async handleCheck(args: {
+    sessionId: string;
+    selector: string;
+  }): Promise<{ success: boolean; triggeredRequests: TriggeredRequest[] }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    const action = this.startAction(session);
+
+    try {
+      await session.pages.getActiveTarget().check(args.selector);
+      const triggeredRequests = await this.completeAction(
+        session,
+        'check',
+        action,
+        { selector: args.selector },
+        args.selector
+      );
+      return { success: true, triggeredRequests };
+    } catch (error) {
+      throw new Error(`Failed to check element: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleUncheck(args: {
+    sessionId: string;
+    selector: string;
+  }): Promise<{ success: boolean; triggeredRequests: TriggeredRequest[] }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    const action = this.startAction(session);
+
+    try {
+      await session.pages.getActiveTarget().uncheck(args.selector);
+      const triggeredRequests = await this.completeAction(
+        session,
+        'uncheck',
+        action,
+        { selector: args.selector },
+        args.selector
+      );
+      return { success: true, triggeredRequests };
+    } catch (error) {
+      throw new Error(`Failed to uncheck element: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleWaitForModal(args: {
+    sessionId: string;
+    modalSelector?: string;
+    timeoutMs?: number;
+  }): Promise<{ found: boolean; modalInfo: { selector: string; title?: string } | null }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    const target = session.pages.getActiveTarget();
+    const selector = args.modalSelector ?? '[role="dialog"], .modal, .dialog, [class*="modal"]';
+    const timeout = args.timeoutMs ?? 10000;
+    const action = this.startAction(session);
+
+    try {
+      await target.locator(selector).first().waitFor({ state: 'visible', timeout });
+      
+      // Try to get modal title
+      const title = await target.evaluate<string | null>(`
+        (() => {
+          const modal = document.querySelector('${selector.replace(/'/g, "\\'")}');
+          if (!modal) return null;
+          const titleEl = modal.querySelector('h1, h2, h3, .modal-title, [class*="title"]');
+          return titleEl ? titleEl.innerText.trim() : null;
+        })()
+      `);
+
+      await this.completeAction(session, 'waitForModal', action, {
+        modalSelector: args.modalSelector,
+        timeoutMs: args.timeoutMs,
+      }, selector);
+
+      return {
+        found: true,
+        modalInfo: {
+          selector,
+          title: title ?? undefined,
+        },
+      };
+    } catch {
+      return {
+        found: false,
+        modalInfo: null,
+      };
+    }
+  }
+
+  private async handleFillForm(args: {
+    sessionId: string;
+    fields: Array<{ selector: string; value: string; type?: 'text' | 'select' | 'checkbox' }>;
+  }): Promise<{
+    success: boolean;
+    filledCount: number;
+    errors: string[];
+    triggeredRequests: TriggeredRequest[];
+  }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    const target = session.pages.getActiveTarget();
+    const errors: string[] = [];
+    let filledCount = 0;
+    const action = this.startAction(session);
+
+    for (const field of args.fields) {
       try {
         const fieldType = field.type ?? 'text';
 
         switch (fieldType) {
           case 'select':
-            await session.page.selectOption(field.selector, field.value);
+            await target.selectOption(field.selector, field.value);
             break;
           case 'checkbox':
             if (field.value === 'true' || field.value === '1') {
-              await session.page.check(field.selector);
+              await target.check(field.selector);
             } else {
-              await session.page.uncheck(field.selector);
+              await target.uncheck(field.selector);
             }
             break;
           default:
-            await session.page.fill(field.selector, field.value);
+            await target.fill(field.selector, field.value);
         }
         filledCount++;
       } catch (error) {
@@ -966,10 +2685,20 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
       }
     }
 
+    const recordedFields = [];
+    for (const field of args.fields) {
+      recordedFields.push({
+        ...field,
+        value: await this.maskSensitiveInput(session, field.selector, field.value),
+      });
+    }
+    const triggeredRequests = await this.completeAction(session, 'fillForm', action, { fields: recordedFields });
+
     return {
       success: errors.length === 0,
       filledCount,
       errors,
+      triggeredRequests,
     };
   }
 
@@ -978,29 +2707,42 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
     selector: string;
     text: string;
     delay?: number;
-  }): Promise<{ success: boolean }> {
+  }): Promise<{ success: boolean; triggeredRequests: TriggeredRequest[] }> {
     const session = this.sessions.get(args.sessionId);
     if (!session) {
       throw new Error(`Session not found: ${args.sessionId}`);
     }
 
+    const action = this.startAction(session);
+
     try {
-      await session.page.locator(args.selector).type(args.text, { delay: args.delay ?? 50 });
-      return { success: true };
+      await session.pages.getActiveTarget().locator(args.selector).type(args.text, { delay: args.delay ?? 50 });
+      const triggeredRequests = await this.completeAction(session, 'type', action, {
+        selector: args.selector,
+        text: await this.maskSensitiveInput(session, args.selector, args.text),
+        delay: args.delay,
+      }, args.selector);
+      return { success: true, triggeredRequests };
     } catch (error) {
       throw new Error(`Failed to type text: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private async handlePressKey(args: { sessionId: string; key: string }): Promise<{ success: boolean }> {
+  private async handlePressKey(args: {
+    sessionId: string;
+    key: string;
+  }): Promise<{ success: boolean; triggeredRequests: TriggeredRequest[] }> {
     const session = this.sessions.get(args.sessionId);
     if (!session) {
       throw new Error(`Session not found: ${args.sessionId}`);
     }
 
+    const action = this.startAction(session);
+
     try {
-      await session.page.keyboard.press(args.key);
-      return { success: true };
+      await session.pages.getActivePage().keyboard.press(args.key);
+      const triggeredRequests = await this.completeAction(session, 'pressKey', action, { key: args.key });
+      return { success: true, triggeredRequests };
     } catch (error) {
       throw new Error(`Failed to press key: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -1026,7 +2768,16 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
 
     const container = args.containerSelector ?? 'form, [role="dialog"], .modal';
 
-    const fields = await session.page.evaluate(`
+    const fields = await session.pages.getActiveTarget().evaluate<
+      Array<{
+        type: string;
+        name: string;
+        selector: string;
+        value: string;
+        options?: Array<{ value: string; label: string }>;
+        checked?: boolean;
+      }>
+    >(`
       (() => {
         const container = document.querySelector('${container.replace(/'/g, "\\'")}');
         if (!container) return [];
@@ -1061,14 +2812,7 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
         
         return fields.slice(0, 50);
       })()
-    `) as Array<{
-      type: string;
-      name: string;
-      selector: string;
-      value: string;
-      options?: Array<{ value: string; label: string }>;
-      checked?: boolean;
-    }>;
+    `);
 
     return { fields };
   }
@@ -1078,45 +2822,815 @@ export class HttpCaptureMcpServer extends BaseMcpServer {
     submitButtonSelector?: string;
     waitForNetworkIdle?: boolean;
     timeoutMs?: number;
-  }): Promise<{ success: boolean; capturedCount: number; newRequests: number }> {
+  }): Promise<{
+    success: boolean;
+    capturedCount: number;
+    newRequests: number;
+    triggeredRequests: TriggeredRequest[];
+  }> {
     const session = this.sessions.get(args.sessionId);
     if (!session) {
       throw new Error(`Session not found: ${args.sessionId}`);
     }
 
-    const beforeCount = session.requestCapture.getCapturedCount();
+    const target = session.pages.getActiveTarget();
+    const action = this.startAction(session);
     const buttonSelector = args.submitButtonSelector ?? 
       'button[type="submit"], input[type="submit"], button:has-text("OK"), button:has-text("Submit"), button:has-text("Save")';
     const timeout = args.timeoutMs ?? 30000;
 
     try {
       // Find and click the submit button
-      const submitButton = session.page.locator(buttonSelector).first();
+      const submitButton = target.locator(buttonSelector).first();
       await submitButton.waitFor({ state: 'visible', timeout: 5000 });
       await submitButton.click();
 
       // Wait for network activity
       if (args.waitForNetworkIdle !== false) {
-        await session.page.waitForLoadState('networkidle', { timeout }).catch(() => {});
+        await target.waitForLoadState('networkidle', { timeout }).catch(() => {});
       }
 
-      // Small delay to ensure all requests are captured
-      await session.page.waitForTimeout(500);
-
-      const afterCount = session.requestCapture.getCapturedCount();
+      const triggeredRequests = await this.completeAction(session, 'submitForm', action, {
+        submitButtonSelector: args.submitButtonSelector,
+        waitForNetworkIdle: args.waitForNetworkIdle,
+        timeoutMs: args.timeoutMs,
+      }, buttonSelector);
 
       this.logger.info('Form submitted', {
         sessionId: args.sessionId,
-        newRequests: afterCount - beforeCount,
+        newRequests: triggeredRequests.length,
       });
 
       return {
         success: true,
-        capturedCount: afterCount,
-        newRequests: afterCount - beforeCount,
+        capturedCount: session.requestCapture.getCapturedCount(),
+        newRequests: triggeredRequests.length,
+        triggeredRequests,
       };
     } catch (error) {
       throw new Error(`Failed to submit form: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
+
+  private async handleExportHar(args: {
+    sessionId: string;
+    filePath: string;
+  }): Promise<{ filePath: string; entryCount: number }> {
+    const correlationId = this.logger.newCorrelationId();
+    const requests = this.getSessionRequests(args.sessionId, false);
+    const filePath = resolve(args.filePath);
+
+    const har = this.harConverter.toHar(requests, `Capture session ${args.sessionId}`);
+
+    try {
+      await this.writeJsonFile(filePath, har, correlationId);
+    } catch (error) {
+      throw new Error(`Failed to write HAR file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.logger.info('HAR exported', { sessionId: args.sessionId, filePath, entryCount: requests.length });
+
+    return { filePath, entryCount: requests.length };
+  }
+
+  private async handleExportTrace(args: {
+    sessionId: string;
+    filePath: string;
+  }): Promise<{ filePath: string; entryCount: number; redactedEntryCount: number }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+    if (!session.tracing) {
+      throw new Error(`Tracing is not enabled for session: ${args.sessionId}. Open the URL with trace: true`);
+    }
+
+    const correlationId = this.logger.newCorrelationId();
+    const filePath = resolve(args.filePath);
+
+    // Playwright writes the raw chunk to a private temp directory; only the redacted archive reaches filePath
+    const tempDirectory = await mkdtemp(join(tmpdir(), 'http-capture-trace-'));
+    try {
+      const rawPath = join(tempDirectory, 'trace.zip');
+      await session.context.tracing.stopChunk({ path: rawPath });
+      await session.context.tracing.startChunk();
+
+      const result = this.traceRedactor.redact(await readFile(rawPath));
+      await this.writeOutputFile(filePath, result.archive, correlationId);
+
+      this.logger.info('Trace exported', {
+        sessionId: args.sessionId,
+        filePath,
+        entryCount: result.entryCount,
+        redactedEntryCount: result.redactedEntryCount,
+      });
+
+      return { filePath, entryCount: result.entryCount, redactedEntryCount: result.redactedEntryCount };
+    } catch (error) {
+      throw new Error(`Failed to export trace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      await rm(tempDirectory, { recursive: true, force: true });
+    }
+  }
+
+  private async handleImportHar(args: {
+    filePath: string;
+  }): Promise<{ sessionId: string; status: string; capturedCount: number }> {
+    const correlationId = this.logger.newCorrelationId();
+    const filePath = resolve(args.filePath);
+    const requests = await this.readHarFile(filePath, correlationId);
+
+    const sessionId = correlationId;
+    this.offlineSessions.set(sessionId, {
+      id: sessionId,
+      source: filePath,
+      requests,
+      createdAt: new Date(),
+      url: requests[0]?.url ?? '',
+    });
+
+    this.logger.info('HAR imported as offline session', { sessionId, filePath, capturedCount: requests.length });
+
+    return {
+      sessionId,
+      status: 'offline',
+      capturedCount: requests.length,
+    };
+  }
+
+  private async handleExportWorkflow(args: {
+    sessionId: string;
+    filePath: string;
+  }): Promise<{ filePath: string; stepCount: number }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    const correlationId = this.logger.newCorrelationId();
+    const filePath = resolve(args.filePath);
+    const workflow = session.workflow.toWorkflow();
+
+    try {
+      await this.writeJsonFile(filePath, workflow, correlationId);
+    } catch (error) {
+      throw new Error(`Failed to export workflow: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    this.logger.info('Workflow exported', { sessionId: args.sessionId, filePath, stepCount: workflow.steps.length });
+
+    return {
+      filePath,
+      stepCount: workflow.steps.length,
+    };
+  }
+
+  private async handleReplayWorkflow(args: {
+    filePath: string;
+    authProfile?: string;
+    secrets?: string[];
+    stopOnError?: boolean;
+    timeoutMs?: number;
+  }): Promise<{
+    sessionId: string;
+    auth?: AuthRestoreResult;
+    stepCount: number;
+    completedSteps: number;
+    steps: WorkflowReplayStepResult[];
+    capturedCount: number;
+  }> {
+    const correlationId = this.logger.newCorrelationId();
+    const workflow = await this.readWorkflowFile(resolve(args.filePath), correlationId);
+    const secrets = [...(args.secrets ?? [])];
+
+    const opened = await this.handleOpenUrl({
+      url: workflow.startUrl,
+      timeoutMs: args.timeoutMs,
+      waitForNetworkIdle: true,
+      authProfile: args.authProfile,
+    });
+    const session = this.sessions.get(opened.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${opened.sessionId}`);
+    }
+
+    const steps: WorkflowReplayStepResult[] = [];
+    for (const step of workflow.steps) {
+      try {
+        await this.runWorkflowStep(opened.sessionId, step, this.applySecrets(step.inputs, secrets));
+        steps.push({
+          index: step.index,
+          action: step.action,
+          selector: step.selector,
+          success: true,
+          requestIds: session.workflow.getLastStep()?.requestIds ?? [],
+        });
+      } catch (error) {
+        steps.push({
+          index: step.index,
+          action: step.action,
+          selector: step.selector,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          requestIds: [],
+        });
+        if (args.stopOnError !== false) {
+          break;
+        }
+      }
+    }
+
+    const completedSteps = steps.filter((s) => s.success).length;
+    this.logger.info('Workflow replayed', {
+      sessionId: opened.sessionId,
+      filePath: args.filePath,
+      stepCount: workflow.steps.length,
+      completedSteps,
+    });
+
+    return {
+      sessionId: opened.sessionId,
+      auth: opened.auth,
+      stepCount: workflow.steps.length,
+      completedSteps,
+      steps,
+      capturedCount: session.requestCapture.getCapturedCount(),
+    };
+  }
+
+  /**
+   * Perform a recorded step through the same handler that recorded it.
+   * Waits that do not find their element fail the step.
+   */
+  private async runWorkflowStep(
+    sessionId: string,
+    step: WorkflowStep,
+    inputs: Record<string, unknown>
+  ): Promise<void> {
+    if (step.warning !== undefined) {
+      throw new Error(step.warning);
+    }
+
+    const args = { ...inputs, sessionId };
+
+    switch (step.action) {
+      case 'click':
+        await this.handleClick(args as Parameters<typeof this.handleClick>[0]);
+        return;
+      case 'fill':
+        await this.handleFill(args as Parameters<typeof this.handleFill>[0]);
+        return;
+      case 'type':
+        await this.handleType(args as Parameters<typeof this.handleType>[0]);
+        return;
+      case 'selectOption':
+        await this.handleSelectOption(args as Parameters<typeof this.handleSelectOption>[0]);
+        return;
+      case 'check':
+        await this.handleCheck(args as Parameters<typeof this.handleCheck>[0]);
+        return;
+      case 'uncheck':
+        await this.handleUncheck(args as Parameters<typeof this.handleUncheck>[0]);
+        return;
+      case 'pressKey':
+        await this.handlePressKey(args as Parameters<typeof this.handlePressKey>[0]);
+        return;
+      case 'fillForm': {
+        const result = await this.handleFillForm(args as Parameters<typeof this.handleFillForm>[0]);
+        if (!result.success) {
+          throw new Error(result.errors.join('; '));
+        }
+        return;
+      }
+      case 'submitForm':
+        await this.handleSubmitForm(args as Parameters<typeof this.handleSubmitForm>[0]);
+        return;
+      case 'switchTarget':
+        await this.handleSwitchTarget(args as Parameters<typeof this.handleSwitchTarget>[0]);
+        return;
+      case 'closePage':
+        await this.handleClosePage(args as Parameters<typeof this.handleClosePage>[0]);
+        return;
+      case 'uploadFile':
+        await this.handleUploadFile(args as Parameters<typeof this.handleUploadFile>[0]);
+        return;
+      case 'waitForSelector': {
+        const result = await this.handleWaitForSelector(args as Parameters<typeof this.handleWaitForSelector>[0]);
+        if (!result.found) {
+          throw new Error(`Element not found: ${step.selector ?? ''}`);
+        }
+        return;
+      }
+      case 'waitForModal': {
+        const result = await this.handleWaitForModal(args as Parameters<typeof this.handleWaitForModal>[0]);
+        if (!result.found) {
+          throw new Error(`Modal not found: ${step.selector ?? ''}`);
+        }
+        return;
+      }
+      case 'waitForRequest': {
+        const result = await this.handleWaitForRequest(args as Parameters<typeof this.handleWaitForRequest>[0]);
+        if (!result.found) {
+          throw new Error('No matching request was sent');
+        }
+        return;
+      }
+      case 'waitForResponse': {
+        const result = await this.handleWaitForResponse(args as Parameters<typeof this.handleWaitForResponse>[0]);
+        if (!result.found) {
+          throw new Error('No matching response was received');
+        }
+        return;
+      }
+      default:
+        throw new Error(`Unsupported workflow action: ${String(step.action)}`);
+    }
+  }
+
+  /**
+   * Mark the start of a UI action.
+   */
+  private startAction(session: CaptureSession): ActionWindow {
+    // Replayed workflow steps run inside one tool call and still count as activity
+    session.lastActivityAt = new Date();
+    return {
+      startSequence: session.requestCapture.getLastSequence(),
+      startedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Finish a UI action: wait for the traffic it started to settle, attribute the requests
+   * to it and record it in the session workflow.
+   */
+  private async completeAction(
+    session: CaptureSession,
+    action: WorkflowActionType,
+    window: ActionWindow,
+    inputs: Record<string, unknown>,
+    selector?: string,
+    warning?: string
+  ): Promise<TriggeredRequest[]> {
+    await session.requestCapture.waitForSettled(window.startSequence);
+    if (!WAIT_ACTIONS.has(action)) {
+      session.lastActionSequence = window.startSequence;
+    }
+
+    // Attribute the requests the action started, not everything still in flight
+    const endedAt = Date.now();
+    const captured = session.requestCapture.getRequestsAfter(window.startSequence);
+    const triggered = this.actionAttributor.attribute(this.batchDecoder.expand(captured), window, endedAt);
+
+    // $batch sub-requests share the batch sequence; the workflow keeps captured request IDs
+    const sequences = new Set(triggered.map((r) => r.sequence));
+    session.workflow.record({
+      action,
+      selector,
+      inputs,
+      pageUrl: session.pages.getActivePage().url(),
+      requestIds: captured.filter((r) => sequences.has(r.sequence)).map((r) => r.id),
+      warning,
+    });
+
+    return triggered;
+  }
+
+  /**
+   * Resolve the element of a UI action from a selector or a snapshotPage reference.
+   * The action always runs on the referenced element; the workflow records a stable selector
+   * for it (see getStableSelector), so workflows replay without taking snapshots. A reference
+   * without one is recorded with a warning and its step is not replayed.
+   */
+  private async resolveElementSelector(
+    session: CaptureSession,
+    args: { selector?: string; ref?: string }
+  ): Promise<{ selector: string; recordedSelector?: string; warning?: string }> {
+    if (args.ref === undefined) {
+      if (!args.selector) {
+        throw new Error('Provide selector or ref');
+      }
+      return { selector: args.selector, recordedSelector: args.selector };
+    }
+    if (args.selector) {
+      throw new Error('Provide either selector or ref, not both');
+    }
+
+    const target = session.pages.getActiveTarget();
+    const selector = this.pageSnapshotter.getRefSelector(args.ref);
+    if ((await target.locator(selector).count()) === 0) {
+      throw new Error(`Element reference not found: ${args.ref}. Take a new snapshot with snapshotPage`);
+    }
+    const recordedSelector = await this.pageSnapshotter.getStableSelector(target, args.ref);
+    if (recordedSelector === undefined) {
+      const warning =
+        `Element reference ${args.ref} has no selector that matches only this element, ` +
+        'so the action was recorded but cannot be replayed from the workflow';
+      this.logger.warn('Action recorded without a replayable selector', { ref: args.ref });
+      return { selector, warning };
+    }
+    return { selector, recordedSelector };
+  }
+
+  /**
+   * Replace a value entered into a password or secret field with a placeholder.
+   */
+  private async maskSensitiveInput(session: CaptureSession, selector: string, value: string): Promise<string> {
+    if (SENSITIVE_FIELD_PATTERN.test(selector)) {
+      return REDACTED_INPUT;
+    }
+
+    const type = await session.pages.getActiveTarget()
+      .locator(selector)
+      .first()
+      .getAttribute('type', { timeout: 1000 })
+      .catch(() => null);
+    return type === 'password' ? REDACTED_INPUT : value;
+  }
+
+  /**
+   * Fill [REDACTED] inputs with the given secrets, consuming them in order.
+   */
+  private applySecrets(inputs: Record<string, unknown>, secrets: string[]): Record<string, unknown> {
+    const fill = (value: unknown): unknown => {
+      if (value === REDACTED_INPUT) {
+        const secret = secrets.shift();
+        if (secret === undefined) {
+          throw new Error('No secret provided for a [REDACTED] input');
+        }
+        return secret;
+      }
+      if (Array.isArray(value)) {
+        return value.map(fill);
+      }
+      if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item)]));
+      }
+      return value;
+    };
+
+    return fill(inputs) as Record<string, unknown>;
+  }
+
+  /**
+   * Read a workflow file, auditing the file access.
+   */
+  private async readWorkflowFile(filePath: string, correlationId: string): Promise<RecordedWorkflow> {
+    try {
+      const workflow = parseWorkflow(JSON.parse(await readFile(filePath, 'utf-8')) as unknown);
+      await this.auditLogger.logFileAccess(correlationId, filePath, 'read', 'success');
+      return workflow;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.auditLogger.logFileAccess(correlationId, filePath, 'read', 'failure', message);
+      throw new Error(`Failed to read workflow: ${message}`);
+    }
+  }
+
+  private async handleCaptureToOpenApi(args: {
+    sessionId: string;
+    serviceName?: string;
+    title?: string;
+    version?: string;
+    filePath?: string;
+  }): Promise<Omit<OpenApiBuildResult, 'document'> & { filePath?: string; document?: Record<string, unknown> }> {
+    const requests = this.getSessionRequests(args.sessionId);
+    const { document, ...result } = this.openApiBuilder.build(requests, {
+      serviceName: args.serviceName,
+      title: args.title,
+      version: args.version,
+    });
+
+    this.logger.info('OpenAPI document derived from capture', {
+      sessionId: args.sessionId,
+      pathCount: result.pathCount,
+      operationCount: result.operationCount,
+    });
+
+    if (!args.filePath) {
+      return { ...result, document };
+    }
+
+    const correlationId = this.logger.newCorrelationId();
+    const filePath = resolve(args.filePath);
+    try {
+      await this.writeJsonFile(filePath, document, correlationId);
+    } catch (error) {
+      throw new Error(`Failed to write OpenAPI file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return { ...result, filePath };
+  }
+
+  /**
+   * Write a JSON file, creating parent directories and auditing the file access.
+   */
+  private async writeJsonFile(filePath: string, data: unknown, correlationId: string): Promise<void> {
+    await this.writeOutputFile(filePath, JSON.stringify(data, null, 2), correlationId);
+  }
+
+  /**
+   * Write a file, creating its directory and auditing the file access.
+   */
+  private async writeOutputFile(filePath: string, content: string | Buffer, correlationId: string): Promise<void> {
+    try {
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, content);
+      await this.auditLogger.logFileAccess(correlationId, filePath, 'write', 'success');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.auditLogger.logFileAccess(correlationId, filePath, 'write', 'failure', message);
+      throw error;
+    }
+  }
+
+  /**
+   * Read and redact a HAR file, auditing the file access.
+   */
+  private async readHarFile(filePath: string, correlationId: string): Promise<CapturedRequest[]> {
+    try {
+      const content = await readFile(filePath, 'utf-8');
+      const requests = this.harConverter.fromHar(JSON.parse(content));
+      await this.auditLogger.logFileAccess(correlationId, filePath, 'read', 'success');
+      return requests;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await this.auditLogger.logFileAccess(correlationId, filePath, 'read', 'failure', message);
+      throw new Error(`Failed to import HAR file: ${message}`);
+    }
+  }
+
+  private async handleStartReplayServer(args: {
+    sessionId?: string;
+    harFilePath?: string;
+    strategy?: ReplayStrategy;
+    port?: number;
+  }): Promise<{
+    replayServerId: string;
+    baseUrl: string;
+    port: number;
+    strategy: ReplayStrategy;
+    recordedCount: number;
+  }> {
+    if (!args.sessionId === !args.harFilePath) {
+      throw new Error('Provide either sessionId or harFilePath');
+    }
+
+    const correlationId = this.logger.newCorrelationId();
+    // $batch calls are replayed as recorded, not as decoded sub-requests
+    const requests = args.sessionId
+      ? [...this.getSessionRequests(args.sessionId, false)]
+      : await this.readHarFile(resolve(args.harFilePath ?? ''), correlationId);
+
+    const strategy = args.strategy ?? 'exact';
+    const replayServer = new ReplayServer(requests, {
+      strategy,
+      host: '127.0.0.1',
+      port: args.port ?? 0,
+    });
+
+    let address: { baseUrl: string; port: number };
+    try {
+      address = await replayServer.start();
+    } catch (error) {
+      throw new Error(`Failed to start replay server: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const replayServerId = correlationId;
+    this.replayServers.set(replayServerId, replayServer);
+
+    const { recordedCount } = replayServer.getStats();
+    this.logger.info('Replay server started', { replayServerId, baseUrl: address.baseUrl, strategy, recordedCount });
+
+    return {
+      replayServerId,
+      baseUrl: address.baseUrl,
+      port: address.port,
+      strategy,
+      recordedCount,
+    };
+  }
+
+  private async handleStopReplayServer(args: {
+    replayServerId: string;
+  }): Promise<ReturnType<ReplayServer['getStats']> & { status: string }> {
+    const replayServer = this.replayServers.get(args.replayServerId);
+    if (!replayServer) {
+      throw new Error(`Replay server not found: ${args.replayServerId}`);
+    }
+
+    await replayServer.stop();
+    this.replayServers.delete(args.replayServerId);
+    this.logger.info('Replay server stopped', { replayServerId: args.replayServerId });
+
+    return { status: 'stopped', ...replayServer.getStats() };
+  }
+
+  private async handleReplayRequest(args: {
+    sessionId: string;
+    requestId: string;
+    url?: string;
+    headersJson?: string;
+    bodyPatchJson?: string;
+    timeoutMs?: number;
+  }): Promise<{
+    originalRequestId: string;
+    status: number;
+    statusText: string;
+    request: CapturedRequest | null;
+  }> {
+    const session = this.sessions.get(args.sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${args.sessionId}`);
+    }
+
+    // Captured headers and bodies are redacted, so the original browser request is re-sent
+    const source = session.requestCapture.getSourceRequest(args.requestId);
+    if (!source) {
+      const isCaptured = session.requestCapture.getCapturedRequests().some((r) => r.id === args.requestId);
+      throw new Error(
+        isCaptured
+          ? `Request is too old to replay (only the latest ${MAX_REPLAYABLE_REQUESTS} requests can be re-sent): ${args.requestId}`
+          : `Request not found in session: ${args.requestId}`
+      );
+    }
+
+    const overrides: RequestOverrides = { url: args.url };
+    if (args.headersJson) {
+      overrides.headers = this.parseHeaderOverrides(args.headersJson);
+    }
+    if (args.bodyPatchJson) {
+      try {
+        overrides.bodyPatch = JSON.parse(args.bodyPatchJson) as unknown;
+      } catch {
+        throw new Error('bodyPatchJson is not valid JSON');
+      }
+    }
+
+    const prepared = await this.requestReplayer.prepare(source, overrides);
+
+    const { mode, strictMode } = this.allowlistSettings;
+    const validation = mode === 'allow' ? { allowed: true } : this.domainAllowlist.validate(prepared.url);
+    if (!validation.allowed && (mode === 'block' || strictMode)) {
+      await this.auditLogger.logUrlAccess(args.sessionId, prepared.url, false, validation.reason);
+      throw new Error(`URL not allowed: ${validation.reason}`);
+    }
+    await this.auditLogger.logUrlAccess(args.sessionId, prepared.url, true);
+
+    const page = session.pages.getActivePage();
+    const timeout = args.timeoutMs ?? 30000;
+    const deadline = Date.now() + timeout;
+    const sent = page.waitForRequest(
+      (request) => request.url() === prepared.url && request.method() === prepared.method,
+      { timeout }
+    );
+
+    let result: ReplayFetchResult;
+    try {
+      result = await this.requestReplayer.send(page, prepared, timeout);
+    } catch (error) {
+      sent.catch(() => undefined);
+      throw new Error(`Failed to replay request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    // The response arrived, but the request may not have been matched (e.g. the browser normalised the URL)
+    const sentRequest = await sent.catch(() => null);
+    // Undefined when the request was not matched or the capture filter dropped it
+    const captured = sentRequest ? session.requestCapture.getCaptured(sentRequest) : undefined;
+    if (captured) {
+      captured.replayOfId = args.requestId;
+      // The response body is read after fetch() has resolved in the page
+      while (captured.state === 'pending' && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+    }
+
+    this.logger.info('Request replayed', {
+      sessionId: args.sessionId,
+      originalRequestId: args.requestId,
+      method: prepared.method,
+      status: result.status,
+    });
+
+    return {
+      originalRequestId: args.requestId,
+      status: result.status,
+      statusText: result.statusText,
+      request: captured ?? null,
+    };
+  }
+
+  /**
+   * Parse the headersJson argument of replayRequest.
+   */
+  private parseHeaderOverrides(json: string): Record<string, string | null> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json) as unknown;
+    } catch {
+      throw new Error('headersJson is not valid JSON');
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('headersJson must be a JSON object');
+    }
+
+    const headers: Record<string, string | null> = {};
+    for (const [name, value] of Object.entries(parsed as Record<string, unknown>)) {
+      if (value !== null && typeof value !== 'string') {
+        throw new Error(`headersJson.${name} must be a string or null`);
+      }
+      headers[name] = value;
+    }
+    return headers;
+  }
+
+  private handleGenerateTarFromCapture(args: {
+    sessionId: string;
+    requestIds: string[];
+    owner: string;
+    type?: GeneratedTarType;
+    mode?: 'Standalone' | 'Dependent';
+    description?: string;
+  }): Promise<GeneratedTar> {
+    const captured = this.getSessionRequests(args.sessionId);
+    const selectedIds = new Set(args.requestIds);
+    const missing = args.requestIds.filter((id) => !captured.some((r) => r.id === id));
+    if (missing.length > 0) {
+      throw new Error(`Captured requests not found: ${missing.join(', ')}`);
+    }
+
+    // Keep timeline order so values flow from earlier responses into later requests
+    const requests = captured.filter((r) => selectedIds.has(r.id));
+
+    const result = this.tarGenerator.generate(requests, {
+      type: args.type ?? 'Test Case',
+      owner: args.owner,
+      mode: args.mode,
+      description: args.description,
+    });
+
+    this.logger.info('TAR generated from capture', {
+      sessionId: args.sessionId,
+      requestCount: requests.length,
+      serverCallCount: result.serverCallCount,
+      linkedValues: result.linkedValues.length,
+    });
+
+    return Promise.resolve(result);
+  }
+
+  private handleSuggestAssertions(args: {
+    sessionId: string;
+    requestId: string;
+    variable?: string;
+    itemCount?: number;
+    maxAssertions?: number;
+  }): Promise<{
+    requestId: string;
+    variable: string;
+    assertions: SuggestedAssertion[];
+    script: string[];
+    assertJson: string[];
+    skipped: SkippedAssertionField[];
+  }> {
+    const request = this.getSessionRequests(args.sessionId).find((r) => r.id === args.requestId);
+    if (!request) {
+      throw new Error(`Captured request not found: ${args.requestId}`);
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(request.response?.body ?? '') as unknown;
+    } catch {
+      throw new Error(`No JSON response captured for request: ${args.requestId}`);
+    }
+
+    // Key values in the URL identify the record; they are generated, not business data
+    const info = this.odataParser.parse(request.url, request.method);
+    const keyValues = new Set(
+      [info?.keys, ...(info?.navigation.map((n) => n.keys) ?? [])]
+        .flatMap((keys) => Object.values(keys ?? {}))
+        .map((value) => String(value))
+    );
+
+    const variable = args.variable ?? this.tarGenerator.getVariableName(request);
+    const { roots, assertions, skipped } = this.assertionSuggester.suggest(variable, data, {
+      limit: args.maxAssertions ?? 5,
+      itemCount: args.itemCount ?? 1,
+      isExcluded: (value) => keyValues.has(String(value)),
+    });
+
+    if (roots.length === 0) {
+      throw new Error(`Response of request ${args.requestId} has no entity to assert on`);
+    }
+
+    return Promise.resolve({
+      requestId: request.id,
+      variable,
+      assertions,
+      script: assertions.length > 0 ? this.assertionSuggester.render(assertions) : [],
+      assertJson: this.assertionSuggester.renderAssertJson(assertions),
+      skipped,
+    });
+  }
 }
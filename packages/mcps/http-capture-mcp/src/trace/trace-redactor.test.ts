@@ -0,0 +1,90 @@
+/**
+ * Trace redactor tests.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { TraceRedactor } from './trace-redactor.js';
+import { readZip, writeZip } from './zip-archive.js';
+
+const redactor = new TraceRedactor({
+  headerRedactor: {
+    redact: (headers) => ({
+      value: Object.fromEntries(
+        Object.entries(headers).map(([name, value]) => [
+          name,
+          name.toLowerCase() === 'authorization' ? '[REDACTED]' : value,
+        ])
+      ),
+    }),
+  },
+  bodyRedactor: {
+    redact: (body) => ({
+      value: body.replace(/access_token=[^&"\s]+/g, 'access_token=[REDACTED]'),
+    }),
+  },
+});
+
+const lines = (...events: unknown[]): Buffer =>
+  Buffer.from(events.map((event) => JSON.stringify(event)).join('\n'));
+
+describe('TraceRedactor', () => {
+  it('redacts actions, headers, cookies and text resources', () => {
+    const screenshot = Buffer.from([0xff, 0xd8, 0x00, 0xff, 0xd9]);
+    const archive = writeZip([
+      {
+        name: 'trace.trace',
+        data: lines(
+          {
+            type: 'before',
+            apiName: 'page.fill',
+            params: { selector: '#username', value: 'alice' },
+          },
+          {
+            type: 'before',
+            apiName: 'page.goto',
+            params: { url: 'https://erp.example.com/?access_token=abc' },
+          }
+        ),
+      },
+      {
+        name: 'trace.network',
+        data: lines({
+          type: 'resource-snapshot',
+          snapshot: {
+            request: {
+              headers: [
+                { name: 'Authorization', value: 'Bearer abc' },
+                { name: 'Accept', value: 'application/json' },
+              ],
+              cookies: [{ name: 'SESSION', value: 'xyz' }],
+            },
+          },
+        }),
+      },
+      { name: 'resources/body.json', data: Buffer.from('{"url":"/cb?access_token=abc"}') },
+      { name: 'resources/page@1.jpeg', data: screenshot },
+    ]);
+
+    const result = redactor.redact(archive);
+    const entries = new Map(readZip(result.archive).map((entry) => [entry.name, entry.data]));
+    const [fill, goto] = (entries.get('trace.trace')?.toString('utf-8') ?? '')
+      .split('\n')
+      .map((line) => JSON.parse(line) as { params: Record<string, string> });
+    const network = JSON.parse(entries.get('trace.network')?.toString('utf-8') ?? '') as {
+      snapshot: { request: { headers: unknown[]; cookies: unknown[] } };
+    };
+
+    expect(result).toMatchObject({ entryCount: 4, redactedEntryCount: 3 });
+    expect(fill?.params).toEqual({ selector: '#username', value: '[REDACTED]' });
+    expect(goto?.params['url']).toBe('https://erp.example.com/?access_token=[REDACTED]');
+    expect(network.snapshot.request.headers).toEqual([
+      { name: 'Authorization', value: '[REDACTED]' },
+      { name: 'Accept', value: 'application/json' },
+    ]);
+    expect(network.snapshot.request.cookies).toEqual([]);
+    expect(entries.get('resources/body.json')?.toString('utf-8')).toBe(
+      '{"url":"/cb?access_token=[REDACTED]"}'
+    );
+    expect(entries.get('resources/page@1.jpeg')).toEqual(screenshot);
+  });
+});
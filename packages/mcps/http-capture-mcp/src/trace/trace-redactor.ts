@@ -0,0 +1,151 @@
+/**
+ * Redaction of Playwright trace archives.
+ * Applies the capture redactors to recorded actions, console events, network entries and text resources.
+ */
+
+import type { RequestCaptureConfig } from '../types.js';
+import { readZip, writeZip, type ZipEntry } from './zip-archive.js';
+
+/**
+ * Redactors applied to a trace.
+ */
+export type TraceRedactorConfig = Pick<RequestCaptureConfig, 'headerRedactor' | 'bodyRedactor'>;
+
+/**
+ * Outcome of redacting a trace archive.
+ */
+export interface TraceRedactionResult {
+  archive: Buffer;
+  entryCount: number;
+  /** Entries whose content changed */
+  redactedEntryCount: number;
+}
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Resources stored as binary (screenshots, fonts, images) are left untouched.
+ */
+const BINARY_RESOURCE_PATTERN = /\.(?:jpe?g|png|gif|webp|ico|bmp|woff2?|ttf|otf|eot|wasm|pdf|zip|gz)$/i;
+
+/**
+ * Redacts the contents of trace zip files written by Playwright.
+ */
+export class TraceRedactor {
+  private readonly config: TraceRedactorConfig;
+
+  constructor(config: TraceRedactorConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Redact a trace archive. Event files (.trace, .network) are redacted per JSON line;
+   * text resources (response and request bodies) go through the body redactor.
+   */
+  redact(archive: Buffer): TraceRedactionResult {
+    const entries = readZip(archive);
+    let redactedEntryCount = 0;
+
+    const redacted = entries.map((entry): ZipEntry => {
+      const data = this.redactEntry(entry);
+      if (!data.equals(entry.data)) {
+        redactedEntryCount++;
+      }
+      return { name: entry.name, data };
+    });
+
+    return {
+      archive: writeZip(redacted),
+      entryCount: entries.length,
+      redactedEntryCount,
+    };
+  }
+
+  private redactEntry(entry: ZipEntry): Buffer {
+    if (/\.(?:trace|network)$/.test(entry.name)) {
+      const lines = entry.data.toString('utf-8').split('\n');
+      return Buffer.from(lines.map((line) => this.redactEventLine(line)).join('\n'), 'utf-8');
+    }
+
+    if (entry.name.startsWith('resources/') && !BINARY_RESOURCE_PATTERN.test(entry.name) && !entry.data.includes(0)) {
+      const text = entry.data.toString('utf-8');
+      const redacted = this.config.bodyRedactor.redact(text).value;
+      return redacted === text ? entry.data : Buffer.from(redacted, 'utf-8');
+    }
+
+    return entry.data;
+  }
+
+  private redactEventLine(line: string): string {
+    if (!line.trim()) {
+      return line;
+    }
+
+    let event: unknown;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      return this.config.bodyRedactor.redact(line).value;
+    }
+
+    return JSON.stringify(this.redactValue(event));
+  }
+
+  /**
+   * Redact a parsed event: header lists, cookies, action inputs and every string value.
+   */
+  private redactValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return this.config.bodyRedactor.redact(value).value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item));
+    }
+
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+
+    const source = value as Record<string, unknown>;
+    // Values filled or typed into an element (action parameters with a selector) are always removed:
+    // the selector does not tell whether the field was a password field
+    const isElementInput = typeof source['selector'] === 'string';
+    const result: Record<string, unknown> = {};
+
+    for (const [key, child] of Object.entries(source)) {
+      if (key === 'cookies' && Array.isArray(child)) {
+        // Cookies are never exported, as in HAR files
+        result[key] = [];
+      } else if (key === 'headers' && Array.isArray(child)) {
+        result[key] = child.map((header) => this.redactHeader(header));
+      } else if (isElementInput && (key === 'value' || key === 'text') && typeof child === 'string') {
+        result[key] = REDACTED;
+      } else {
+        result[key] = this.redactValue(child);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Redact one { name, value } entry of a recorded header list.
+   */
+  private redactHeader(header: unknown): unknown {
+    if (typeof header !== 'object' || header === null) {
+      return header;
+    }
+
+    const { name, value } = header as { name?: unknown; value?: unknown };
+    if (typeof name !== 'string' || typeof value !== 'string') {
+      return this.redactValue(header);
+    }
+
+    const redacted = this.config.headerRedactor.redact({ [name]: value }).value[name];
+    return {
+      ...header,
+      value: typeof redacted === 'string' ? this.config.bodyRedactor.redact(redacted).value : REDACTED,
+    };
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * ZIP archive tests.
+ */
+
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { readZip, writeZip, type ZipEntry } from './zip-archive.js';
+
+interface FixtureEntry extends ZipEntry {
+  method: 'stored' | 'deflated';
+}
+
+/**
+ * Build an archive the way Playwright's zip writer does: sizes and checksums follow each entry
+ * in a data descriptor (flag bit 3) and the local headers leave them zero.
+ * The archive ends with a comment. Checksums are left zero, since readZip does not verify them.
+ */
+function streamedZip(entries: FixtureEntry[], comment: string): Buffer {
+  const parts: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const method = entry.method === 'stored' ? 0 : 8;
+    const data = entry.method === 'stored' ? entry.data : deflateRawSync(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0808, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(name.length, 26);
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(data.length, 8);
+    descriptor.writeUInt32LE(entry.data.length, 12);
+
+    // An extra field in the central header, as written for timestamps
+    const extra = Buffer.from([0x55, 0x54, 0x05, 0x00, 0x01, 0x00, 0x00, 0x00, 0x00]);
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(45, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(0x0808, 8);
+    header.writeUInt16LE(method, 10);
+    header.writeUInt32LE(data.length, 20);
+    header.writeUInt32LE(entry.data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt32LE(offset, 42);
+
+    parts.push(local, name, data, descriptor);
+    central.push(header, name, extra);
+    offset += local.length + name.length + data.length + descriptor.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const commentBytes = Buffer.from(comment, 'utf-8');
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(commentBytes.length, 20);
+
+  return Buffer.concat([...parts, directory, end, commentBytes]);
+}
+
+const TRACE_EVENTS = [
+  { version: 7, type: 'context-options', browserName: 'chromium' },
+  {
+    type: 'before',
+    callId: 'call@1',
+    apiName: 'page.fill',
+    params: { selector: '#password', value: 'secret' },
+  },
+  { type: 'after', callId: 'call@1' },
+]
+  .map((event) => JSON.stringify(event))
+  .join('\n');
+
+const NETWORK_EVENTS = JSON.stringify({
+  type: 'resource-snapshot',
+  snapshot: {
+    request: { method: 'GET', url: 'https://erp.example.com/main/ifsapplications/web/' },
+    response: { status: 200, content: { _sha1: '3f786850e387550fdab836ed7e6dc881de23001b.html' } },
+  },
+});
+
+describe('writeZip and readZip', () => {
+  it('round-trips entries in order', () => {
+    const entries: ZipEntry[] = [
+      { name: 'trace.trace', data: Buffer.from(TRACE_EVENTS) },
+      { name: 'trace.network', data: Buffer.from(NETWORK_EVENTS) },
+      {
+        name: 'resources/page@1-1700000000000.jpeg',
+        data: Buffer.from([0xff, 0xd8, 0x00, 0xff, 0xd9]),
+      },
+      { name: 'resources/empty.json', data: Buffer.alloc(0) },
+      { name: 'resources/Überweisung.txt', data: Buffer.from('a'.repeat(100_000)) },
+    ];
+
+    const archive = writeZip(entries);
+
+    expect(readZip(archive)).toEqual(entries);
+    expect(archive.length).toBeLessThan(10_000);
+  });
+
+  it('writes an empty archive', () => {
+    expect(readZip(writeZip([]))).toEqual([]);
+  });
+
+  it('records the CRC-32 of each entry', () => {
+    const archive = writeZip([
+      { name: 'fox.txt', data: Buffer.from('The quick brown fox jumps over the lazy dog') },
+    ]);
+
+    expect(archive.readUInt32LE(14)).toBe(0x414fa339);
+  });
+});
+
+describe('readZip', () => {
+  it('reads stored and deflated entries with data descriptors and an archive comment', () => {
+    const archive = streamedZip(
+      [
+        { name: 'trace.trace', data: Buffer.from(TRACE_EVENTS), method: 'deflated' },
+        { name: 'trace.network', data: Buffer.from(NETWORK_EVENTS), method: 'deflated' },
+        {
+          name: 'resources/3f786850e387550fdab836ed7e6dc881de23001b.html',
+          data: Buffer.from('<html></html>'),
+          method: 'stored',
+        },
+      ],
+      'Playwright trace'
+    );
+
+    expect(readZip(archive).map((entry) => [entry.name, entry.data.toString('utf-8')])).toEqual([
+      ['trace.trace', TRACE_EVENTS],
+      ['trace.network', NETWORK_EVENTS],
+      ['resources/3f786850e387550fdab836ed7e6dc881de23001b.html', '<html></html>'],
+    ]);
+  });
+
+  it('rejects data that is not a ZIP archive', () => {
+    expect(() => readZip(Buffer.from('not a zip archive at all'))).toThrow(
+      'Not a ZIP archive: end of central directory not found'
+    );
+  });
+
+  it('rejects unsupported compression methods', () => {
+    const archive = writeZip([{ name: 'trace.trace', data: Buffer.from('{}') }]);
+    const centralOffset = archive.readUInt32LE(archive.length - 22 + 16);
+    archive.writeUInt16LE(12, centralOffset + 10);
+
+    expect(() => readZip(archive)).toThrow('Unsupported ZIP compression method 12 for trace.trace');
+  });
+});
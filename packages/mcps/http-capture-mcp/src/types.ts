@@ -2,8 +2,13 @@
  * Type definitions for HTTP Capture MCP.
  */
 
-import type { BrowserContext, Page } from 'playwright';
+import type { BrowserContext, ConsoleMessage, Frame, Page, Request } from 'playwright';
+import type { PageRegistry } from './browser/page-registry.js';
+import type { BinaryStore } from './capture/binary-store.js';
+import type { ConsoleCollector } from './capture/console-collector.js';
+import type { FaultInjector } from './capture/fault-injector.js';
 import type { RequestCapture } from './capture/request-capture.js';
+import type { WorkflowRecorder } from './workflow/workflow-recorder.js';
 
 /**
  * A captured HTTP request with optional response.
@@ -17,16 +22,170 @@ export interface CapturedRequest {
   url: string;
   /** Request headers (redacted) */
   headers: Record<string, string>;
-  /** Request body (if applicable) */
+  /** Request body (if applicable); file parts of multipart uploads are replaced by a placeholder */
   body?: string;
   /** Content type */
   contentType?: string;
+  /** Files sent with the request: the body of a binary upload, or the file parts of a multipart form */
+  files?: BinaryPayload[];
   /** Timestamp */
   timestamp: string;
+  /** Position in the session timeline (1-based) */
+  sequence: number;
+  /** Request lifecycle state */
+  state?: 'pending' | 'completed' | 'failed';
+  /** What started the request */
+  initiator?: RequestInitiator;
+  /** ID of the request this one was redirected from */
+  redirectedFromId?: string;
+  /** ID of the request this one was redirected to */
+  redirectedToId?: string;
+  /** ID of the captured request this one re-issued (replayRequest) */
+  replayOfId?: string;
+  /** Failure details for failed or aborted requests */
+  failure?: RequestFailure;
+  /** Set when the request's host is outside the domain allowlist */
+  allowlist?: AllowlistViolation;
+  /** Set when a fault rule delayed, replaced, aborted or throttled the request (injectFault) */
+  fault?: InjectedFault;
+  /** Position inside an OData $batch (set on decoded sub-requests) */
+  batch?: BatchPartInfo;
   /** Response data (if captured) */
   response?: CapturedResponse;
 }
 
+/**
+ * Origin of a captured request.
+ */
+export interface RequestInitiator {
+  /** Initiator category */
+  type: 'navigation' | 'xhr' | 'fetch' | 'other';
+  /** Playwright resource type (document, xhr, fetch, script, ...) */
+  resourceType: string;
+  /** URL of the frame that issued the request */
+  frameUrl?: string;
+  /** Page (tab or popup) that issued the request, e.g. page-2 */
+  pageId?: string;
+  /** Iframe that issued the request; absent for a page's main frame */
+  frameId?: string;
+}
+
+/**
+ * Location of a sub-request inside an OData $batch call.
+ */
+export interface BatchPartInfo {
+  /** ID of the captured $batch request */
+  batchId: string;
+  /** 1-based position of the sub-request in the batch */
+  index: number;
+  /** Changeset boundary, for sub-requests inside a changeset */
+  changesetId?: string;
+  /** Content-ID of the part, used by $<id> references */
+  contentId?: string;
+}
+
+/**
+ * Failure details for a request that did not complete.
+ */
+export interface RequestFailure {
+  /** Browser error text (e.g. net::ERR_ABORTED) */
+  errorText: string;
+  /** Whether the request was aborted rather than failing */
+  aborted: boolean;
+}
+
+/**
+ * Binary request or response body (file upload or download), described instead of captured as text.
+ */
+export interface BinaryPayload {
+  /** MIME type of the file */
+  mimeType: string;
+  /** File name from Content-Disposition, the Slug header or the multipart part */
+  filename?: string;
+  /** Form field a multipart upload sent the file in */
+  fieldName?: string;
+  /** Size in bytes (absent when a download's body was not available) */
+  size?: number;
+  /** SHA-256 of the content, hex encoded (absent when the body was not available) */
+  sha256?: string;
+  /** Copy of the content in the session's temp directory (binaryCapture: store) */
+  storedPath?: string;
+}
+
+/**
+ * How binary uploads and downloads are captured.
+ * - metadata: size, hash, file name and MIME type only
+ * - store: metadata, plus a copy of the content in a session-scoped temp directory
+ */
+export type BinaryCaptureMode = 'metadata' | 'store';
+
+/**
+ * A request to a host outside the domain allowlist.
+ */
+export interface AllowlistViolation {
+  /** blocked: the request was aborted; flagged: it was sent and captured */
+  action: 'blocked' | 'flagged';
+  /** Host the request was sent to */
+  hostname: string;
+  /** Why the request violates the allowlist */
+  reason: string;
+}
+
+/**
+ * Kind of fault a fault rule injects.
+ * - delay: the request is held before it is sent
+ * - respond: a synthetic response is returned without contacting the server
+ * - abort: the request fails with a network error
+ * - throttle: the real response is delivered at a limited bandwidth
+ */
+export type FaultType = 'delay' | 'respond' | 'abort' | 'throttle';
+
+/**
+ * Fault applied to matching requests.
+ */
+export interface FaultSpec {
+  type: FaultType;
+  /** Latency added before the fault takes effect (required for delay) */
+  delayMs?: number;
+  /** Status of the synthetic response (respond) */
+  status?: number;
+  /** Body of the synthetic response (respond) */
+  body?: string;
+  /** Content type of the synthetic response (respond) */
+  contentType?: string;
+  /** Playwright network error code (abort), e.g. failed, timedout, connectionrefused */
+  errorCode?: string;
+  /** Response bandwidth (throttle) */
+  bytesPerSecond?: number;
+}
+
+/**
+ * Fault injection rule of a capture session. Every given match criterion must match.
+ */
+export interface FaultRule {
+  /** Rule ID (fault-1, fault-2, ...) */
+  id: string;
+  match: Pick<RequestMatchCriteria, 'method' | 'urlPattern' | 'entitySet' | 'operation'>;
+  fault: FaultSpec;
+  /** Number of requests the rule applies to before it is used up (unlimited when omitted) */
+  times?: number;
+  /** Number of requests the rule has been applied to */
+  hitCount: number;
+}
+
+/**
+ * Fault injected into a captured request.
+ */
+export interface InjectedFault {
+  /** Rule that injected the fault */
+  ruleId: string;
+  type: FaultType;
+  delayMs?: number;
+  status?: number;
+  errorCode?: string;
+  bytesPerSecond?: number;
+}
+
 /**
  * A captured HTTP response.
  */
@@ -41,6 +200,8 @@ export interface CapturedResponse {
   body?: string;
   /** Content type */
   contentType?: string;
+  /** Downloaded file, for attachments and binary responses */
+  file?: BinaryPayload;
   /** Response time in ms */
   responseTimeMs: number;
 }
@@ -53,14 +214,93 @@ export interface CaptureSession {
   id: string;
   /** Browser context */
   context: BrowserContext;
-  /** Active page */
-  page: Page;
+  /** Pages and frames of the context, with the active target for UI actions */
+  pages: PageRegistry;
   /** Request capture instance */
   requestCapture: RequestCapture;
   /** Session creation time */
   createdAt: Date;
+  /** Last tool call or UI action on the session (for the idle timeout) */
+  lastActivityAt: Date;
   /** Initial URL */
   url: string;
+  /** UI actions performed in the session */
+  workflow: WorkflowRecorder;
+  /** Last request sequence number before the most recent UI action (waits excluded) */
+  lastActionSequence: number;
+  /** Console messages and page errors of the session's pages */
+  consoleCollector: ConsoleCollector;
+  /** Whether a Playwright trace is being recorded (openUrl with trace) */
+  tracing: boolean;
+  /** Fault injection rules of the session's traffic */
+  faultInjector: FaultInjector;
+  /** Temp directory binary payloads are copied to (binaryCapture: store) */
+  binaryStore?: BinaryStore;
+}
+
+/**
+ * Open page (tab or popup) of a capture session.
+ */
+export interface PageTargetInfo {
+  /** Page ID (page-1 is the page openUrl navigated) */
+  pageId: string;
+  url: string;
+  title: string;
+  /** Page that opened this one, for popups and new tabs */
+  openerPageId?: string;
+  /** Whether UI actions run in this page */
+  active: boolean;
+  /** Iframes of the page, at any depth */
+  frames: FrameTargetInfo[];
+}
+
+/**
+ * Iframe of an open page.
+ */
+export interface FrameTargetInfo {
+  frameId: string;
+  url: string;
+  /** Name or id of the iframe element */
+  name: string;
+  /** Enclosing iframe, for nested iframes */
+  parentFrameId?: string;
+  /** Whether UI actions run in this frame */
+  active: boolean;
+}
+
+/**
+ * Browser console message or uncaught page error.
+ */
+export interface ConsoleEntry {
+  /** Order of the entry within the session */
+  sequence: number;
+  timestamp: string;
+  /** Console message type (log, info, warning, error...) or pageError for uncaught exceptions */
+  type: ReturnType<ConsoleMessage['type']> | 'pageError';
+  /** Message text (redacted) */
+  text: string;
+  /** Script location of the console call (url:line:column) */
+  location?: string;
+  /** Stack trace of a page error (redacted) */
+  stack?: string;
+  /** URL of the page the entry came from */
+  pageUrl?: string;
+}
+
+/**
+ * Read-only session loaded from a HAR file (no browser attached).
+ */
+export interface OfflineSession {
+  /** Session ID */
+  id: string;
+  /** HAR file the session was loaded from */
+  source: string;
+  /** Captured requests in timeline order */
+  requests: CapturedRequest[];
+  /** Session creation time */
+  createdAt: Date;
+  /** First captured URL */
+  url: string;
 }
 
 /**
@@ -75,6 +315,96 @@ export interface BrowserManagerConfig {
   executablePath?: string;
 }
 
+/**
+ * Request limit settings (requestLimits in config/security.json).
+ */
+export interface RequestLimits {
+  /** Never write binary payloads to disk; uploads and downloads are captured as metadata only */
+  blockBinaryContent: boolean;
+}
+
+/**
+ * Session isolation settings (sessionIsolation in config/security.json).
+ */
+export interface SessionIsolationConfig {
+  /** Whether isolation rules are enforced */
+  enabled: boolean;
+  /** Close the browser context and drop its data when a session closes */
+  cleanupOnClose: boolean;
+  /** Forbid writing browser state (cookies, storage) to disk */
+  noPersistentStorage: boolean;
+  /** Start every session in a fresh, non-persistent context */
+  incognitoMode: boolean;
+}
+
+/**
+ * How requests to hosts outside the domain allowlist are handled.
+ * - block: the request is aborted
+ * - flag: the request is sent and captured, and marked as a violation
+ * - allow: the allowlist is not checked
+ */
+export type AllowlistMode = 'block' | 'flag' | 'allow';
+
+/**
+ * Domain allowlist settings (domainAllowlist in config/security.json).
+ */
+export interface AllowlistSettings {
+  /** How in-page traffic to other hosts is handled */
+  mode: AllowlistMode;
+  /** Allowed domain patterns (supports wildcards) */
+  domains: string[];
+  /** Reject openUrl for hosts outside the allowlist even in flag mode */
+  strictMode: boolean;
+}
+
+/**
+ * Browser storage state (cookies and localStorage per origin).
+ */
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+/**
+ * Encrypted authentication state store configuration.
+ */
+export interface AuthStateStoreConfig {
+  /** Directory holding the encrypted state files */
+  directory: string;
+  /** Passphrase the encryption key is derived from */
+  passphrase?: string;
+  /** Maximum age of a saved state before it is treated as expired */
+  maxAgeMs: number;
+}
+
+/**
+ * Description of a saved authentication state (never includes cookie or storage values).
+ */
+export interface SavedAuthInfo {
+  /** Profile name */
+  profile: string;
+  /** When the state was saved */
+  savedAt: string;
+  /** When the state is treated as expired (earliest persistent cookie expiry or maximum age) */
+  expiresAt: string;
+  /** Number of saved cookies */
+  cookieCount: number;
+  /** Cookie domains */
+  domains: string[];
+  /** Origins with saved localStorage */
+  origins: string[];
+}
+
+/**
+ * Outcome of starting a session from a saved authentication state.
+ * - restored: the state was loaded into the new context
+ * - missing: no state is saved under the profile
+ * - expired: the state had expired, or the server sent the session to a login page; it was removed
+ */
+export interface AuthRestoreResult {
+  profile: string;
+  status: 'restored' | 'missing' | 'expired';
+  expiresAt?: string;
+  reason?: string;
+}
+
 /**
  * Request capture configuration.
  */
@@ -89,6 +419,262 @@ export interface RequestCaptureConfig {
   };
   /** Maximum body size to capture */
   maxBodySize: number;
+  /** Largest download read to hash or store; larger downloads are described from their headers */
+  maxFileSize: number;
   /** Content types to capture */
   allowedContentTypes?: string[];
+  /** Which requests to keep (all requests when omitted) */
+  captureProfile?: CaptureProfile;
+  /** Allowlist check marking requests to hosts outside the allowlist */
+  allowlist?: {
+    inspect: (request: Request) => AllowlistViolation | undefined;
+  };
+  /** Store for binary payloads; without it uploads and downloads are captured as metadata only */
+  binaryStore?: {
+    save: (data: Buffer, payload: BinaryPayload) => Promise<string | undefined>;
+  };
+  /** Fault rules marking the requests they apply to */
+  faults?: {
+    inspect: (request: Request) => InjectedFault | undefined;
+  };
+  /** Page and frame IDs tagged on each request's initiator */
+  targets?: {
+    getPageId: (page: Page) => string;
+    getFrameId: (frame: Frame) => string | undefined;
+  };
+}
+
+/**
+ * Criteria of a capture filter rule. A rule matches a request when every given criterion
+ * matches one of its values.
+ */
+export interface CaptureFilterRule {
+  /** Playwright resource types (document, script, stylesheet, image, font, xhr, fetch, ...) */
+  resourceTypes?: string[];
+  /** URL globs matched against the URL without query string (* stays within a path segment, ** does not) */
+  urlGlobs?: string[];
+  /** Host names (*.example.com matches any subdomain) */
+  hosts?: string[];
+  /** Content types, matched against the response content type */
+  contentTypes?: string[];
+}
+
+/**
+ * Named set of capture filter rules.
+ * A request is kept when it matches an include rule (or there are none) and no exclude rule.
+ */
+export interface CaptureProfile {
+  name: string;
+  description?: string;
+  include?: CaptureFilterRule[];
+  exclude?: CaptureFilterRule[];
+}
+
+/**
+ * TAR file types that can be generated from captured traffic.
+ */
+export type GeneratedTarType = 'Test Case' | 'Test Util';
+
+/**
+ * Options for generating a TAR document from captured requests.
+ */
+export interface TarGenerationOptions {
+  /** TAR file type */
+  type: GeneratedTarType;
+  /** Owner team/component written to the frontmatter */
+  owner: string;
+  /** Mode (only written for Test Case files) */
+  mode?: 'Standalone' | 'Dependent';
+  /** Description written to the Description section */
+  description?: string;
+}
+
+/**
+ * A TAR document generated from captured requests.
+ */
+export interface GeneratedTar {
+  /** Complete .mkd document content */
+  content: string;
+  /** Variables defined with 'Into' */
+  variables: string[];
+  /** Number of server call commands emitted */
+  serverCallCount: number;
+  /** Values that were linked from an earlier response into a later request */
+  linkedValues: Array<{ variable: string; producerRequestId: string; path: string }>;
+  /** Captured requests that could not be converted */
+  skippedRequestIds: string[];
+}
+
+/**
+ * Candidate TAR Assert statement for a response field.
+ */
+export interface SuggestedAssertion {
+  /** Complete statement, e.g. Assert {%taskResponse.value.Items(0).Objstate} == "Released" */
+  statement: string;
+  /** Path of the field below the response variable (e.g. value.Items(0).Objstate) */
+  path: string;
+  /** Asserted entity as a variable path (e.g. taskResponse.value.Items(0)) */
+  root: string;
+  /** Value the response returned */
+  value: string | number | boolean;
+}
+
+/**
+ * Response field left out of the assertion suggestions.
+ */
+export interface SkippedAssertionField {
+  path: string;
+  /** volatileField: name of a version, key or timestamp field; generatedValue: GUID, timestamp or hash; excluded: key or linked value */
+  reason: 'volatileField' | 'generatedValue' | 'excluded';
+}
+
+/**
+ * How the replay server picks a recorded response.
+ * - exact: method, path, key predicates and all query options must match
+ * - ignore-volatile-params: cache-buster parameters are dropped and GUID/timestamp literals are ignored
+ * - sequential: like ignore-volatile-params, but repeated calls get the recorded responses in order
+ */
+export type ReplayStrategy = 'exact' | 'ignore-volatile-params' | 'sequential';
+
+/**
+ * Changes applied when re-issuing a captured request.
+ */
+export interface RequestOverrides {
+  /** Replacement URL */
+  url?: string;
+  /** Headers to add or replace (a null value removes the header) */
+  headers?: Record<string, string | null>;
+  /** JSON merge patch (RFC 7396) applied to the JSON body */
+  bodyPatch?: unknown;
+}
+
+/**
+ * Replay server configuration.
+ */
+export interface ReplayServerConfig {
+  /** Matching strategy */
+  strategy: ReplayStrategy;
+  /** Host to bind (loopback only) */
+  host: string;
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+}
+
+/**
+ * UI actions that are recorded into a session workflow.
+ */
+export type WorkflowActionType =
+  | 'click'
+  | 'fill'
+  | 'type'
+  | 'selectOption'
+  | 'check'
+  | 'uncheck'
+  | 'pressKey'
+  | 'fillForm'
+  | 'submitForm'
+  | 'waitForSelector'
+  | 'waitForModal'
+  | 'waitForRequest'
+  | 'waitForResponse'
+  | 'switchTarget'
+  | 'closePage'
+  | 'uploadFile';
+
+/**
+ * Criteria for waitForRequest and waitForResponse. Every given criterion must match.
+ */
+export interface RequestMatchCriteria {
+  /** HTTP method */
+  method?: string;
+  /** Regex tested against the full URL */
+  urlPattern?: string;
+  /** OData entity set the request addresses */
+  entitySet?: string;
+  /** OData action or function name (with or without namespace) */
+  operation?: string;
+  /** Lowest accepted response status */
+  statusMin?: number;
+  /** Highest accepted response status */
+  statusMax?: number;
+  /** JSON value the body must contain (objects match by subset, arrays by element) */
+  body?: unknown;
+}
+
+/**
+ * A recorded UI action.
+ */
+export interface WorkflowStep {
+  /** Position in the workflow (0-based) */
+  index: number;
+  /** Tool that performed the action */
+  action: WorkflowActionType;
+  /** Target element selector (if the action has one) */
+  selector?: string;
+  /** Tool arguments other than sessionId; sensitive values are stored as [REDACTED] */
+  inputs: Record<string, unknown>;
+  /** Page URL when the action ran */
+  pageUrl: string;
+  /** When the action ran */
+  timestamp: string;
+  /** Captured requests the action triggered */
+  requestIds: string[];
+  /** Why the step cannot be replayed (its element had no selector that matches only it) */
+  warning?: string;
+}
+
+/**
+ * Replayable sequence of UI actions recorded in a capture session.
+ */
+export interface RecordedWorkflow {
+  version: 1;
+  /** URL the session was opened with */
+  startUrl: string;
+  /** When the workflow was exported */
+  recordedAt: string;
+  steps: WorkflowStep[];
+}
+
+/**
+ * Outcome of one replayed workflow step.
+ */
+export interface WorkflowReplayStepResult {
+  index: number;
+  action: WorkflowActionType;
+  selector?: string;
+  success: boolean;
+  error?: string;
+  /** Captured requests the replayed action triggered */
+  requestIds: string[];
+}
+
+/**
+ * Start of a UI action, used to attribute the requests it triggers.
+ */
+export interface ActionWindow {
+  /** Last request sequence number before the action */
+  startSequence: number;
+  /** Action start time (epoch ms) */
+  startedAt: number;
+}
+
+/**
+ * A request attributed to a UI action.
+ */
+export interface TriggeredRequest {
+  requestId: string;
+  sequence: number;
+  method: string;
+  url: string;
+  /** Path relative to the OData service root (or the URL path), e.g. AvFaultSet(FaultId=12) */
+  target: string;
+  /** What started the request */
+  initiator: RequestInitiator['type'];
+  state: 'pending' | 'completed' | 'failed';
+  status?: number;
+  durationMs?: number;
+  /** Short description of the response body (e.g. "3 items", "Object with FaultId, Description") */
+  responseSummary?: string;
+  /** One-line description, e.g. "PATCH AvFaultSet(FaultId=12) → 204" */
+  summary: string;
 }
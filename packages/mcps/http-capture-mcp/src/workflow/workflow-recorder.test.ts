@@ -0,0 +1,62 @@
+/**
+ * Workflow recorder tests.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { parseWorkflow, WorkflowRecorder } from './workflow-recorder.js';
+
+function workflowWith(step: unknown): unknown {
+  return {
+    version: 1,
+    startUrl: 'https://erp.example.com/main/ifsapplications/web/',
+    recordedAt: '2024-01-15T10:30:00.000Z',
+    steps: [step],
+  };
+}
+
+describe('parseWorkflow', () => {
+  it('accepts an exported workflow', () => {
+    const recorder = new WorkflowRecorder('https://erp.example.com/main/ifsapplications/web/');
+    recorder.record({
+      action: 'fill',
+      selector: '#username',
+      inputs: { selector: '#username', value: 'alice' },
+      pageUrl: 'https://erp.example.com/main/ifsapplications/web/',
+      requestIds: [],
+    });
+    recorder.record({
+      action: 'waitForRequest',
+      inputs: { method: 'POST' },
+      pageUrl: 'https://erp.example.com/main/ifsapplications/web/',
+      requestIds: ['req-1'],
+    });
+    const workflow = recorder.toWorkflow();
+
+    expect(parseWorkflow(JSON.parse(JSON.stringify(workflow)))).toEqual(workflow);
+  });
+
+  it('rejects files that are not workflows', () => {
+    expect(() => parseWorkflow(null)).toThrow('Not a workflow file');
+    expect(() =>
+      parseWorkflow({ version: 2, startUrl: 'https://erp.example.com', steps: [] })
+    ).toThrow('Not a workflow file');
+  });
+
+  it('rejects steps with unknown actions or malformed selectors, inputs and warnings', () => {
+    expect(() => parseWorkflow(workflowWith(null))).toThrow(
+      'Step 0 has an unknown action: undefined'
+    );
+    expect(() => parseWorkflow(workflowWith({ action: 'toString', inputs: {} }))).toThrow(
+      'Step 0 has an unknown action: toString'
+    );
+    expect(() => parseWorkflow(workflowWith({ action: 'click', selector: 3, inputs: {} }))).toThrow(
+      'Step 0 (click) has a selector that is not a string'
+    );
+    expect(() => parseWorkflow(workflowWith({ action: 'click', inputs: ['#save'] }))).toThrow(
+      'Step 0 (click) has inputs that are not an object'
+    );
+    expect(() =>
+      parseWorkflow(workflowWith({ action: 'click', inputs: {}, warning: { ref: 'e12' } }))
+    ).toThrow('Step 0 (click) has a warning that is not a string');
+  });
+});
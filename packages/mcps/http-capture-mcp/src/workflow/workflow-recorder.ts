@@ -0,0 +1,131 @@
+/**
+ * Workflow recording for capture sessions.
+ * Keeps the UI actions of a session so the navigation can be replayed later.
+ */
+
+import type { RecordedWorkflow, WorkflowActionType, WorkflowStep } from '../types.js';
+
+/**
+ * Stored in place of input values that must not be written to disk (passwords, secrets).
+ */
+export const REDACTED_INPUT = '[REDACTED]';
+
+/**
+ * Actions a workflow step can replay.
+ */
+const WORKFLOW_ACTIONS: Record<WorkflowActionType, true> = {
+  click: true,
+  fill: true,
+  type: true,
+  selectOption: true,
+  check: true,
+  uncheck: true,
+  pressKey: true,
+  fillForm: true,
+  submitForm: true,
+  waitForSelector: true,
+  waitForModal: true,
+  waitForRequest: true,
+  waitForResponse: true,
+  switchTarget: true,
+  closePage: true,
+  uploadFile: true,
+};
+
+/**
+ * Check a parsed workflow file. Steps must name a known action and carry their inputs as an object.
+ */
+export function parseWorkflow(data: unknown): RecordedWorkflow {
+  const workflow = data as Partial<RecordedWorkflow> | null;
+  if (
+    typeof workflow !== 'object' ||
+    workflow === null ||
+    workflow.version !== 1 ||
+    typeof workflow.startUrl !== 'string' ||
+    !Array.isArray(workflow.steps)
+  ) {
+    throw new Error('Not a workflow file (expected version 1 with startUrl and steps)');
+  }
+
+  workflow.steps.forEach((step: unknown, position) => {
+    const { action, selector, inputs, warning } = (step ?? {}) as Partial<Record<keyof WorkflowStep, unknown>>;
+    if (typeof action !== 'string' || !Object.hasOwn(WORKFLOW_ACTIONS, action)) {
+      throw new Error(`Step ${position} has an unknown action: ${String(action)}`);
+    }
+    if (selector !== undefined && typeof selector !== 'string') {
+      throw new Error(`Step ${position} (${action}) has a selector that is not a string`);
+    }
+    if (typeof inputs !== 'object' || inputs === null || Array.isArray(inputs)) {
+      throw new Error(`Step ${position} (${action}) has inputs that are not an object`);
+    }
+    if (warning !== undefined && typeof warning !== 'string') {
+      throw new Error(`Step ${position} (${action}) has a warning that is not a string`);
+    }
+  });
+
+  return workflow as RecordedWorkflow;
+}
+
+/**
+ * Records the UI actions performed in one session.
+ */
+export class WorkflowRecorder {
+  private readonly startUrl: string;
+  private readonly steps: WorkflowStep[] = [];
+
+  constructor(startUrl: string) {
+    this.startUrl = startUrl;
+  }
+
+  /**
+   * Record a completed action.
+   */
+  record(step: {
+    action: WorkflowActionType;
+    selector?: string;
+    inputs: Record<string, unknown>;
+    pageUrl: string;
+    requestIds: string[];
+    warning?: string;
+  }): WorkflowStep {
+    const recorded: WorkflowStep = {
+      index: this.steps.length,
+      action: step.action,
+      selector: step.selector,
+      inputs: step.inputs,
+      pageUrl: step.pageUrl,
+      timestamp: new Date().toISOString(),
+      requestIds: step.requestIds,
+      warning: step.warning,
+    };
+
+    this.steps.push(recorded);
+    return recorded;
+  }
+
+  /**
+   * Get recorded steps in order.
+   */
+  getSteps(): WorkflowStep[] {
+    return [...this.steps];
+  }
+
+  /**
+   * Get the most recently recorded step.
+   */
+  getLastStep(): WorkflowStep | undefined {
+    return this.steps[this.steps.length - 1];
+  }
+
+  /**
+   * Build the exportable workflow document.
+   */
+  toWorkflow(): RecordedWorkflow {
+    return {
+      version: 1,
+      startUrl: this.startUrl,
+      recordedAt: new Date().toISOString(),
+      steps: this.getSteps(),
+    };
+  }
+}
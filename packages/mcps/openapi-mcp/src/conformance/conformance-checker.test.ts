@@ -0,0 +1,265 @@
+/**
+ * Conformance checker tests.
+ * Captured calls are checked against a spec loaded through the spec parser.
+ */
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { OperationMapper } from '../mapper/operation-mapper.js';
+import { SpecParser } from '../parser/spec-parser.js';
+import type { CapturedCall, ParsedSpec } from '../types.js';
+import { ConformanceChecker } from './conformance-checker.js';
+
+const SERVICE_URL =
+  'https://erp.example.com/main/ifsapplications/projection/v1/FlmTaskDetailHandling.svc';
+
+const json = (schema: unknown): Record<string, unknown> => ({
+  content: { 'application/json': { schema } },
+});
+
+const SPEC = {
+  openapi: '3.0.1',
+  info: { title: 'FlmTaskDetailHandling', version: '1' },
+  servers: [{ url: SERVICE_URL }],
+  paths: {
+    '/AvExeTaskSet': {
+      get: {
+        operationId: 'Get_AvExeTaskSet',
+        responses: {
+          '200': {
+            description: 'OK',
+            ...json({
+              type: 'object',
+              properties: {
+                value: { type: 'array', items: { $ref: '#/components/schemas/AvExeTask' } },
+              },
+            }),
+          },
+        },
+      },
+      post: {
+        operationId: 'Create_AvExeTask',
+        requestBody: json({
+          type: 'object',
+          required: ['Description'],
+          properties: { Description: { type: 'string' } },
+        }),
+        responses: {
+          '201': { description: 'Created', ...json({ $ref: '#/components/schemas/AvExeTask' }) },
+          '4XX': { description: 'Client error' },
+        },
+      },
+    },
+    '/AvExeTaskSet(TaskSeq={TaskSeq})': {
+      get: {
+        operationId: 'Get_AvExeTask',
+        parameters: [{ name: 'TaskSeq', in: 'path', required: true, schema: { type: 'number' } }],
+        responses: {
+          '200': { description: 'OK', ...json({ $ref: '#/components/schemas/AvExeTask' }) },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      AvExeTask: {
+        type: 'object',
+        required: ['TaskSeq'],
+        properties: {
+          TaskSeq: { type: 'number' },
+          Description: { type: 'string' },
+          Objstate: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+function call(
+  method: string,
+  path: string,
+  status: number | undefined,
+  responseBody?: unknown,
+  requestBody?: unknown
+): CapturedCall {
+  return {
+    method,
+    url: `${SERVICE_URL}${path}`,
+    requestBody: requestBody === undefined ? undefined : JSON.stringify(requestBody),
+    requestContentType: requestBody === undefined ? undefined : 'application/json',
+    status,
+    responseBody: responseBody === undefined ? undefined : JSON.stringify(responseBody),
+    responseContentType: 'application/json',
+  };
+}
+
+describe('ConformanceChecker', () => {
+  const checker = new ConformanceChecker(new OperationMapper());
+  let directory: string;
+  let spec: ParsedSpec;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'openapi-mcp-'));
+    const specPath = join(directory, 'spec.json');
+    await writeFile(specPath, JSON.stringify(SPEC), 'utf-8');
+    spec = await new SpecParser().parse(specPath);
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('counts calls that match the spec as conforming', () => {
+    const report = checker.check(spec, [
+      call('GET', '/AvExeTaskSet?$top=1', 200, {
+        '@odata.context': '$metadata#AvExeTaskSet',
+        value: [{ TaskSeq: 1234567, Objstate: 'PLANNED' }],
+      }),
+      call('POST', '/AvExeTaskSet', 201, { TaskSeq: 1234567 }, { Description: 'Replace filter' }),
+      call('GET', '/AvExeTaskSet(TaskSeq=1234567)', 200, { TaskSeq: 1234567 }),
+      call(
+        'POST',
+        '/AvExeTaskSet',
+        400,
+        { error: { code: 'DATABASE_ERROR' } },
+        { Description: '' }
+      ),
+    ]);
+
+    expect(report).toMatchObject({
+      totalCalls: 4,
+      skippedCalls: 0,
+      matchedCalls: 4,
+      conformingCalls: 4,
+    });
+    expect(report.issues).toEqual([]);
+  });
+
+  it('prefers the most specific path template', () => {
+    const report = checker.check(spec, [
+      call('GET', '/AvExeTaskSet(TaskSeq=1)', 200, { value: [] }),
+    ]);
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        type: 'missingRequiredField',
+        path: '/AvExeTaskSet(TaskSeq={TaskSeq})',
+        operationId: 'Get_AvExeTask',
+        field: 'TaskSeq',
+      }),
+      expect.objectContaining({ type: 'extraProperty', field: 'value' }),
+    ]);
+  });
+
+  it('reports undocumented endpoints and status codes', () => {
+    const report = checker.check(spec, [
+      call('DELETE', '/AvExeTaskSet(TaskSeq=1)', 204),
+      call('GET', '/AvExeTaskSet', 500),
+    ]);
+
+    expect(report.issueCounts).toMatchObject({ undocumentedEndpoint: 1, undocumentedStatus: 1 });
+    expect(report.issues.map((issue) => issue.message)).toEqual([
+      'DELETE /AvExeTaskSet(TaskSeq=1) is not documented in the spec',
+      'Status 500 is not documented for GET /AvExeTaskSet',
+    ]);
+    expect(report.matchedCalls).toBe(1);
+  });
+
+  it('checks request and response bodies and merges repeated issues', () => {
+    const report = checker.check(spec, [
+      call('POST', '/AvExeTaskSet', 201, { TaskSeq: '1' }, {}),
+      call('POST', '/AvExeTaskSet', 201, { TaskSeq: '2' }, { Description: 'x' }),
+    ]);
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        type: 'missingRequiredField',
+        location: 'request',
+        field: 'Description',
+        occurrences: 1,
+        message: 'Required field Description is missing from the request body',
+      }),
+      expect.objectContaining({
+        type: 'typeMismatch',
+        location: 'response',
+        status: 201,
+        field: 'TaskSeq',
+        occurrences: 2,
+        exampleUrl: `${SERVICE_URL}/AvExeTaskSet`,
+      }),
+    ]);
+    expect(report.conformingCalls).toBe(0);
+  });
+
+  it('skips calls to other services and accepts the same service on another host', () => {
+    const report = checker.check(spec, [
+      {
+        method: 'GET',
+        url: 'https://erp.example.com/main/ifsapplications/projection/v1/Other.svc/TaskSet',
+      },
+      {
+        method: 'GET',
+        url: 'https://erp.example.com/main/ifsapplications/frameworkservices/Header.js',
+      },
+      {
+        method: 'GET',
+        url: 'http://localhost:8080/proxy/FlmTaskDetailHandling.svc/AvExeTaskSet(TaskSeq=1)',
+        status: 200,
+        responseBody: '{"TaskSeq":1}',
+      },
+    ]);
+
+    expect(report).toMatchObject({
+      totalCalls: 3,
+      skippedCalls: 2,
+      matchedCalls: 1,
+      conformingCalls: 1,
+    });
+  });
+
+  it('reads calls from a HAR document', () => {
+    const calls = checker.parseHar({
+      log: {
+        entries: [
+          {
+            _captureId: 'req-1',
+            request: {
+              method: 'post',
+              url: `${SERVICE_URL}/AvExeTaskSet`,
+              postData: { mimeType: 'application/json', text: '{"Description":"x"}' },
+            },
+            response: {
+              status: 201,
+              content: {
+                mimeType: 'application/json',
+                text: Buffer.from('{"TaskSeq":1}').toString('base64'),
+                encoding: 'base64',
+              },
+            },
+          },
+          {
+            request: { method: 'GET', url: `${SERVICE_URL}/AvExeTaskSet` },
+            response: { status: 0 },
+          },
+        ],
+      },
+    });
+
+    expect(calls).toEqual([
+      {
+        id: 'req-1',
+        method: 'POST',
+        url: `${SERVICE_URL}/AvExeTaskSet`,
+        requestBody: '{"Description":"x"}',
+        requestContentType: 'application/json',
+        status: 201,
+        responseBody: '{"TaskSeq":1}',
+        responseContentType: 'application/json',
+      },
+      expect.objectContaining({ method: 'GET', status: undefined, responseBody: undefined }),
+    ]);
+    expect(() => checker.parseHar({ log: {} })).toThrow('Invalid HAR file: missing log.entries');
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * Contract conformance checking.
+ * Compares captured traffic (HAR) with the operations and schemas of a loaded spec.
+ */
+
+import type { OperationMapper } from '../mapper/operation-mapper.js';
+import type {
+  CapturedCall,
+  ConformanceIssue,
+  ConformanceIssueType,
+  ConformanceReport,
+  ContentTypeInfo,
+  EndpointInfo,
+  OperationDetails,
+  ParsedSpec,
+  ResponseInfo,
+} from '../types.js';
+import { SchemaValidator, type SchemaViolation } from './schema-validator.js';
+
+/**
+ * The HAR entry fields read for conformance checking.
+ */
+interface HarEntry {
+  request?: {
+    method?: string;
+    url?: string;
+    postData?: { mimeType?: string; text?: string };
+  };
+  response?: {
+    status?: number;
+    content?: { mimeType?: string; text?: string; encoding?: string };
+  };
+  /** Request ID added by http-capture-mcp exports */
+  _captureId?: string;
+}
+
+/**
+ * Issue found in one call, before merging with identical issues.
+ */
+type IssueDraft = Omit<ConformanceIssue, 'occurrences' | 'exampleUrl'>;
+
+/**
+ * Endpoint with its compiled path template.
+ */
+interface EndpointMatcher {
+  endpoint: EndpointInfo;
+  pattern: RegExp;
+  /** Number of literal characters, used to prefer the most specific template */
+  literalLength: number;
+}
+
+/**
+ * Checks captured calls against a parsed spec.
+ */
+export class ConformanceChecker {
+  private readonly operationMapper: OperationMapper;
+
+  constructor(operationMapper: OperationMapper) {
+    this.operationMapper = operationMapper;
+  }
+
+  /**
+   * Read the calls of a HAR document.
+   */
+  parseHar(document: unknown): CapturedCall[] {
+    const log = (document as { log?: { entries?: unknown } } | null)?.log;
+    if (!log || !Array.isArray(log.entries)) {
+      throw new Error('Invalid HAR file: missing log.entries');
+    }
+
+    return (log.entries as HarEntry[]).map((entry) => {
+      const content = entry.response?.content;
+      const status = Number(entry.response?.status);
+
+      return {
+        id: entry._captureId,
+        method: (entry.request?.method ?? 'GET').toUpperCase(),
+        url: entry.request?.url ?? '',
+        requestBody: entry.request?.postData?.text,
+        requestContentType: entry.request?.postData?.mimeType,
+        // HAR uses status 0 for requests that never got a response
+        status: status > 0 ? status : undefined,
+        responseBody:
+          content?.text !== undefined && content.encoding === 'base64'
+            ? Buffer.from(content.text, 'base64').toString('utf-8')
+            : content?.text,
+        responseContentType: content?.mimeType,
+      };
+    });
+  }
+
+  /**
+   * Check calls against the spec.
+   */
+  check(spec: ParsedSpec, calls: CapturedCall[]): ConformanceReport {
+    const validator = new SchemaValidator(spec.raw);
+    const matchers = spec.endpoints.map((endpoint) => this.compile(endpoint));
+    const basePaths = this.getBasePaths(spec);
+    const issues = new Map<string, ConformanceIssue>();
+    let skippedCalls = 0;
+    let matchedCalls = 0;
+    let conformingCalls = 0;
+
+    for (const call of calls) {
+      const servicePath = this.toServicePath(call.url, basePaths);
+      if (servicePath === null) {
+        skippedCalls++;
+        continue;
+      }
+
+      const endpoint = this.findEndpoint(matchers, servicePath, call.method);
+      const operation = endpoint
+        ? this.operationMapper.getByPathMethod(spec, endpoint.path, endpoint.method)
+        : null;
+
+      if (!operation) {
+        this.addIssue(issues, call, {
+          type: 'undocumentedEndpoint',
+          method: call.method,
+          path: servicePath,
+          message: `${call.method} ${servicePath} is not documented in the spec`,
+        });
+        continue;
+      }
+
+      matchedCalls++;
+      const callIssues = this.checkCall(validator, operation, call);
+      for (const issue of callIssues) {
+        this.addIssue(issues, call, issue);
+      }
+      if (callIssues.length === 0) {
+        conformingCalls++;
+      }
+    }
+
+    const issueList = Array.from(issues.values());
+    const issueCounts: Record<ConformanceIssueType, number> = {
+      undocumentedEndpoint: 0,
+      undocumentedStatus: 0,
+      missingRequiredField: 0,
+      typeMismatch: 0,
+      extraProperty: 0,
+    };
+    for (const issue of issueList) {
+      issueCounts[issue.type]++;
+    }
+
+    return {
+      totalCalls: calls.length,
+      skippedCalls,
+      matchedCalls,
+      conformingCalls,
+      issueCounts,
+      issues: issueList,
+    };
+  }
+
+  /**
+   * Check the status and bodies of a call matched to an operation.
+   */
+  private checkCall(
+    validator: SchemaValidator,
+    operation: OperationDetails,
+    call: CapturedCall
+  ): Array<IssueDraft> {
+    const issues: Array<IssueDraft> = [];
+    const base = { method: operation.method, path: operation.path, operationId: operation.operationId };
+
+    const requestData = this.parseJson(call.requestBody);
+    const requestSchema = this.getJsonSchema(operation.requestBody?.content);
+    if (requestData !== undefined && requestSchema) {
+      for (const violation of validator.validate(requestSchema, requestData)) {
+        issues.push({ ...this.toIssue(violation, 'request'), ...base, location: 'request' });
+      }
+    }
+
+    if (call.status === undefined) {
+      return issues;
+    }
+
+    const response = this.findResponse(operation.responses, call.status);
+    if (!response) {
+      issues.push({
+        type: 'undocumentedStatus',
+        ...base,
+        status: call.status,
+        location: 'response',
+        message: `Status ${call.status} is not documented for ${operation.method} ${operation.path}`,
+      });
+      return issues;
+    }
+
+    const responseData = this.parseJson(call.responseBody);
+    const responseSchema = this.getJsonSchema(response.content);
+    if (responseData !== undefined && responseSchema) {
+      for (const violation of validator.validate(responseSchema, responseData)) {
+        issues.push({
+          ...this.toIssue(violation, 'response'),
+          ...base,
+          location: 'response',
+          status: call.status,
+        });
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Documented response for a status: exact code, then range (2XX), then default.
+   */
+  private findResponse(responses: ResponseInfo[], status: number): ResponseInfo | undefined {
+    const code = String(status);
+    const range = `${code.charAt(0)}XX`;
+
+    return (
+      responses.find((r) => r.statusCode === code) ??
+      responses.find((r) => r.statusCode.toUpperCase() === range) ??
+      responses.find((r) => r.statusCode === 'default')
+    );
+  }
+
+  /**
+   * Schema of the first JSON media type.
+   */
+  private getJsonSchema(content: ContentTypeInfo[] | undefined): Record<string, unknown> | undefined {
+    return content?.find((c) => c.mediaType.toLowerCase().includes('json') && c.schema)?.schema;
+  }
+
+  private toIssue(
+    violation: SchemaViolation,
+    location: 'request' | 'response'
+  ): Pick<ConformanceIssue, 'type' | 'field' | 'expected' | 'actual' | 'message'> {
+    const field = violation.field || '(body)';
+    let message: string;
+
+    switch (violation.type) {
+      case 'missingRequiredField':
+        message = `Required field ${field} is missing from the ${location} body`;
+        break;
+      case 'typeMismatch':
+        message = `${field} in the ${location} body is ${violation.actual}, spec expects ${violation.expected}`;
+        break;
+      case 'extraProperty':
+        message = `${field} in the ${location} body is not declared in the spec`;
+        break;
+    }
+
+    return {
+      type: violation.type,
+      field,
+      expected: violation.expected,
+      actual: violation.actual,
+      message,
+    };
+  }
+
+  /**
+   * Record an issue, merging it with identical issues from earlier calls.
+   */
+  private addIssue(
+    issues: Map<string, ConformanceIssue>,
+    call: CapturedCall,
+    issue: IssueDraft
+  ): void {
+    const key = [issue.type, issue.method, issue.path, issue.location, issue.status, issue.field].join('|');
+    const existing = issues.get(key);
+    if (existing) {
+      existing.occurrences++;
+      return;
+    }
+    issues.set(key, { ...issue, occurrences: 1, exampleUrl: call.url });
+  }
+
+  /**
+   * Find the most specific endpoint whose template matches the path and method.
+   */
+  private findEndpoint(
+    matchers: EndpointMatcher[],
+    servicePath: string,
+    method: string
+  ): EndpointInfo | undefined {
+    let best: EndpointMatcher | undefined;
+
+    for (const matcher of matchers) {
+      if (matcher.endpoint.method.toUpperCase() !== method || !matcher.pattern.test(servicePath)) {
+        continue;
+      }
+      if (!best || matcher.literalLength > best.literalLength) {
+        best = matcher;
+      }
+    }
+
+    return best?.endpoint;
+  }
+
+  /**
+   * Compile a path template such as /TaskSet(TaskSeq={TaskSeq},Site='{Site}') to a regex.
+   */
+  private compile(endpoint: EndpointInfo): EndpointMatcher {
+    const literals = endpoint.path.split(/\{[^}]+\}/);
+    const pattern = literals.map((literal) => literal.replace(/[.*+?^$()|[\]\\]/g, '\\$&')).join('[^/]+?');
+
+    return {
+      endpoint,
+      pattern: new RegExp(`^${pattern}/?$`),
+      literalLength: literals.join('').length,
+    };
+  }
+
+  /**
+   * Base paths of the spec's servers (e.g. /main/ifsapplications/projection/v1/Service.svc).
+   */
+  private getBasePaths(spec: ParsedSpec): string[] {
+    return spec.servers
+      .map((server) => {
+        try {
+          return new URL(server.url, 'http://localhost').pathname.replace(/\/+$/, '');
+        } catch {
+          return '';
+        }
+      })
+      .filter((path) => path !== '');
+  }
+
+  /**
+   * Path of a call relative to the service root, or null when the call is not for this service.
+   * Calls to the same .svc on another host or prefix are accepted too.
+   */
+  private toServicePath(url: string, basePaths: string[]): string | null {
+    let pathname: string;
+    try {
+      pathname = new URL(url).pathname;
+    } catch {
+      return null;
+    }
+
+    // Decode per segment so encoded slashes inside key values do not split segments
+    const path = pathname
+      .split('/')
+      .map((segment) => this.safeDecode(segment).replace(/\//g, '%2F'))
+      .join('/');
+
+    if (basePaths.length === 0) {
+      return path;
+    }
+
+    for (const basePath of basePaths) {
+      if (path === basePath || path.startsWith(`${basePath}/`)) {
+        return path.slice(basePath.length) || '/';
+      }
+
+      const service = basePath.slice(basePath.lastIndexOf('/'));
+      if (!service.endsWith('.svc')) {
+        continue;
+      }
+      const index = path.indexOf(`${service}/`);
+      if (index >= 0) {
+        return path.slice(index + service.length);
+      }
+    }
+
+    return null;
+  }
+
+  private safeDecode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+
+  private parseJson(text: string | undefined): unknown {
+    if (!text) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Schema validator tests.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { SchemaValidator } from './schema-validator.js';
+
+const DOCUMENT = {
+  components: {
+    schemas: {
+      AvExeTask: {
+        type: 'object',
+        required: ['TaskSeq'],
+        properties: {
+          TaskSeq: { type: 'number' },
+          Description: { type: 'string', nullable: true },
+          Resources: { type: 'array', items: { $ref: '#/components/schemas/TaskResource' } },
+        },
+      },
+      TaskResource: {
+        type: 'object',
+        properties: {
+          ResourceId: { type: 'string' },
+          Hours: { type: 'integer' },
+        },
+      },
+      'Task~Alias/Ref': { $ref: '#/components/schemas/AvExeTask' },
+    },
+  },
+};
+
+const validator = new SchemaValidator(DOCUMENT);
+const taskRef = { $ref: '#/components/schemas/AvExeTask' };
+
+describe('SchemaValidator', () => {
+  it('accepts a conforming payload, including integers for numbers and OData annotations', () => {
+    const task = {
+      '@odata.etag': 'W/"Vy8iQUFBQUFBQUFBQUE6MSI="',
+      TaskSeq: 1234567,
+      Description: null,
+      Resources: [{ ResourceId: 'RES-99', Hours: 2 }],
+    };
+
+    expect(validator.validate(taskRef, task)).toEqual([]);
+  });
+
+  it('reports missing required fields, type mismatches and extra properties with their paths', () => {
+    const task = {
+      Description: 42,
+      Resources: [{ ResourceId: 'RES-99', Hours: 1.5, Note: 'x' }],
+    };
+
+    expect(validator.validate(taskRef, task)).toEqual([
+      { type: 'missingRequiredField', field: 'TaskSeq' },
+      { type: 'typeMismatch', field: 'Description', expected: 'string | null', actual: 'integer' },
+      { type: 'typeMismatch', field: 'Resources[].Hours', expected: 'integer', actual: 'number' },
+      { type: 'extraProperty', field: 'Resources[].Note', actual: 'string' },
+    ]);
+  });
+
+  it('reports a top-level type mismatch with an empty field path', () => {
+    expect(validator.validate(taskRef, [])).toEqual([
+      { type: 'typeMismatch', field: '', expected: 'object', actual: 'array' },
+    ]);
+  });
+
+  it('follows escaped $ref pointers and ignores refs it cannot resolve', () => {
+    expect(validator.resolve({ $ref: '#/components/schemas/Task~0Alias~1Ref' })).toBe(
+      DOCUMENT.components.schemas.AvExeTask
+    );
+    expect(validator.resolve({ $ref: 'https://example.com/schema.json' })).toBeNull();
+    expect(validator.validate({ $ref: '#/components/schemas/Missing' }, 'anything')).toEqual([]);
+  });
+
+  it('stops at cyclic $refs', () => {
+    const cyclic = new SchemaValidator({
+      components: {
+        schemas: { A: { $ref: '#/components/schemas/B' }, B: { $ref: '#/components/schemas/A' } },
+      },
+    });
+
+    expect(cyclic.resolve({ $ref: '#/components/schemas/A' })).toBeNull();
+  });
+
+  it('accepts properties of any allOf part and requires fields of every part', () => {
+    const schema = {
+      allOf: [
+        taskRef,
+        { type: 'object', required: ['Site'], properties: { Site: { type: 'string' } } },
+      ],
+    };
+
+    expect(validator.validate(schema, { TaskSeq: 1, Site: 'MAIN' })).toEqual([]);
+    expect(validator.validate(schema, { TaskSeq: 1 })).toEqual([
+      { type: 'missingRequiredField', field: 'Site' },
+    ]);
+  });
+
+  it('reports the closest anyOf alternative when none matches', () => {
+    const resource = { $ref: '#/components/schemas/TaskResource' };
+    const schema = { anyOf: [resource, taskRef] };
+
+    expect(validator.validate(schema, { TaskSeq: 1 })).toEqual([]);
+    expect(validator.validate(schema, { TaskSeq: '1', Description: 'x' })).toEqual([
+      { type: 'typeMismatch', field: 'TaskSeq', expected: 'number', actual: 'string' },
+    ]);
+  });
+
+  it('allows undeclared properties on open objects and OpenAPI 3.1 type arrays', () => {
+    const open = {
+      type: 'object',
+      properties: { TaskSeq: { type: 'number' } },
+      additionalProperties: true,
+    };
+
+    expect(validator.validate(open, { TaskSeq: 1, Extra: true })).toEqual([]);
+    expect(validator.validate({ type: ['string', 'null'] }, null)).toEqual([]);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Structural JSON Schema validation for captured payloads.
+ * Covers the subset OpenAPI specs use for entity payloads: types, required fields,
+ * declared properties, array items, composition keywords and local $refs.
+ */
+
+/**
+ * A deviation between a payload and its schema.
+ */
+export interface SchemaViolation {
+  type: 'missingRequiredField' | 'typeMismatch' | 'extraProperty';
+  /** Field path (array items are written as []) */
+  field: string;
+  expected?: string;
+  actual?: string;
+}
+
+type Schema = Record<string, unknown>;
+
+/**
+ * Maximum nesting depth followed into payloads and $refs.
+ */
+const MAX_DEPTH = 12;
+
+/**
+ * Validates JSON values against schemas of one OpenAPI document.
+ */
+export class SchemaValidator {
+  private readonly document: unknown;
+
+  constructor(document: unknown) {
+    this.document = document;
+  }
+
+  /**
+   * Validate a value. Returns every violation found (empty when the value conforms).
+   */
+  validate(schema: unknown, value: unknown, field = '', depth = 0): SchemaViolation[] {
+    const resolved = this.resolve(schema);
+    if (!resolved || depth > MAX_DEPTH) {
+      return [];
+    }
+
+    const alternatives = (resolved['anyOf'] ?? resolved['oneOf']) as unknown[] | undefined;
+    if (Array.isArray(alternatives) && alternatives.length > 0) {
+      return this.validateAlternatives(alternatives, value, field, depth);
+    }
+
+    if (Array.isArray(resolved['allOf'])) {
+      return this.validateAll(resolved, resolved['allOf'] as unknown[], value, field, depth);
+    }
+
+    const actual = this.typeOf(value);
+    const expected = this.expectedTypes(resolved);
+    if (expected.length > 0 && !expected.some((type) => this.matchesType(type, actual))) {
+      return [{ type: 'typeMismatch', field, expected: expected.join(' | '), actual }];
+    }
+
+    if (actual === 'array') {
+      const items = resolved['items'];
+      return (value as unknown[]).flatMap((item) =>
+        this.validate(items, item, `${field}[]`, depth + 1)
+      );
+    }
+
+    if (actual === 'object') {
+      return this.validateObject(resolved, [], value as Record<string, unknown>, field, depth);
+    }
+
+    return [];
+  }
+
+  /**
+   * Follow local $refs (#/components/...) until a schema object is reached.
+   */
+  resolve(schema: unknown, depth = 0): Schema | null {
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      return null;
+    }
+
+    const ref = (schema as Schema)['$ref'];
+    if (typeof ref !== 'string') {
+      return schema as Schema;
+    }
+
+    // Remote refs cannot be followed; cyclic refs stop at the depth limit
+    if (!ref.startsWith('#/') || depth > MAX_DEPTH) {
+      return null;
+    }
+
+    let node: unknown = this.document;
+    for (const part of ref.slice(2).split('/')) {
+      const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+      if (typeof node !== 'object' || node === null) {
+        return null;
+      }
+      node = (node as Schema)[key];
+    }
+
+    return this.resolve(node, depth + 1);
+  }
+
+  /**
+   * A value conforms to anyOf/oneOf when any alternative accepts it.
+   * Otherwise the closest alternative's violations are reported.
+   */
+  private validateAlternatives(
+    alternatives: unknown[],
+    value: unknown,
+    field: string,
+    depth: number
+  ): SchemaViolation[] {
+    let closest: SchemaViolation[] | null = null;
+
+    for (const alternative of alternatives) {
+      const violations = this.validate(alternative, value, field, depth + 1);
+      if (violations.length === 0) {
+        return [];
+      }
+      if (!closest || violations.length < closest.length) {
+        closest = violations;
+      }
+    }
+
+    return closest ?? [];
+  }
+
+  /**
+   * allOf: every part must accept the value; properties declared by any part are not extra.
+   */
+  private validateAll(
+    schema: Schema,
+    parts: unknown[],
+    value: unknown,
+    field: string,
+    depth: number
+  ): SchemaViolation[] {
+    const resolvedParts = parts
+      .map((part) => this.resolve(part))
+      .filter((part): part is Schema => part !== null);
+
+    if (this.typeOf(value) !== 'object') {
+      return resolvedParts.flatMap((part) => this.validate(part, value, field, depth + 1));
+    }
+
+    return this.validateObject(schema, resolvedParts, value as Record<string, unknown>, field, depth);
+  }
+
+  /**
+   * Check required fields, declared properties and undeclared properties of an object.
+   */
+  private validateObject(
+    schema: Schema,
+    parts: Schema[],
+    value: Record<string, unknown>,
+    field: string,
+    depth: number
+  ): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const schemas = [schema, ...parts];
+    const properties = new Map<string, unknown>();
+    const required = new Set<string>();
+    let closed = true;
+    let declaresProperties = false;
+
+    for (const part of schemas) {
+      const partProperties = part['properties'];
+      if (typeof partProperties === 'object' && partProperties !== null) {
+        declaresProperties = true;
+        for (const [name, propertySchema] of Object.entries(partProperties)) {
+          properties.set(name, propertySchema);
+        }
+      }
+      if (Array.isArray(part['required'])) {
+        for (const name of part['required'] as unknown[]) {
+          if (typeof name === 'string') {
+            required.add(name);
+          }
+        }
+      }
+      // Explicitly open objects (additionalProperties: true or a schema) allow any extra field
+      const additional = part['additionalProperties'];
+      if (additional === true || (typeof additional === 'object' && additional !== null)) {
+        closed = false;
+      }
+    }
+
+    for (const name of required) {
+      if (!(name in value)) {
+        violations.push({ type: 'missingRequiredField', field: this.join(field, name) });
+      }
+    }
+
+    for (const [name, fieldValue] of Object.entries(value)) {
+      const propertySchema = properties.get(name);
+      if (propertySchema !== undefined) {
+        violations.push(...this.validate(propertySchema, fieldValue, this.join(field, name), depth + 1));
+        continue;
+      }
+
+      // OData annotations (@odata.etag, @odata.context) are never declared in entity schemas
+      if (closed && declaresProperties && !name.startsWith('@')) {
+        violations.push({ type: 'extraProperty', field: this.join(field, name), actual: this.typeOf(fieldValue) });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Declared types, including OpenAPI 3.0 nullable and 3.1 type arrays.
+   */
+  private expectedTypes(schema: Schema): string[] {
+    const declared = schema['type'];
+    const types = Array.isArray(declared)
+      ? declared.filter((type): type is string => typeof type === 'string')
+      : typeof declared === 'string'
+        ? [declared]
+        : schema['properties']
+          ? ['object']
+          : [];
+
+    if (types.length > 0 && schema['nullable'] === true && !types.includes('null')) {
+      types.push('null');
+    }
+    return types;
+  }
+
+  private matchesType(expected: string, actual: string): boolean {
+    return expected === actual || (expected === 'number' && actual === 'integer');
+  }
+
+  /**
+   * JSON type name of a value (integer is reported separately from number).
+   */
+  private typeOf(value: unknown): string {
+    if (value === null) {
+      return 'null';
+    }
+    if (Array.isArray(value)) {
+      return 'array';
+    }
+    if (typeof value === 'number') {
+      return Number.isInteger(value) ? 'integer' : 'number';
+    }
+    return typeof value;
+  }
+
+  private join(field: string, name: string): string {
+    return field ? `${field}.${name}` : name;
+  }
+}
@@ -2,12 +2,21 @@
  * OpenAPI Metadata MCP Server implementation.
  */
 
+import { readFile } from 'node:fs/promises';
 import { BaseMcpServer, createSchema } from '@ifs/mcp-core';
 import { createLogger, createAuditLogger, type AuditLogger } from '@ifs/logging';
+import { ConformanceChecker } from './conformance/conformance-checker.js';
 import { SpecParser } from './parser/spec-parser.js';
 import { EntityExtractor } from './extractor/entity-extractor.js';
 import { OperationMapper } from './mapper/operation-mapper.js';
-import type { ParsedSpec, EndpointInfo, EntitySchema, OperationDetails } from './types.js';
+import type {
+  ParsedSpec,
+  EndpointInfo,
+  EntitySchema,
+  OperationDetails,
+  ConformanceReport,
+  CapturedCall,
+} from './types.js';
 
 /**
  * OpenAPI Metadata MCP Server.
@@ -19,6 +28,7 @@ export class OpenApiMcpServer extends BaseMcpServer {
   private readonly specParser = new SpecParser();
   private readonly entityExtractor = new EntityExtractor();
   private readonly operationMapper = new OperationMapper();
+  private readonly conformanceChecker = new ConformanceChecker(this.operationMapper);
   
   private loadedSpecs = new Map<string, ParsedSpec>();
 
@@ -144,6 +154,19 @@ export class OpenApiMcpServer extends BaseMcpServer {
       async (args) => this.handleListSchemas(args as { specId: string })
     );
 
+    // Tool: checkConformance
+    this.registerTool(
+      {
+        name: 'checkConformance',
+        description: 'Checks captured traffic (HAR file) against a loaded spec. Reports undocumented endpoints and status codes, missing required fields, type mismatches and undeclared properties. Capture sessions are not read directly: write an http-capture-mcp session to a HAR file with its exportHar tool first',
+        inputSchema: createSchema()
+          .string('specId', 'The spec ID', { required: true })
+          .string('harFilePath', 'Path to the HAR file (use exportHar in http-capture-mcp for a capture session)', { required: true })
+          .build(),
+      },
+      async (args) => this.handleCheckConformance(args as { specId: string; harFilePath: string })
+    );
+
     // Tool: unloadSpec
     this.registerTool(
       {
@@ -325,6 +348,43 @@ export class OpenApiMcpServer extends BaseMcpServer {
     };
   }
 
+  private async handleCheckConformance(args: {
+    specId: string;
+    harFilePath: string;
+  }): Promise<ConformanceReport> {
+    const spec = this.getSpec(args.specId);
+    const correlationId = this.logger.newCorrelationId();
+
+    let calls: CapturedCall[];
+    try {
+      const content = await readFile(args.harFilePath, 'utf-8');
+      calls = this.conformanceChecker.parseHar(JSON.parse(content));
+      await this.auditLogger.logFileAccess(correlationId, args.harFilePath, 'read', 'success');
+    } catch (error) {
+      await this.auditLogger.logFileAccess(
+        correlationId,
+        args.harFilePath,
+        'read',
+        'failure',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+      throw new Error(
+        `Failed to read HAR file: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const report = this.conformanceChecker.check(spec, calls);
+
+    this.logger.info('Conformance checked', {
+      specId: args.specId,
+      harFilePath: args.harFilePath,
+      matchedCalls: report.matchedCalls,
+      issueCount: report.issues.length,
+    });
+
+    return report;
+  }
+
   private async handleUnloadSpec(args: { specId: string }): Promise<{ success: boolean }> {
     const existed = this.loadedSpecs.delete(args.specId);
     this.logger.info('Spec unloaded', { specId: args.specId, existed });
@@ -226,3 +226,70 @@ export interface SecurityRequirement {
   /** Scopes */
   scopes: string[];
 }
+
+/**
+ * HTTP call read from a capture (HAR) file.
+ */
+export interface CapturedCall {
+  /** Captured request ID, when the HAR was exported by http-capture-mcp */
+  id?: string;
+  method: string;
+  url: string;
+  requestBody?: string;
+  requestContentType?: string;
+  /** Response status (undefined when no response was captured) */
+  status?: number;
+  responseBody?: string;
+  responseContentType?: string;
+}
+
+/**
+ * Kind of contract deviation.
+ */
+export type ConformanceIssueType =
+  | 'undocumentedEndpoint'
+  | 'undocumentedStatus'
+  | 'missingRequiredField'
+  | 'typeMismatch'
+  | 'extraProperty';
+
+/**
+ * A deviation between captured traffic and the spec.
+ * Identical deviations on the same operation are reported once with an occurrence count.
+ */
+export interface ConformanceIssue {
+  type: ConformanceIssueType;
+  /** HTTP method */
+  method: string;
+  /** Matched path template, or the captured path for undocumented endpoints */
+  path: string;
+  operationId?: string;
+  /** Whether the deviation is in the request or the response */
+  location?: 'request' | 'response';
+  /** Response status the deviation was found in */
+  status?: number;
+  /** Field path inside the body (array items are written as []) */
+  field?: string;
+  /** Expected type */
+  expected?: string;
+  /** Actual type */
+  actual?: string;
+  message: string;
+  occurrences: number;
+  /** First captured URL showing the deviation */
+  exampleUrl: string;
+}
+
+/**
+ * Result of checking captured traffic against a spec.
+ */
+export interface ConformanceReport {
+  totalCalls: number;
+  /** Calls outside the spec's server paths (other services, static assets) */
+  skippedCalls: number;
+  matchedCalls: number;
+  /** Matched calls without any deviation */
+  conformingCalls: number;
+  issueCounts: Record<ConformanceIssueType, number>;
+  issues: ConformanceIssue[];
+}
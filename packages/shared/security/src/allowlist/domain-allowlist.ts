@@ -50,7 +50,7 @@ export class DomainAllowlist {
 
     // Handle wildcard at start (*.domain.com)
     if (pattern.startsWith('*.')) {
-      regexStr = `([a-zA-Z0-9-]+\\.)*${regexStr.slice(16)}`; // Remove the leading pattern
+      regexStr = `([a-zA-Z0-9-]+\\.)*${regexStr.slice('[a-zA-Z0-9-]+\\.'.length)}`; // Remove the leading pattern
     }
 
     return new RegExp(`^${regexStr}$`, 'i');